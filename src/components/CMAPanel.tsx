@@ -0,0 +1,164 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { Property } from '@/types/property';
+import type { CMAAdjustments, CMAFeature, CMARequest, CMAResult } from '@/types/cma';
+import { DEFAULT_CMA_ADJUSTMENTS } from '@/utils/cma';
+
+interface CMAPanelProps {
+  subject: Property;
+  closedListings: Property[];
+  onClose?: () => void;
+}
+
+const FEATURE_LABELS: Record<CMAFeature, string> = {
+  perSqft: 'Per sq ft',
+  perBedroom: 'Per bedroom',
+  pool: 'Pool',
+  perGarageSpace: 'Per garage space',
+  perAcre: 'Per acre',
+  perYearBuilt: 'Per year newer'
+};
+
+const FEATURES = Object.keys(FEATURE_LABELS) as CMAFeature[];
+
+const formatDollars = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString()}`;
+
+async function requestCMA(body: CMARequest): Promise<CMAResult> {
+  const response = await fetch('/api/cma', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok) {
+    const errorData: { message?: string } = await response.json();
+    throw new Error(errorData.message || 'Failed to run the CMA');
+  }
+  return response.json();
+}
+
+/**
+ * Comparative market analysis for one listing: the adjusted comp grid from
+ * the report's closed sales and a suggested list-price range. The dollar
+ * adjustments can be edited and the grid recalculated.
+ */
+const CMAPanel: React.FC<CMAPanelProps> = ({ subject, closedListings, onClose }) => {
+  const [adjustments, setAdjustments] = useState<CMAAdjustments>(DEFAULT_CMA_ADJUSTMENTS);
+  const [result, setResult] = useState<CMAResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runAnalysis = useCallback(async (rates: CMAAdjustments) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setResult(await requestCMA({ subject, closedListings, adjustments: rates }));
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Failed to run the CMA');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [subject, closedListings]);
+
+  // Runs for each new subject; edited rates apply with Recalculate, not on
+  // every keystroke
+  useEffect(() => {
+    runAnalysis(adjustments);
+  }, [runAnalysis]);
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6" aria-labelledby="cma-title" data-testid="cma-panel">
+      <div className="flex justify-between items-center mb-4">
+        <h3 id="cma-title" className="text-xl font-semibold text-gray-800">
+          Comparative Market Analysis: {subject.address}
+        </h3>
+        {onClose && (
+          <button onClick={onClose} className="text-sm text-gray-600 hover:text-gray-800">
+            Close
+          </button>
+        )}
+      </div>
+
+      <form
+        className="grid grid-cols-2 md:grid-cols-6 gap-3 mb-4 text-sm"
+        onSubmit={event => {
+          event.preventDefault();
+          runAnalysis(adjustments);
+        }}
+      >
+        {FEATURES.map(feature => (
+          <label key={feature} className="flex flex-col text-gray-600">
+            {FEATURE_LABELS[feature]}
+            <input
+              type="number"
+              value={adjustments[feature]}
+              onChange={event => setAdjustments(prev => ({ ...prev, [feature]: Number(event.target.value) }))}
+              className="mt-1 border border-gray-300 rounded px-2 py-1"
+            />
+          </label>
+        ))}
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="col-span-2 md:col-span-6 justify-self-start px-3 py-1 rounded-md bg-blue-600 text-white
+            hover:bg-blue-700 disabled:opacity-50"
+        >
+          Recalculate
+        </button>
+      </form>
+
+      {error && <p role="alert" className="text-red-700 text-sm">{error}</p>}
+      {isLoading && <p className="text-sm text-gray-500">Selecting comparable sales...</p>}
+
+      {result && !isLoading && (
+        <>
+          <div className="mb-4" data-testid="cma-price-range">
+            <div className="text-2xl font-semibold text-gray-800">
+              {formatDollars(result.priceRange.low)} – {formatDollars(result.priceRange.high)}
+            </div>
+            <div className="text-sm text-gray-600">
+              Suggested list price {formatDollars(result.suggestedPrice)} from {result.comps.length} comps
+              ({result.criteria.label})
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <caption className="sr-only">Adjusted comp grid</caption>
+              <thead>
+                <tr className="text-gray-500">
+                  <th scope="col">Comp</th>
+                  <th scope="col">Sold</th>
+                  {FEATURES.map(feature => <th key={feature} scope="col">{FEATURE_LABELS[feature]}</th>)}
+                  <th scope="col">Net</th>
+                  <th scope="col">Adjusted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.comps.map(comp => (
+                  <tr key={comp.listing.mlsNumber} className="border-t border-gray-100">
+                    <th scope="row" className="font-normal">
+                      {comp.listing.address}
+                      <div className="text-xs text-gray-500">
+                        {comp.listing.sqft.toLocaleString()} sqft, {comp.listing.bedrooms} bd
+                        {comp.listing.soldDate ? `, sold ${comp.listing.soldDate}` : ''}
+                      </div>
+                    </th>
+                    <td>{formatDollars(comp.listing.soldPrice || 0)}</td>
+                    {FEATURES.map(feature => {
+                      const line = comp.adjustments.find(adjustment => adjustment.feature === feature);
+                      return <td key={feature}>{line ? formatDollars(line.amount) : '—'}</td>;
+                    })}
+                    <td>{formatDollars(comp.netAdjustment)}</td>
+                    <td className="font-medium">{formatDollars(comp.adjustedPrice)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default CMAPanel;
@@ -1,6 +1,8 @@
 import React, { useState, useRef, useEffect, type ChangeEvent, type FormEvent } from 'react';
 import PDFUpload from '@/components/PDFUpload';
 import type { MLSReport } from '@/types/property';
+import type { ProcessingProgress } from '@/types/processing';
+import type { UploadSuccessResponse } from '@/types/api';
 
 interface Message {
   role: 'user' | 'assistant';
@@ -10,7 +12,11 @@ interface Message {
 interface ChatInterfaceProps {
   mlsData: MLSReport | null;
   onCalculatePayment: (listPrice: number) => void;
-  onUpload: (file: File) => void;
+  // Resolves with the upload response envelope; its message is added to the chat
+  onUpload: (
+    file: File,
+    onProgress?: (progress: ProcessingProgress) => void
+  ) => void | Promise<UploadSuccessResponse | void>;
 }
 
 export default function ChatInterface({ mlsData, onCalculatePayment, onUpload }: ChatInterfaceProps) {
@@ -27,6 +33,13 @@ export default function ChatInterface({ mlsData, onCalculatePayment, onUpload }:
     scrollToBottom();
   }, [messages]);
 
+  const handleUpload = async (file: File, onProgress?: (progress: ProcessingProgress) => void) => {
+    const response = await onUpload(file, onProgress);
+    if (response?.message) {
+      setMessages(prev => [...prev, { role: 'assistant', content: response.message }]);
+    }
+  };
+
   const handleInputChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
     setInput(e.target.value);
   };
@@ -77,7 +90,7 @@ export default function ChatInterface({ mlsData, onCalculatePayment, onUpload }:
         {!mlsData && (
           <div className="mb-4">
             <PDFUpload 
-              onUpload={onUpload} 
+              onUpload={handleUpload} 
               onError={(message) => {
                 setMessages(prev => [
                   ...prev,
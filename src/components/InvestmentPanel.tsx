@@ -0,0 +1,224 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { Property } from '@/types/property';
+import type { InvestmentAssumptions, InvestmentRequest, InvestmentResponse } from '@/types/investment';
+import { investmentAssumptionsFor } from '@/utils/investment-analysis';
+
+interface InvestmentPanelProps {
+  listing: Property;
+  // Estimated monthly rent to start from; 0 when there is no estimate
+  monthlyRent: number;
+  // Airtable record ID of the saved report; the analysis can be saved when set
+  reportId?: string;
+  onClose?: () => void;
+}
+
+type AssumptionName = keyof InvestmentAssumptions;
+
+// Rates are edited as percentages
+const ASSUMPTION_FIELDS: Array<{ name: AssumptionName; label: string; percent?: boolean }> = [
+  { name: 'purchasePrice', label: 'Purchase price' },
+  { name: 'downPaymentRate', label: 'Down payment (%)', percent: true },
+  { name: 'interestRate', label: 'Interest rate (%)', percent: true },
+  { name: 'loanTermYears', label: 'Loan term (years)' },
+  { name: 'closingCostRate', label: 'Closing costs (%)', percent: true },
+  { name: 'monthlyRent', label: 'Monthly rent' },
+  { name: 'vacancyRate', label: 'Vacancy (%)', percent: true },
+  { name: 'propertyTaxRate', label: 'Property tax (%/yr)', percent: true },
+  { name: 'annualInsurance', label: 'Insurance ($/yr)' },
+  { name: 'monthlyHOA', label: 'HOA ($/mo)' },
+  { name: 'maintenanceRate', label: 'Maintenance (% of rent)', percent: true },
+  { name: 'managementRate', label: 'Management (% of rent)', percent: true },
+  { name: 'holdYears', label: 'Hold period (years)' },
+  { name: 'appreciationRate', label: 'Appreciation (%/yr)', percent: true },
+  { name: 'rentGrowthRate', label: 'Rent growth (%/yr)', percent: true },
+  { name: 'sellingCostRate', label: 'Selling costs (%)', percent: true }
+];
+
+const formatDollars = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString()}`;
+const formatPercent = (value: number | null) => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+
+async function requestAnalysis(body: InvestmentRequest): Promise<InvestmentResponse> {
+  const response = await fetch('/api/investment-analysis', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok) {
+    const errorData: { message?: string } = await response.json();
+    throw new Error(errorData.message || 'Failed to analyze the investment');
+  }
+  return response.json();
+}
+
+/**
+ * Rental investment analysis of one listing: NOI, cap rate, cash flow,
+ * cash-on-cash return, DSCR and IRR over the hold period. The assumptions can
+ * be edited and the analysis recalculated or saved as an insight.
+ */
+const InvestmentPanel: React.FC<InvestmentPanelProps> = ({ listing, monthlyRent, reportId, onClose }) => {
+  const [assumptions, setAssumptions] = useState<InvestmentAssumptions>(() =>
+    investmentAssumptionsFor(listing, monthlyRent));
+  const [result, setResult] = useState<InvestmentResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+
+  const runAnalysis = useCallback(async (values: InvestmentAssumptions, save = false) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await requestAnalysis(save && reportId
+        ? { assumptions: values, reportId, mlsNumber: listing.mlsNumber }
+        : { assumptions: values });
+      setResult(response);
+      if (save) {
+        setSavedMessage(response.insightId ? 'Saved as an insight' : 'This listing is not in the saved report');
+      }
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Failed to analyze the investment');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [listing.mlsNumber, reportId]);
+
+  // Starts over for each new listing; edits apply with Recalculate
+  useEffect(() => {
+    const initial = investmentAssumptionsFor(listing, monthlyRent);
+    setAssumptions(initial);
+    setSavedMessage(null);
+    runAnalysis(initial);
+  }, [listing, monthlyRent, runAnalysis]);
+
+  const analysis = result?.analysis;
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6" aria-labelledby="investment-title" data-testid="investment-panel">
+      <div className="flex justify-between items-center mb-4">
+        <h3 id="investment-title" className="text-xl font-semibold text-gray-800">
+          Investment Analysis: {listing.address}
+        </h3>
+        {onClose && (
+          <button onClick={onClose} className="text-sm text-gray-600 hover:text-gray-800">
+            Close
+          </button>
+        )}
+      </div>
+
+      <form
+        className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-sm"
+        onSubmit={event => {
+          event.preventDefault();
+          runAnalysis(assumptions);
+        }}
+      >
+        {ASSUMPTION_FIELDS.map(({ name, label, percent }) => (
+          <label key={name} className="flex flex-col text-gray-600">
+            {label}
+            <input
+              type="number"
+              step="any"
+              value={percent ? Math.round(assumptions[name] * 100000) / 1000 : assumptions[name]}
+              onChange={event => {
+                const value = Number(event.target.value);
+                setAssumptions(prev => ({ ...prev, [name]: percent ? value / 100 : value }));
+              }}
+              className="mt-1 border border-gray-300 rounded px-2 py-1"
+            />
+          </label>
+        ))}
+        <div className="col-span-2 md:col-span-4 flex items-center gap-3">
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Recalculate
+          </button>
+          {reportId && (
+            <button
+              type="button"
+              disabled={isLoading}
+              onClick={() => runAnalysis(assumptions, true)}
+              className="px-3 py-1 rounded-md border border-blue-600 text-blue-600 hover:bg-blue-50 disabled:opacity-50"
+            >
+              Save as Insight
+            </button>
+          )}
+          {savedMessage && <span className="text-gray-600">{savedMessage}</span>}
+        </div>
+      </form>
+
+      {error && <p role="alert" className="text-red-700 text-sm">{error}</p>}
+
+      {analysis && !isLoading && (
+        <>
+          <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4" data-testid="investment-metrics">
+            <div>
+              <dt className="text-sm text-gray-500">NOI (year 1)</dt>
+              <dd className="text-lg font-semibold">{formatDollars(analysis.netOperatingIncome)}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">Cap rate</dt>
+              <dd className="text-lg font-semibold">{formatPercent(analysis.capRate)}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">Monthly cash flow</dt>
+              <dd className={`text-lg font-semibold ${analysis.monthlyCashFlow < 0 ? 'text-red-700' : 'text-green-700'}`}>
+                {formatDollars(analysis.monthlyCashFlow)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">Cash-on-cash</dt>
+              <dd className="text-lg font-semibold">{formatPercent(analysis.cashOnCashReturn)}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">DSCR</dt>
+              <dd className="text-lg font-semibold">{analysis.dscr === null ? 'n/a' : analysis.dscr.toFixed(2)}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">IRR ({assumptions.holdYears} yr hold)</dt>
+              <dd className="text-lg font-semibold">{formatPercent(analysis.irr)}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">Cash invested</dt>
+              <dd className="text-lg font-semibold">{formatDollars(analysis.cashInvested)}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">Mortgage</dt>
+              <dd className="text-lg font-semibold">{formatDollars(analysis.monthlyMortgage)}/mo</dd>
+            </div>
+          </dl>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <caption className="sr-only">Cash flows by year</caption>
+              <thead>
+                <tr className="text-gray-500">
+                  <th scope="col">Year</th>
+                  <th scope="col">NOI</th>
+                  <th scope="col">Debt service</th>
+                  <th scope="col">Cash flow</th>
+                  <th scope="col">Sale proceeds</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.years.map(year => (
+                  <tr key={year.year} className="border-t border-gray-100">
+                    <th scope="row" className="font-normal">{year.year}</th>
+                    <td>{formatDollars(year.netOperatingIncome)}</td>
+                    <td>{formatDollars(year.debtService)}</td>
+                    <td>{formatDollars(year.cashFlow)}</td>
+                    <td>{year.saleProceeds ? formatDollars(year.saleProceeds) : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default InvestmentPanel;
@@ -1,13 +1,43 @@
 import React, { useCallback, useState, useEffect } from 'react';
 import { useDropzone } from 'react-dropzone';
+import type { ProcessingProgress } from '@/types/processing';
+import { PROCESSING_STAGE_LABELS } from '@/types/processing';
+import { MAX_UPLOAD_BYTES } from '@/types/api';
+import { ProcessingStageError, describeProcessingFailure } from '@/utils/processing-events';
 
 interface PDFUploadProps {
-  onUpload: (file: File) => void;
+  // Uploads that stream progress call `onProgress` as each stage runs
+  onUpload: (file: File, onProgress?: (progress: ProcessingProgress) => void) => void | Promise<void>;
   onError: (message: string) => void;
 }
 
+// MLS reports as PDF, or MLS search exports as CSV/Excel
+const ACCEPTED_FILES: Record<string, string[]> = {
+  'application/pdf': ['.pdf'],
+  'text/csv': ['.csv'],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+  'application/vnd.ms-excel': ['.xls']
+};
+
+const INVALID_TYPE_MESSAGE = 'Please upload a PDF, CSV or Excel file';
+
+const isAcceptedFile = (file: File) => {
+  const extension = `.${file.name.toLowerCase().split('.').pop()}`;
+  return Boolean(file.type && ACCEPTED_FILES[file.type]) ||
+    Object.values(ACCEPTED_FILES).some(extensions => extensions.includes(extension));
+};
+
+// Names the failed stage when the server reported one
+const getUploadErrorMessage = (err: unknown) => {
+  if (err instanceof ProcessingStageError && err.stage) {
+    return describeProcessingFailure({ stage: err.stage, message: err.message });
+  }
+  return 'Failed to process file';
+};
+
 const PDFUpload: React.FC<PDFUploadProps> = ({ onUpload, onError }) => {
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isPressed, setIsPressed] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
@@ -49,14 +79,14 @@ const PDFUpload: React.FC<PDFUploadProps> = ({ onUpload, onError }) => {
     if (isProcessing) return; // Prevent multiple uploads while processing
 
     // Validate file type
-    if (!file.type || file.type !== 'application/pdf') {
-      setError('Please upload a PDF file');
-      onError('Please upload a PDF file');
+    if (!isAcceptedFile(file)) {
+      setError(INVALID_TYPE_MESSAGE);
+      onError(INVALID_TYPE_MESSAGE);
       return;
     }
 
     // Validate file size (10MB limit)
-    if (file.size > 10 * 1024 * 1024) {
+    if (file.size > MAX_UPLOAD_BYTES) {
       setError('File size exceeds 10MB limit');
       onError('File size exceeds 10MB limit');
       return;
@@ -65,13 +95,14 @@ const PDFUpload: React.FC<PDFUploadProps> = ({ onUpload, onError }) => {
     try {
       setIsProcessing(true);
       setError(null);
+      setProgress(null);
       
       // Ensure state update is complete before proceeding
       await new Promise(resolve => setTimeout(resolve, 0));
       
-      await onUpload(file);
+      await onUpload(file, setProgress);
     } catch (err) {
-      const errorMessage = 'Failed to process PDF';
+      const errorMessage = getUploadErrorMessage(err);
       setError(errorMessage);
       onError(errorMessage);
     } finally {
@@ -89,14 +120,14 @@ const PDFUpload: React.FC<PDFUploadProps> = ({ onUpload, onError }) => {
     if (!file) return;
     
     // Validate file type
-    if (!file.type || file.type !== 'application/pdf') {
-      setError('Please upload a PDF file');
-      onError('Please upload a PDF file');
+    if (!isAcceptedFile(file)) {
+      setError(INVALID_TYPE_MESSAGE);
+      onError(INVALID_TYPE_MESSAGE);
       return;
     }
     
     // Validate file size
-    if (file.size > 10 * 1024 * 1024) {
+    if (file.size > MAX_UPLOAD_BYTES) {
       setError('File size exceeds 10MB limit');
       onError('File size exceeds 10MB limit');
       return;
@@ -105,13 +136,14 @@ const PDFUpload: React.FC<PDFUploadProps> = ({ onUpload, onError }) => {
     try {
       setIsProcessing(true);
       setError(null);
+      setProgress(null);
       
       // Ensure state update is complete before proceeding
       await new Promise(resolve => setTimeout(resolve, 0));
       
-      await onUpload(file);
+      await onUpload(file, setProgress);
     } catch (err) {
-      const errorMessage = 'Failed to process PDF';
+      const errorMessage = getUploadErrorMessage(err);
       setError(errorMessage);
       onError(errorMessage);
     } finally {
@@ -150,9 +182,7 @@ const PDFUpload: React.FC<PDFUploadProps> = ({ onUpload, onError }) => {
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'application/pdf': ['.pdf']
-    },
+    accept: ACCEPTED_FILES,
     maxFiles: 1,
     disabled: isProcessing,
     onDragEnter: handleDragEnter,
@@ -162,8 +192,8 @@ const PDFUpload: React.FC<PDFUploadProps> = ({ onUpload, onError }) => {
     },
     onDropRejected: () => {
       setIsDragging(false);
-      setError('Please upload a valid PDF file');
-      onError('Please upload a valid PDF file');
+      setError(INVALID_TYPE_MESSAGE);
+      onError(INVALID_TYPE_MESSAGE);
     }
   });
 
@@ -176,7 +206,7 @@ const PDFUpload: React.FC<PDFUploadProps> = ({ onUpload, onError }) => {
     onDrop: handleDrop,
     role: 'button',
     tabIndex: 0,
-    'aria-label': 'Upload PDF file',
+    'aria-label': 'Upload MLS report file',
     'aria-pressed': isPressed,
     'aria-busy': isProcessing,
     'aria-disabled': isProcessing
@@ -199,7 +229,7 @@ const PDFUpload: React.FC<PDFUploadProps> = ({ onUpload, onError }) => {
   return (
     <div className="w-full max-w-xl mx-auto">
       <div {...dropzoneProps} className={getClassName()}>
-        <input {...getInputProps()} aria-label="Upload PDF file" />
+        <input {...getInputProps()} aria-label="Upload MLS report file" />
         
         {isProcessing ? (
           <div 
@@ -208,18 +238,37 @@ const PDFUpload: React.FC<PDFUploadProps> = ({ onUpload, onError }) => {
             role="status"
             aria-live="polite"
           >
-            Processing...
+            {progress ? (
+              <>
+                <p>{progress.message}</p>
+                <div
+                  role="progressbar"
+                  aria-label={PROCESSING_STAGE_LABELS[progress.stage]}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={progress.percent}
+                  className="mt-2 h-2 w-full rounded bg-blue-100"
+                >
+                  <div
+                    className={`h-2 rounded bg-blue-600 ${prefersReducedMotion ? '' : 'transition-all'}`}
+                    style={{ width: `${progress.percent}%` }}
+                  />
+                </div>
+              </>
+            ) : (
+              'Processing...'
+            )}
           </div>
         ) : (
           <>
             <p className="text-lg mb-2">
-              Drag & drop your MLS report PDF
+              Drag & drop your MLS report PDF or export (CSV/XLSX)
             </p>
             <p className="text-sm text-gray-500">
               or click to select file
             </p>
             <div className="mt-4 text-xs text-gray-400">
-              <p>Supported format: PDF</p>
+              <p>Supported formats: PDF, CSV, XLSX</p>
               <p>Maximum file size: 10MB</p>
             </div>
           </>
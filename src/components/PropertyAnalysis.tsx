@@ -1,18 +1,42 @@
 import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import type { 
+  ListingOutlier,
   MLSReport, 
   PricePoint, 
   Property, 
+  ForecastData, 
   SchoolInfo, 
   DemographicMetric, 
   SeasonalityData 
 } from '@/types/property';
+import type { FieldProvenance, FieldReviewItem, ListingRepair, PropertyField } from '@/types/extraction';
 import MonthlyPaymentCalculator from './MonthlyPaymentCalculator';
-import { validateMLSReport, ValidationError } from '@/utils/market-data-validator';
+import CMAPanel from './CMAPanel';
+import InvestmentPanel from './InvestmentPanel';
+import type { ValidationIssue, ValidationThresholds } from '@/types/validation';
+import type { ListingValuation, ValuationResponse } from '@/types/valuation';
+import type { MarketCondition } from '@/types/market-condition';
+import type { LeaseComp, LeaseCompImportResponse, RentalEstimate, RentalEstimateResponse } from '@/types/rental';
+import { VALIDATION_SEVERITIES } from '@/types/validation';
+import { validateReport } from '@/utils/validation-profiles';
+import { describeProvenance, findProvenance } from '@/utils/provenance';
+import { describeOutlier, detectListingOutliers } from '@/utils/listing-outliers';
+import { calculateStatistics } from '@/utils/market-statistics';
+import { classifyMarket, MARKET_CONDITION_LABELS } from '@/utils/market-condition';
 
 interface PropertyAnalysisProps {
   data: MLSReport;
   onPriceSelect?: (price: number) => void;
+  provenance?: FieldProvenance[];
+  reviewItems?: FieldReviewItem[];
+  // Values the normalizer corrected; reverting one is left to the caller,
+  // e.g. with revertRepair
+  repairs?: ListingRepair[];
+  onRevertRepair?: (repair: ListingRepair) => void;
+  // Per-city thresholds from the upload response; defaults when omitted
+  validationThresholds?: ValidationThresholds;
+  // Airtable record ID of the saved report, to record rental estimates against
+  reportId?: string;
 }
 
 const formatMetric = (metric: DemographicMetric) => {
@@ -20,6 +44,66 @@ const formatMetric = (metric: DemographicMetric) => {
   return `${metric.value.toLocaleString()} (${sign}${metric.percentChange}%, ${metric.trend})`;
 };
 
+// Statistics the listings cannot support are shown as unknown, never as 0
+const formatStatistic = (value: number | null | undefined, format: (value: number) => string = String) =>
+  value === null || value === undefined ? 'Unknown' : format(value);
+
+const formatDollars = (value: number) => `$${value.toLocaleString()}`;
+
+// Posts to one of the analysis endpoints, throwing the message of their
+// `{ success: false, message }` error envelope
+async function requestAnalysis<T>(url: string, body: unknown, fallback: string): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || fallback);
+  }
+  return result;
+}
+
+const MARKET_CONDITION_STYLES: Record<MarketCondition, string> = {
+  buyers: 'bg-blue-100 text-blue-800',
+  balanced: 'bg-gray-100 text-gray-800',
+  sellers: 'bg-orange-100 text-orange-800'
+};
+
+const SEVERITY_STYLES: Record<ValidationIssue['severity'], { label: string; className: string }> = {
+  error: { label: 'Errors', className: 'text-red-700' },
+  warning: { label: 'Warnings', className: 'text-yellow-700' },
+  info: { label: 'Notes', className: 'text-blue-700' }
+};
+
+// Data Quality Panel Component
+const DataQualityPanel = ({ issues }: { issues: ValidationIssue[] }) => (
+  <section className="bg-white border border-gray-200 rounded-lg p-6" data-testid="data-quality">
+    <h3 className="text-xl font-semibold text-gray-800 mb-4">Data Quality</h3>
+    {VALIDATION_SEVERITIES.map(severity => {
+      const group = issues.filter(issue => issue.severity === severity);
+      if (group.length === 0) return null;
+      return (
+        <div key={severity} className="mb-4 last:mb-0" data-testid={`data-quality-${severity}`}>
+          <h4 className={`font-medium mb-2 ${SEVERITY_STYLES[severity].className}`}>
+            {SEVERITY_STYLES[severity].label} ({group.length})
+          </h4>
+          <ul className="text-sm text-gray-700 space-y-1">
+            {group.map(issue => (
+              <li key={`${issue.ruleId}-${issue.field}`}>
+                <span className="font-mono text-xs text-gray-500">{issue.field}</span>{' '}
+                {issue.message}{' '}
+                <span className="text-xs text-gray-400">[{issue.ruleId}]</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      );
+    })}
+  </section>
+);
+
 // Seasonality Chart Component
 const SeasonalityChart = ({ data }: { data: SeasonalityData[] }) => {
   const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
@@ -92,6 +176,7 @@ const SeasonalityChart = ({ data }: { data: SeasonalityData[] }) => {
       >
         <div>Price: ${point.averagePrice.toLocaleString()}</div>
         <div>Volume: {point.salesVolume}</div>
+        {point.lowConfidence && <div>Low confidence: smoothed over adjacent months</div>}
       </div>
     );
   };
@@ -137,7 +222,9 @@ const SeasonalityChart = ({ data }: { data: SeasonalityData[] }) => {
               className={`transition-all duration-300 ${
                 i === focusedIndex || i === hoveredIndex ? 'highlighted' : ''
               }`}
-              fill="#E195AB"
+              fill={point.lowConfidence ? 'none' : '#E195AB'}
+              stroke="#E195AB"
+              strokeWidth={point.lowConfidence ? 0.5 : 0}
             />
           ))}
         </svg>
@@ -257,7 +344,16 @@ const useKeyboardNavigation = (itemCount: number, onSelect: (index: number) => v
   return focusIndex;
 };
 
-export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalysisProps) {
+export default function PropertyAnalysis({
+  data,
+  onPriceSelect,
+  provenance = [],
+  reviewItems = [],
+  repairs = [],
+  onRevertRepair,
+  validationThresholds,
+  reportId
+}: PropertyAnalysisProps) {
   const [hoveredPoint, setHoveredPoint] = useState<PricePoint | null>(null);
   const [selectedPoint, setSelectedPoint] = useState<PricePoint | null>(null);
   const [showCalculator, setShowCalculator] = useState(false);
@@ -270,25 +366,135 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
   const chartRef = useRef<HTMLDivElement>(null);
   const [showPrintView, setShowPrintView] = useState(false);
   const [showPredictions, setShowPredictions] = useState(false);
+  const [includeOutliers, setIncludeOutliers] = useState(false);
+  const [cmaSubject, setCMASubject] = useState<Property | null>(null);
+  const [investmentListing, setInvestmentListing] = useState<Property | null>(null);
+  const [valuations, setValuations] = useState<Map<string, ListingValuation>>(new Map());
+  const [leaseComps, setLeaseComps] = useState<LeaseComp[]>([]);
+  const [rentalEstimates, setRentalEstimates] = useState<Map<string, RentalEstimate>>(new Map());
+  const [rentalMessage, setRentalMessage] = useState<string | null>(null);
+  const [valuationMessage, setValuationMessage] = useState<string | null>(null);
+
+  // Every display rule runs; only a price history and forecast the charts
+  // cannot read stop the report from rendering, the rest goes to the
+  // data-quality panel
+  const dataQualityIssues = useMemo(
+    () => validateReport(data, 'display', validationThresholds).issues,
+    [data, validationThresholds]
+  );
+
+  // Outliers by listing, for the badges on the listing cards
+  const listingOutliers = useMemo(() => {
+    const listings = [...data.activeListings, ...data.closedListings];
+    return new Map<Property, ListingOutlier>(
+      detectListingOutliers(listings).map(outlier => [listings[outlier.index], outlier] as [Property, ListingOutlier])
+    );
+  }, [data.activeListings, data.closedListings]);
+
+  // The report's statistics leave outliers out of the price figures; the
+  // user can put them back in
+  const statistics = useMemo(() => (includeOutliers
+    ? calculateStatistics(
+      [...data.activeListings, ...data.closedListings],
+      data.statistics.reportingWindow || undefined,
+      { includeOutliers: true }
+    )
+    : data.statistics), [data, includeOutliers]);
+
+  const marketCondition = useMemo(
+    () => classifyMarket(statistics, validationThresholds),
+    [statistics, validationThresholds]
+  );
 
-  // Validate data on mount and updates
+  // Model estimates for the active listings; the listings show without them
+  // when there are too few stored sales to train on
   useEffect(() => {
-    setIsLoading(true);
-    setError(null);
-    
+    if (!data.activeListings.length) return;
+    let cancelled = false;
+    setValuationMessage(null);
+    requestAnalysis<ValuationResponse>('/api/valuation',
+      { listings: data.activeListings, closedListings: data.closedListings }, 'Failed to value listings')
+      .then(result => {
+        if (!cancelled) {
+          setValuations(new Map(result.valuations.map(valuation =>
+            [valuation.mlsNumber, valuation] as [string, ListingValuation])));
+        }
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setValuationMessage(`Valuation unavailable: ${err instanceof Error ? err.message : 'Failed to value listings'}`);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [data.activeListings, data.closedListings]);
+
+  // Rent estimates for every listing, from the uploaded lease comps or the
+  // configured rent table
+  useEffect(() => {
+    const listings = [...data.activeListings, ...data.closedListings];
+    if (!listings.length) return;
+    let cancelled = false;
+    requestAnalysis<RentalEstimateResponse>('/api/rental-estimate', { listings, leaseComps }, 'Failed to estimate rents')
+      .then(result => {
+        if (!cancelled) {
+          setRentalEstimates(new Map(result.estimates.map(estimate =>
+            [estimate.mlsNumber, estimate] as [string, RentalEstimate])));
+        }
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setRentalMessage(`Rental estimates unavailable: ${err instanceof Error ? err.message : 'Failed to estimate rents'}`);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [data.activeListings, data.closedListings, leaseComps]);
+
+  const handleLeaseCompUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const formData = new FormData();
+    formData.append('file', file);
     try {
-      validateMLSReport(data);
-      setIsLoading(false);
-    } catch (err) {
-      if (err instanceof ValidationError) {
-        setError(`Invalid market data: ${err.message} (${err.field})`);
-      } else {
-        setError('An unexpected error occurred while validating market data');
+      const response = await fetch('/api/lease-comps', { method: 'POST', body: formData });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        setRentalMessage(result.message || 'Failed to read lease comps');
+        return;
       }
-      console.error('Validation error:', err);
-      setIsLoading(false);
+      setLeaseComps((result as LeaseCompImportResponse).leaseComps);
+      setRentalMessage(`Loaded ${result.leaseComps.length} lease comps`);
+    } catch (err) {
+      setRentalMessage('Failed to read lease comps');
     }
-  }, [data]);
+  }, []);
+
+  // Records the estimates shown as Rental Estimate insights on the saved report
+  const handleSaveRentalEstimates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/rental-estimate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ listings: [...data.activeListings, ...data.closedListings], leaseComps, reportId })
+      });
+      const result = await response.json();
+      setRentalMessage(response.ok && result.success
+        ? `Saved ${(result as RentalEstimateResponse).savedInsights} rental estimates`
+        : result.message || 'Failed to save rental estimates');
+    } catch (err) {
+      setRentalMessage('Failed to save rental estimates');
+    }
+  }, [data.activeListings, data.closedListings, leaseComps, reportId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    const blocking = dataQualityIssues.find(issue => issue.ruleId === 'market-trends-structure');
+    setError(blocking ? `Invalid market data: ${blocking.message} (${blocking.field})` : null);
+    setIsLoading(false);
+  }, [dataQualityIssues]);
 
   if (error) {
     return (
@@ -503,7 +709,8 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
           ${isSelected || isHovered ? 'scale-150 z-20' : 'hover:scale-125'}
           ${isComparisonPoint ? 'bg-purple-600 ring-4 ring-purple-200' : 
             isSelected ? 'bg-blue-600 ring-4 ring-blue-200' : 'bg-blue-400'}
-          ${isFocused ? 'ring-2 ring-offset-2 ring-gray-400' : ''}`}
+          ${isFocused ? 'ring-2 ring-offset-2 ring-gray-400' : ''}
+          ${point.lowConfidence ? 'border-2 border-dashed border-blue-600 bg-opacity-40' : ''}`}
         style={{ 
           left: `${x}%`, 
           top: `${y}%`,
@@ -514,7 +721,8 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
         onMouseEnter={() => setHoveredPoint(point)}
         onMouseLeave={() => setHoveredPoint(null)}
         role="button"
-        aria-label={`Price point for ${point.date}: $${point.price.toLocaleString()}`}
+        aria-label={`Price point for ${point.date}: $${point.price.toLocaleString()}${
+          point.lowConfidence ? ' (low confidence)' : ''}`}
         aria-pressed={isSelected || isComparisonPoint}
         tabIndex={isFocused ? 0 : -1}
       >
@@ -528,12 +736,61 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
             {point.date}: ${point.price.toLocaleString()}
             <br />
             Volume: {point.volume}
+            {point.lowConfidence && (
+              <>
+                <br />
+                Low confidence: smoothed over adjacent months
+              </>
+            )}
           </div>
         )}
       </div>
     );
   }, [maxPrice, selectedPoint, hoveredPoint, isLoading, handlePointSelect, comparisonPoints, focusedPointIndex]);
 
+  // Hover text explaining where an extracted value came from
+  const sourceTitle = (listing: Property, field: PropertyField) => {
+    const source = findProvenance(provenance, listing.mlsNumber, field);
+    return source ? describeProvenance(source) : undefined;
+  };
+
+  // Model estimate for an active listing, flagged when the list price is
+  // outside its prediction interval
+  const renderValuation = (valuation: ListingValuation) => (
+    <div
+      title={valuation.contributions
+        .map(contribution => `${contribution.feature} (${contribution.value}): ${formatDollars(contribution.amount)}`)
+        .join('\n')}
+      data-testid={`valuation-${valuation.mlsNumber}`}
+    >
+      Est. {formatDollars(valuation.estimatedValue)}{' '}
+      <span className="text-xs text-gray-500">
+        ({formatDollars(valuation.confidenceInterval.low)}–{formatDollars(valuation.confidenceInterval.high)})
+      </span>
+      {valuation.flag && valuation.priceGap !== null && (
+        <span
+          className={`ml-2 inline-block px-2 py-0.5 rounded-full text-xs font-medium ${
+            valuation.flag === 'above-estimate' ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}`}
+        >
+          {Math.round(Math.abs(valuation.priceGap) * 100)}% {valuation.flag === 'above-estimate' ? 'above' : 'below'} estimate
+        </span>
+      )}
+    </div>
+  );
+
+  const renderRentalEstimate = (estimate: RentalEstimate) => (
+    <div
+      title={estimate.source === 'lease-comps'
+        ? `From ${estimate.leaseCompCount} lease comps at $${estimate.rentPerSqft}/sqft`
+        : `From the rent table at $${estimate.rentPerSqft}/sqft`}
+      data-testid={`rental-estimate-${estimate.mlsNumber}`}
+    >
+      Rent: {formatDollars(estimate.monthlyRent)}/mo
+      {estimate.grossYield !== null && ` · Yield ${(estimate.grossYield * 100).toFixed(1)}%`}
+      {estimate.priceToRent !== null && ` · Price/rent ${estimate.priceToRent}`}
+    </div>
+  );
+
   // Render Listings with Animation
   const renderListings = useCallback((listings: Property[]) => {
     return listings.map((listing, index) => (
@@ -547,23 +804,37 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
           transform: `translateY(${isLoading ? '10px' : '0'})`,
         }}
       >
-        <h4 className="text-lg font-medium text-gray-800">{listing.address}</h4>
+        <h4 className="text-lg font-medium text-gray-800" title={sourceTitle(listing, 'address')}>{listing.address}</h4>
+        {listingOutliers.has(listing) && (
+          <span
+            className="inline-block mb-1 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800"
+            title={describeOutlier(listingOutliers.get(listing) as ListingOutlier)}
+            data-testid={`outlier-badge-${listing.mlsNumber}`}
+          >
+            Outlier
+          </span>
+        )}
         <div className="text-sm text-gray-600 space-y-1">
-          <div>MLS#: {listing.mlsNumber}</div>
-          <div>${listing.listPrice.toLocaleString()}</div>
-          <div>{listing.bedrooms} beds, {listing.bathrooms} baths</div>
-          <div>{listing.sqft.toLocaleString()} sqft</div>
-          <div>Built: {listing.yearBuilt}</div>
-          {listing.garage && <div>{listing.garage}</div>}
-          {listing.pool && <div>Pool</div>}
-          <div>{listing.acres} acres</div>
+          <div title={sourceTitle(listing, 'mlsNumber')}>MLS#: {listing.mlsNumber}</div>
+          <div title={sourceTitle(listing, 'listPrice')}>${listing.listPrice.toLocaleString()}</div>
+          {!listing.soldPrice && valuations.has(listing.mlsNumber) && renderValuation(valuations.get(listing.mlsNumber) as ListingValuation)}
+          {rentalEstimates.has(listing.mlsNumber) && renderRentalEstimate(rentalEstimates.get(listing.mlsNumber) as RentalEstimate)}
+          <div>
+            <span title={sourceTitle(listing, 'bedrooms')}>{listing.bedrooms} beds</span>,{' '}
+            <span title={sourceTitle(listing, 'bathrooms')}>{listing.bathrooms} baths</span>
+          </div>
+          <div title={sourceTitle(listing, 'sqft')}>{listing.sqft.toLocaleString()} sqft</div>
+          <div title={sourceTitle(listing, 'yearBuilt')}>Built: {listing.yearBuilt}</div>
+          {listing.garage && <div title={sourceTitle(listing, 'garage')}>{listing.garage}</div>}
+          {listing.pool && <div title={sourceTitle(listing, 'pool')}>Pool</div>}
+          <div title={sourceTitle(listing, 'acres')}>{listing.acres} acres</div>
           {listing.soldPrice && (
             <>
-              <div className="text-green-600 transition-colors duration-300">
+              <div className="text-green-600 transition-colors duration-300" title={sourceTitle(listing, 'soldPrice')}>
                 Sold: ${listing.soldPrice.toLocaleString()}
               </div>
-              <div>Date: {listing.soldDate}</div>
-              <div>Days on Market: {listing.daysOnMarket}</div>
+              <div title={sourceTitle(listing, 'soldDate')}>Date: {listing.soldDate}</div>
+              <div title={sourceTitle(listing, 'daysOnMarket')}>Days on Market: {listing.daysOnMarket}</div>
             </>
           )}
         </div>
@@ -575,9 +846,25 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
         >
           Calculate Payment
         </button>
+        {!listing.soldPrice && data.closedListings.length > 0 && (
+          <button
+            onClick={() => setCMASubject(listing)}
+            className="mt-2 ml-4 text-sm text-blue-600 hover:text-blue-800 transition-colors duration-200
+              focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-opacity-50 rounded"
+          >
+            Run CMA
+          </button>
+        )}
+        <button
+          onClick={() => setInvestmentListing(listing)}
+          className="mt-2 ml-4 text-sm text-blue-600 hover:text-blue-800 transition-colors duration-200
+            focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-opacity-50 rounded"
+        >
+          Analyze Investment
+        </button>
       </div>
     ));
-  }, [handlePriceClick, isLoading]);
+  }, [handlePriceClick, isLoading, provenance, listingOutliers, data.closedListings.length, valuations, rentalEstimates]);
 
   // School Districts
   const renderSchoolDistricts = useCallback((districts: SchoolInfo[]) => {
@@ -679,22 +966,22 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
         <h2 className="text-xl font-semibold mb-4">Market Statistics</h2>
         <div className="grid grid-cols-2 gap-4">
           <div>
-            <strong>Average List Price:</strong> ${data.statistics.averageListPrice.toLocaleString()}
+            <strong>Average List Price:</strong> {formatStatistic(statistics.averageListPrice, formatDollars)}
           </div>
           <div>
-            <strong>Average Sold Price:</strong> ${data.statistics.averageSoldPrice.toLocaleString()}
+            <strong>Average Sold Price:</strong> {formatStatistic(statistics.averageSoldPrice, formatDollars)}
           </div>
           <div>
-            <strong>Days on Market:</strong> {data.statistics.medianDaysOnMarket}
+            <strong>Days on Market:</strong> {formatStatistic(statistics.medianDaysOnMarket)}
           </div>
           <div>
-            <strong>Active Listings:</strong> {data.statistics.totalActiveListings}
+            <strong>Active Listings:</strong> {statistics.totalActiveListings}
           </div>
           <div>
-            <strong>Price per Sqft:</strong> ${data.statistics.pricePerSquareFoot}
+            <strong>Price per Sqft:</strong> {formatStatistic(statistics.pricePerSquareFoot, formatDollars)}
           </div>
           <div>
-            <strong>Absorption Rate:</strong> {data.statistics.absorptionRate}%
+            <strong>Absorption Rate:</strong> {formatStatistic(statistics.absorptionRate, rate => `${rate}%`)}
           </div>
         </div>
       </div>
@@ -748,176 +1035,63 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
     </div>
   );
 
-  // Calculate Market Predictions
-  const marketPredictions = useMemo(() => {
-    if (!data.marketTrends.priceHistory.length) return null;
-
-    // Sort price history by date
-    const sortedHistory = [...data.marketTrends.priceHistory].sort(
-      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
-    );
-
-    // Calculate moving averages
-    const shortTermMA = calculateMovingAverage(sortedHistory, 3);  // 3-month MA
-    const longTermMA = calculateMovingAverage(sortedHistory, 6);   // 6-month MA
-
-    // Calculate trend strength
-    const recentTrend = calculateTrendStrength(sortedHistory.slice(-6));
-
-    // Calculate seasonality
-    const seasonalityPattern = analyzeSeasonality(data.marketTrends.seasonality);
-
-    // Generate predictions
-    const nextThreeMonths = generatePredictions(
-      sortedHistory,
-      shortTermMA,
-      longTermMA,
-      recentTrend,
-      seasonalityPattern,
-      3
-    );
-
-    return {
-      shortTermMA,
-      longTermMA,
-      recentTrend,
-      seasonalityPattern,
-      predictions: nextThreeMonths
-    };
-  }, [data.marketTrends.priceHistory, data.marketTrends.seasonality]);
-
-  // Helper Functions
-  const calculateMovingAverage = (prices: PricePoint[], period: number) => {
-    return prices.map((_, index, array) => {
-      if (index < period - 1) return null;
-      const slice = array.slice(index - period + 1, index + 1);
-      const sum = slice.reduce((acc, curr) => acc + curr.price, 0);
-      return {
-        date: array[index].date,
-        price: sum / period
-      };
-    }).filter((p): p is { date: string; price: number } => p !== null);
-  };
-
-  const calculateTrendStrength = (recentPrices: PricePoint[]) => {
-    if (recentPrices.length < 2) return { strength: 0, direction: 'stable' as const };
-
-    const priceChanges = recentPrices.map((p, i) => 
-      i === 0 ? 0 : ((p.price - recentPrices[i - 1].price) / recentPrices[i - 1].price) * 100
-    );
-
-    const avgChange = priceChanges.reduce((a, b) => a + b, 0) / (priceChanges.length - 1);
-    const volatility = Math.sqrt(
-      priceChanges.reduce((acc, val) => acc + Math.pow(val - avgChange, 2), 0) / priceChanges.length
-    );
-
-    return {
-      strength: Math.abs(avgChange) / volatility,
-      direction: avgChange > 0 ? 'increasing' as const : 
-                avgChange < 0 ? 'decreasing' as const : 
-                'stable' as const
-    };
-  };
-
-  const analyzeSeasonality = (seasonality: Array<{ month: number; averagePrice: number; salesVolume: number }>) => {
-    const avgByMonth = new Array(12).fill(0);
-    const countByMonth = new Array(12).fill(0);
-
-    seasonality.forEach(data => {
-      avgByMonth[data.month - 1] += data.averagePrice;
-      countByMonth[data.month - 1]++;
-    });
-
-    return avgByMonth.map((sum, i) => 
-      countByMonth[i] ? sum / countByMonth[i] : null
-    );
-  };
-
-  const generatePredictions = (
-    history: PricePoint[],
-    shortMA: { date: string; price: number }[],
-    longMA: { date: string; price: number }[],
-    trend: { strength: number; direction: 'increasing' | 'decreasing' | 'stable' },
-    seasonality: (number | null)[],
-    months: number
-  ) => {
-    const lastPrice = history[history.length - 1].price;
-    const lastDate = new Date(history[history.length - 1].date);
-    
-    return Array.from({ length: months }, (_, i) => {
-      const predictionDate = new Date(lastDate);
-      predictionDate.setMonth(predictionDate.getMonth() + i + 1);
-      
-      const month = predictionDate.getMonth();
-      const seasonalFactor = seasonality[month] ? 
-        seasonality[month]! / seasonality[lastDate.getMonth()]! : 1;
-
-      const trendFactor = trend.direction === 'stable' ? 1 :
-        trend.direction === 'increasing' ? 
-          1 + (0.01 * trend.strength * (i + 1)) :
-          1 - (0.01 * trend.strength * (i + 1));
-
-      const maFactor = shortMA.length && longMA.length ?
-        shortMA[shortMA.length - 1].price / longMA[longMA.length - 1].price : 1;
-
-      const predictedPrice = lastPrice * trendFactor * seasonalFactor * maFactor;
-      const confidence = Math.max(0, 1 - (0.1 * (i + 1)) - (0.1 * (1 / trend.strength)));
-
-      return {
-        date: predictionDate.toISOString().slice(0, 7),
-        price: predictedPrice,
-        confidence
-      };
-    });
-  };
-
-  // Render Prediction Section
+  // Render Prediction Section (forecasts are computed server-side by market-forecast)
   const renderPredictions = () => {
-    if (!marketPredictions) return null;
+    const { forecast } = data.marketTrends;
+    if (!forecast.method || forecast.method === 'none') return null;
 
-    const { predictions, recentTrend } = marketPredictions;
-    const trendColor = recentTrend.direction === 'increasing' ? 'text-green-600' :
-                      recentTrend.direction === 'decreasing' ? 'text-red-600' :
-                      'text-gray-600';
+    const horizons: Array<{ id: string; label: string; data: ForecastData }> = [
+      { id: 'next-month', label: 'Next Month', data: forecast.nextMonth },
+      { id: 'next-quarter', label: 'Next Quarter', data: forecast.nextQuarter },
+      { id: 'next-year', label: 'Next Year', data: forecast.nextYear }
+    ];
+    const methodLabel = forecast.method === 'holt-winters' ? 'Holt-Winters (seasonal)' : 'Linear trend';
 
     return (
       <section className="bg-white rounded-lg shadow p-6">
         <div className="flex justify-between items-center mb-4">
           <h3 className="text-xl font-semibold text-gray-800">Market Predictions</h3>
-          <div className={`text-sm font-medium ${trendColor}`}>
-            {recentTrend.direction.charAt(0).toUpperCase() + recentTrend.direction.slice(1)} Trend
-            ({recentTrend.strength.toFixed(2)} strength)
-          </div>
+          <div className="text-sm font-medium text-gray-600">{methodLabel}</div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          {predictions.map((prediction, index) => (
-            <div 
-              key={prediction.date}
-              className="bg-gray-50 rounded-lg p-4"
-            >
-              <div className="text-sm text-gray-600 mb-1">
-                {new Date(prediction.date).toLocaleString('default', { month: 'long', year: 'numeric' })}
-              </div>
-              <div className="text-lg font-medium">
-                ${prediction.price.toLocaleString(undefined, { maximumFractionDigits: 0 })}
-              </div>
-              <div className="text-sm text-gray-500">
-                Confidence: {(prediction.confidence * 100).toFixed(0)}%
-              </div>
-              <div className="mt-2 h-1 bg-gray-200 rounded">
-                <div 
-                  className="h-full bg-blue-500 rounded"
-                  style={{ width: `${prediction.confidence * 100}%` }}
-                />
+          {horizons.map(({ id, label, data: prediction }) => {
+            const change = prediction.priceChange * 100;
+            const changeColor = change > 0 ? 'text-green-600' : change < 0 ? 'text-red-600' : 'text-gray-600';
+            return (
+              <div key={id} data-testid={`forecast-${id}`} className="bg-gray-50 rounded-lg p-4">
+                <div className="text-sm text-gray-600 mb-1">{label}</div>
+                {prediction.predictedPrice !== undefined && (
+                  <div className="text-lg font-medium">${prediction.predictedPrice.toLocaleString()}</div>
+                )}
+                <div className={`text-sm font-medium ${changeColor}`}>
+                  {change > 0 ? '+' : ''}{change.toFixed(1)}%
+                </div>
+                {prediction.lowerBound !== undefined && prediction.upperBound !== undefined && (
+                  <div className="text-xs text-gray-500">
+                    95% range: ${prediction.lowerBound.toLocaleString()} - ${prediction.upperBound.toLocaleString()}
+                  </div>
+                )}
+                <div data-testid={`confidence-${id}`} className="text-sm text-gray-500">
+                  Confidence: {(prediction.confidence * 100).toFixed(0)}%
+                </div>
+                <div className="mt-2 h-1 bg-gray-200 rounded">
+                  <div
+                    className="h-full bg-blue-500 rounded"
+                    style={{ width: `${prediction.confidence * 100}%` }}
+                  />
+                </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
 
         <div className="mt-4 text-sm text-gray-500">
-          Predictions are based on historical trends, seasonality, and market momentum.
-          Actual results may vary.
+          {forecast.backtest
+            ? `Backtested one month ahead over ${forecast.backtest.observations} months: ` +
+              `average error ${(forecast.backtest.meanAbsolutePercentageError * 100).toFixed(1)}%.`
+            : 'Not enough history to backtest this forecast.'}
+          {' '}Actual results may vary.
         </div>
       </section>
     );
@@ -1037,9 +1211,20 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
           aria-labelledby="market-overview-title"
         >
           <div className="flex justify-between items-center mb-4">
-            <h3 id="market-overview-title" className="text-xl font-semibold text-gray-800">
-              Market Overview
-            </h3>
+            <div className="flex items-center gap-3">
+              <h3 id="market-overview-title" className="text-xl font-semibold text-gray-800">
+                Market Overview
+              </h3>
+              {marketCondition && (
+                <span
+                  className={`px-2 py-0.5 rounded-full text-sm font-medium ${MARKET_CONDITION_STYLES[marketCondition.condition]}`}
+                  title={marketCondition.explanation}
+                  data-testid="market-condition"
+                >
+                  {MARKET_CONDITION_LABELS[marketCondition.condition]}
+                </span>
+              )}
+            </div>
             <button
               onClick={handleComparisonToggle}
               className={`px-3 py-1 rounded-md text-sm font-medium transition-colors duration-200
@@ -1052,6 +1237,12 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
             </button>
           </div>
 
+          {marketCondition && (
+            <p className="mb-4 text-sm text-gray-600" data-testid="market-condition-explanation">
+              {marketCondition.explanation}
+            </p>
+          )}
+
           {comparisonAnalysis && (
             <div className="mb-4 bg-purple-50 rounded-lg p-4">
               <h4 className="text-lg font-medium text-purple-800 mb-2">Price Comparison Analysis</h4>
@@ -1085,6 +1276,18 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
             </div>
           )}
 
+          {(data.statistics.outliersExcluded || 0) > 0 && (
+            <label className="flex items-center gap-2 mb-4 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={includeOutliers}
+                onChange={event => setIncludeOutliers(event.target.checked)}
+                data-testid="include-outliers"
+              />
+              Include {data.statistics.outliersExcluded} price outlier{data.statistics.outliersExcluded === 1 ? '' : 's'} in averages
+            </label>
+          )}
+
           {comparisonMode && comparisonPoints.length < 2 && (
             <div className="mb-4 bg-purple-50 rounded-lg p-4 text-purple-700">
               Select {2 - comparisonPoints.length} more point{comparisonPoints.length === 0 ? 's' : ''} to compare
@@ -1107,11 +1310,11 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
                   <div className="space-y-2">
                     <div className="flex justify-between">
                       <span className="text-gray-600">List Price:</span>
-                      <span className="font-medium">${data.statistics.averageListPrice.toLocaleString()}</span>
+                      <span className="font-medium">{formatStatistic(statistics.averageListPrice, formatDollars)}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-600">Sold Price:</span>
-                      <span className="font-medium">${data.statistics.averageSoldPrice.toLocaleString()}</span>
+                      <span className="font-medium">{formatStatistic(statistics.averageSoldPrice, formatDollars)}</span>
                     </div>
                   </div>
                 </div>
@@ -1121,11 +1324,11 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
                   <div className="space-y-2">
                     <div className="flex justify-between">
                       <span className="text-gray-600">Active Listings:</span>
-                      <span className="font-medium">{data.statistics.totalActiveListings}</span>
+                      <span className="font-medium">{statistics.totalActiveListings}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-600">Days on Market:</span>
-                      <span className="font-medium">{data.statistics.medianDaysOnMarket} days</span>
+                      <span className="font-medium">{formatStatistic(statistics.medianDaysOnMarket, days => `${days} days`)}</span>
                     </div>
                   </div>
                 </div>
@@ -1135,11 +1338,11 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
                   <div className="space-y-2">
                     <div className="flex justify-between">
                       <span className="text-gray-600">Price/Sqft:</span>
-                      <span className="font-medium">${data.statistics.pricePerSquareFoot}</span>
+                      <span className="font-medium">{formatStatistic(statistics.pricePerSquareFoot, formatDollars)}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-600">Absorption Rate:</span>
-                      <span className="font-medium">{data.statistics.absorptionRate}%</span>
+                      <span className="font-medium">{formatStatistic(statistics.absorptionRate, rate => `${rate}%`)}</span>
                     </div>
                   </div>
                 </div>
@@ -1246,9 +1449,79 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
         {/* Market Predictions */}
         {showPredictions && renderPredictions()}
 
+        {/* Validation issues across the whole report */}
+        {dataQualityIssues.length > 0 && <DataQualityPanel issues={dataQualityIssues} />}
+
+        {/* Fields that were missing or read with low confidence */}
+        {reviewItems.length > 0 && (
+          <section className="bg-yellow-50 border border-yellow-200 rounded-lg p-6" data-testid="review-items">
+            <h3 className="text-xl font-semibold text-gray-800 mb-4">Needs Review</h3>
+            <ul className="text-sm text-gray-700 space-y-1">
+              {reviewItems.map(item => (
+                <li
+                  key={`${item.mlsNumber}-${item.field}`}
+                  title={item.provenance ? describeProvenance(item.provenance) : undefined}
+                >
+                  MLS# {item.mlsNumber}: {item.field}{' '}
+                  {item.reason === 'missing' ? 'was not found in the report' : 'was read with low confidence'}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {/* Values corrected automatically after extraction */}
+        {repairs.length > 0 && (
+          <section className="bg-blue-50 border border-blue-200 rounded-lg p-6" data-testid="repairs">
+            <h3 className="text-xl font-semibold text-gray-800 mb-4">Automatic Repairs</h3>
+            <ul className="text-sm text-gray-700 space-y-2">
+              {repairs.map(repair => (
+                <li key={repair.id} className="flex items-start justify-between gap-4">
+                  <div>
+                    MLS# {repair.mlsNumber}: {repair.message}
+                    <div className="text-xs text-gray-500">
+                      {repair.changes.map(change => `${change.field}: ${change.from ?? 'unset'} → ${change.to ?? 'unset'}`).join(', ')}
+                    </div>
+                  </div>
+                  {onRevertRepair && (
+                    <button
+                      onClick={() => onRevertRepair(repair)}
+                      className="text-sm text-blue-600 hover:text-blue-800 transition-colors duration-200
+                        focus:outline-none focus:ring-2 focus:ring-blue-400 focus:ring-opacity-50 rounded"
+                    >
+                      Revert
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
         {/* Active Listings */}
         <section className="bg-white rounded-lg shadow p-6">
           <h3 className="text-xl font-semibold text-gray-800 mb-4">Active Listings</h3>
+          <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-600">
+            <label>
+              Lease comps (CSV or XLSX):{' '}
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                onChange={handleLeaseCompUpload}
+                data-testid="lease-comps-upload"
+              />
+            </label>
+            {reportId && rentalEstimates.size > 0 && (
+              <button
+                onClick={handleSaveRentalEstimates}
+                className="text-blue-600 hover:text-blue-800 focus:outline-none focus:ring-2 focus:ring-blue-400 rounded"
+              >
+                Save Rental Estimates
+              </button>
+            )}
+            {rentalMessage && <span data-testid="rental-message">{rentalMessage}</span>}
+            {valuationMessage && <span data-testid="valuation-message">{valuationMessage}</span>}
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {renderListings(data.activeListings)}
           </div>
@@ -1262,6 +1535,25 @@ export default function PropertyAnalysis({ data, onPriceSelect }: PropertyAnalys
           </div>
         </section>
 
+        {/* Comparative market analysis of the chosen active listing */}
+        {cmaSubject && (
+          <CMAPanel
+            subject={cmaSubject}
+            closedListings={data.closedListings}
+            onClose={() => setCMASubject(null)}
+          />
+        )}
+
+        {/* Rental investment analysis of the chosen listing */}
+        {investmentListing && (
+          <InvestmentPanel
+            listing={investmentListing}
+            monthlyRent={rentalEstimates.get(investmentListing.mlsNumber)?.monthlyRent || 0}
+            reportId={reportId}
+            onClose={() => setInvestmentListing(null)}
+          />
+        )}
+
         {/* School Districts */}
         <section className="bg-white rounded-lg shadow p-6">
           <h3 className="text-xl font-semibold text-gray-800 mb-4">School Districts</h3>
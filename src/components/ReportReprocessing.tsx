@@ -0,0 +1,197 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { UploadErrorResponse } from '@/types/api';
+import type {
+  ReportDiff,
+  ReprocessResponse,
+  StoredReportSummary,
+  StoredReportsResponse
+} from '@/types/reprocessing';
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const describeExtraction = (summary: StoredReportSummary) =>
+  summary.extraction ? `${summary.extraction.extractor} v${summary.extraction.version}` : 'Unversioned extractor';
+
+async function requestReprocess(reportId: string, accept: boolean): Promise<ReprocessResponse> {
+  const response = await fetch('/api/reprocess', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reportId, accept })
+  });
+  if (!response.ok) {
+    const errorData: UploadErrorResponse = await response.json();
+    throw new Error(errorData.message || 'Failed to reprocess report');
+  }
+  return response.json();
+}
+
+const DiffView: React.FC<{ diff: ReportDiff }> = ({ diff }) => {
+  if (!diff.hasChanges) {
+    return <p className="text-sm text-gray-600">The current extractor produces the same listings and statistics.</p>;
+  }
+
+  return (
+    <div className="space-y-3 text-sm" data-testid="reprocess-diff">
+      {diff.addedListings.length > 0 && (
+        <p className="text-green-700">New listings: {diff.addedListings.join(', ')}</p>
+      )}
+      {diff.removedListings.length > 0 && (
+        <p className="text-red-700">Removed listings: {diff.removedListings.join(', ')}</p>
+      )}
+      {diff.changedFields.length > 0 && (
+        <table className="w-full text-left">
+          <caption className="text-left font-medium text-gray-700 mb-1">Changed listing fields</caption>
+          <thead>
+            <tr className="text-gray-500">
+              <th scope="col">MLS #</th>
+              <th scope="col">Field</th>
+              <th scope="col">Saved</th>
+              <th scope="col">Reprocessed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diff.changedFields.map(change => (
+              <tr key={`${change.mlsNumber}-${change.field}`}>
+                <td>{change.mlsNumber}</td>
+                <td>{change.field}</td>
+                <td className="text-red-700">{formatValue(change.previous)}</td>
+                <td className="text-green-700">{formatValue(change.current)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {diff.changedStatistics.length > 0 && (
+        <table className="w-full text-left">
+          <caption className="text-left font-medium text-gray-700 mb-1">Changed statistics</caption>
+          <thead>
+            <tr className="text-gray-500">
+              <th scope="col">Statistic</th>
+              <th scope="col">Saved</th>
+              <th scope="col">Reprocessed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diff.changedStatistics.map(change => (
+              <tr key={change.field}>
+                <td>{change.field}</td>
+                <td className="text-red-700">{formatValue(change.previous)}</td>
+                <td className="text-green-700">{formatValue(change.current)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Lists reports saved in Airtable, previews what the current extractors would
+ * change for each and lets the user accept the reprocessed version.
+ */
+const ReportReprocessing: React.FC = () => {
+  const [reports, setReports] = useState<StoredReportSummary[]>([]);
+  const [previews, setPreviews] = useState<Record<string, ReprocessResponse>>({});
+  const [busyReport, setBusyReport] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReports = useCallback(async () => {
+    try {
+      const response = await fetch('/api/reprocess');
+      if (!response.ok) {
+        const errorData: UploadErrorResponse = await response.json();
+        throw new Error(errorData.message || 'Failed to load reports');
+      }
+      const data: StoredReportsResponse = await response.json();
+      setReports(data.reports);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reports');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  const handleReprocess = async (reportId: string, accept: boolean) => {
+    setBusyReport(reportId);
+    setError(null);
+    try {
+      const result = await requestReprocess(reportId, accept);
+      setPreviews(current => ({ ...current, [reportId]: result }));
+      if (accept) await loadReports();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reprocess report');
+    } finally {
+      setBusyReport(null);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6" aria-labelledby="reprocess-heading">
+      <h2 id="reprocess-heading" className="text-xl font-semibold text-gray-800 mb-4">Saved Reports</h2>
+      {error && <p role="alert" className="text-red-600 mb-4">{error}</p>}
+      {!reports.length && !error && <p className="text-gray-600">No saved reports yet.</p>}
+
+      <ul className="space-y-4">
+        {reports.map(summary => {
+          const preview = previews[summary.reportId];
+          const isBusy = busyReport === summary.reportId;
+          return (
+            <li key={summary.reportId} className="border rounded-lg p-4">
+              <div className="flex justify-between items-center">
+                <div>
+                  <div className="font-medium">{new Date(summary.uploadDate).toLocaleString()}</div>
+                  <div className="text-sm text-gray-600">
+                    {describeExtraction(summary)}
+                    {summary.outdated && summary.currentVersion && (
+                      <span className="ml-2 text-amber-700">v{summary.currentVersion} available</span>
+                    )}
+                  </div>
+                </div>
+                {summary.reprocessable ? (
+                  <div className="space-x-2">
+                    <button
+                      type="button"
+                      className="px-3 py-1 rounded border border-blue-500 text-blue-600 disabled:opacity-50"
+                      onClick={() => handleReprocess(summary.reportId, false)}
+                      disabled={isBusy}
+                    >
+                      Preview changes
+                    </button>
+                    {preview && !preview.accepted && preview.diff.hasChanges && (
+                      <button
+                        type="button"
+                        className="px-3 py-1 rounded bg-blue-500 text-white disabled:opacity-50"
+                        onClick={() => handleReprocess(summary.reportId, true)}
+                        disabled={isBusy}
+                      >
+                        Accept new version
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <span className="text-sm text-gray-500">Source not stored</span>
+                )}
+              </div>
+              {preview && (
+                <div className="mt-3">
+                  {preview.accepted && <p className="text-sm text-green-700 mb-2">Saved the reprocessed report.</p>}
+                  <DiffView diff={preview.diff} />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default ReportReprocessing;
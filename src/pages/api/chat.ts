@@ -1,31 +1,82 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import OpenAI from 'openai';
+import type { MLSReport } from '@/types/property';
+import type { MarketConditionResult } from '@/types/market-condition';
+import { createRedactionSession } from '@/utils/pii-redaction';
+import { classifyCities, classifyMarket } from '@/utils/market-condition';
+import { loadReportThresholds } from '@/utils/validation-thresholds';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY
 });
 
+const SYSTEM_PROMPT = 'You are a real estate market analyst for Collin County, Texas. ' +
+  'Answer questions using the MLS report below. Placeholders such as [PHONE_1] ' +
+  'stand for redacted personal information; repeat them as written. marketCondition ' +
+  'labels the market as a buyer\'s, balanced or seller\'s market and explains why; ' +
+  'use it when asked about market conditions.';
+
+// Keeps prompts bounded for large reports
+const MAX_CONTEXT_LISTINGS = 50;
+
+// Market condition labels are computed from the unredacted report; they hold
+// no personal information
+function describeReport(
+  mlsData: MLSReport,
+  marketConditions: { marketCondition: MarketConditionResult | null; cityMarketConditions: MarketConditionResult[] }
+): string {
+  return JSON.stringify({
+    description: mlsData.description,
+    features: mlsData.features,
+    statistics: mlsData.statistics,
+    ...marketConditions,
+    activeListings: (mlsData.activeListings || []).slice(0, MAX_CONTEXT_LISTINGS),
+    closedListings: (mlsData.closedListings || []).slice(0, MAX_CONTEXT_LISTINGS)
+  });
+}
+
+/**
+ * Answers `{ message, mlsData }` with `{ message, usage }`. Personal information
+ * in the report and the question is redacted before the prompt is sent, and
+ * placeholders in the answer are restored on the way back.
+ */
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  const { message, mlsData } = req.body || {};
+  if (typeof message !== 'string' || !message.trim()) {
+    return res.status(400).json({ error: 'Message is required' });
+  }
+  if (!mlsData) {
+    return res.status(400).json({ error: 'MLS data is required' });
+  }
+
   try {
-    const { messages } = req.body;
+    const redaction = createRedactionSession();
+    const thresholds = await loadReportThresholds(mlsData);
+    const marketConditions = {
+      marketCondition: mlsData.statistics ? classifyMarket(mlsData.statistics, thresholds) : null,
+      cityMarketConditions: classifyCities(mlsData, thresholds)
+    };
 
     const completion = await openai.chat.completions.create({
       model: "gpt-4",
-      messages: messages,
+      messages: [
+        { role: 'system', content: `${SYSTEM_PROMPT}\n\nMLS report:\n${describeReport(redaction.redactReport(mlsData), marketConditions)}` },
+        { role: 'user', content: redaction.redact(message) }
+      ],
       temperature: 0.7,
       max_tokens: 1000
     });
 
-    res.status(200).json({ 
-      response: completion.choices[0].message.content,
+    res.status(200).json({
+      message: redaction.restore(completion.choices[0].message.content || ''),
       usage: completion.usage
     });
   } catch (error) {
     console.error('Error in chat API:', error);
     res.status(500).json({ error: 'Failed to process chat request' });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,57 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { CMAAdjustments, CMARequest } from '@/types/cma';
+import type { Property } from '@/types/property';
+import { CMAError, DEFAULT_CMA_ADJUSTMENTS, runCMA } from '@/utils/cma';
+import { formatErrorResponse } from '@/utils/mls-response';
+
+function isListing(value: unknown): value is Property {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as Property).mlsNumber === 'string' &&
+    typeof (value as Property).sqft === 'number';
+}
+
+function isAdjustments(value: unknown): value is Partial<CMAAdjustments> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.entries(value).every(([feature, rate]) => feature in DEFAULT_CMA_ADJUSTMENTS && typeof rate === 'number');
+}
+
+/**
+ * Prices `subject` against `closedListings` and returns the adjusted comp
+ * grid and suggested list-price range. `adjustments` overrides any of the
+ * default dollar rates; `asOf` (YYYY-MM-DD) sets the date sale recency is
+ * measured from.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json(formatErrorResponse('Method not allowed'));
+  }
+
+  const { subject, closedListings, adjustments, asOf } = (req.body || {}) as Partial<CMARequest>;
+  if (!isListing(subject)) {
+    return res.status(400).json(formatErrorResponse('subject must be a listing'));
+  }
+  if (!Array.isArray(closedListings) || !closedListings.every(isListing)) {
+    return res.status(400).json(formatErrorResponse('closedListings must be an array of listings'));
+  }
+  if (adjustments !== undefined && !isAdjustments(adjustments)) {
+    return res.status(400).json(formatErrorResponse(
+      `adjustments must map ${Object.keys(DEFAULT_CMA_ADJUSTMENTS).join(', ')} to dollar amounts`
+    ));
+  }
+  if (asOf !== undefined && (typeof asOf !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(asOf))) {
+    return res.status(400).json(formatErrorResponse('asOf must be a YYYY-MM-DD date'));
+  }
+
+  try {
+    return res.status(200).json(runCMA(subject, closedListings, { adjustments, asOf }));
+  } catch (error) {
+    if (error instanceof CMAError) {
+      return res.status(422).json(formatErrorResponse(error.message));
+    }
+    console.error('Error running CMA:', error);
+    return res.status(500).json(formatErrorResponse('Internal server error'));
+  }
+}
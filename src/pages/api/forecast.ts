@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { ForecastResponse, PricePoint } from '@/types/property';
+import { forecastMarket } from '@/utils/market-forecast';
+import { formatErrorResponse } from '@/utils/mls-response';
+
+function isPricePoint(value: unknown): value is PricePoint {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as PricePoint).date === 'string' &&
+    typeof (value as PricePoint).price === 'number';
+}
+
+/**
+ * Forecasts the next month, quarter and year from `{ priceHistory }` (monthly
+ * PricePoints), responding with `{ success: true, forecast }`, the same
+ * MarketForecast stored on processed reports.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json(formatErrorResponse('Method not allowed'));
+  }
+
+  const priceHistory = req.body?.priceHistory;
+  if (!Array.isArray(priceHistory) || !priceHistory.every(isPricePoint)) {
+    return res.status(400).json(formatErrorResponse('priceHistory must be an array of { date, price, volume } points'));
+  }
+
+  try {
+    const response: ForecastResponse = { success: true, forecast: forecastMarket(priceHistory) };
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error('Error forecasting prices:', error);
+    return res.status(500).json(formatErrorResponse('Internal server error'));
+  }
+}
@@ -0,0 +1,71 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { importSpreadsheet, detectSpreadsheetFormat } from '@/utils/spreadsheet-importer';
+import type { ImportField } from '@/utils/spreadsheet-importer';
+import { formatErrorResponse, formatMLSResponse } from '@/utils/mls-response';
+import { loadReportThresholds } from '@/utils/validation-thresholds';
+import { receiveUpload, UploadError } from '@/utils/upload';
+import { saveMLSData } from '@/utils/airtable';
+import type { UploadResponse } from '@/types/api';
+
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+function parseHeaderMapping(raw: string | undefined): Record<string, ImportField> | undefined {
+  if (!raw) return undefined;
+  const mapping = JSON.parse(raw);
+  if (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping)) {
+    throw new Error('headerMapping must be a JSON object of column name to field');
+  }
+  return mapping;
+}
+
+/**
+ * Imports a CSV or XLSX MLS export sent as multipart form data (`file` field).
+ * An optional `headerMapping` field holds JSON that maps additional column
+ * names to Property fields. Reports are saved to Airtable when AIRTABLE_API_KEY
+ * is set. Responds with an UploadResponse.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<UploadResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json(formatErrorResponse('Method not allowed'));
+  }
+
+  try {
+    const { fields, buffer, fileName, mimeType } = await receiveUpload(req);
+
+    if (!detectSpreadsheetFormat(fileName, mimeType)) {
+      return res.status(415).json(formatErrorResponse('Please upload a CSV or XLSX file'));
+    }
+
+    let headerMapping: Record<string, ImportField> | undefined;
+    try {
+      headerMapping = parseHeaderMapping(fields.headerMapping?.[0]);
+    } catch (error) {
+      return res.status(400).json(formatErrorResponse(error instanceof Error ? error.message : 'Invalid headerMapping'));
+    }
+
+    const result = await importSpreadsheet(buffer, fileName, {
+      headerMapping,
+      persist: process.env.AIRTABLE_API_KEY ? saveMLSData : undefined
+    }, mimeType);
+
+    if (!result.success || !result.data) {
+      return res.status(422).json(formatErrorResponse(result.error || 'Failed to import spreadsheet', result.failedStage));
+    }
+
+    const thresholds = await loadReportThresholds(result.data);
+    return res.status(200).json(formatMLSResponse({ ...result, data: result.data }, thresholds));
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return res.status(error.statusCode).json(formatErrorResponse(error.message));
+    }
+    console.error('Error importing spreadsheet:', error);
+    return res.status(500).json(formatErrorResponse('Internal server error'));
+  }
+}
@@ -0,0 +1,49 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { InvestmentRequest, InvestmentResponse } from '@/types/investment';
+import { analyzeInvestment, DEFAULT_INVESTMENT_ASSUMPTIONS, InvestmentError } from '@/utils/investment-analysis';
+import { saveInvestmentAnalysis } from '@/utils/airtable';
+import { formatErrorResponse } from '@/utils/mls-response';
+
+const ASSUMPTION_NAMES = ['purchasePrice', 'monthlyRent', ...Object.keys(DEFAULT_INVESTMENT_ASSUMPTIONS)];
+
+function isAssumptions(value: unknown): value is InvestmentRequest['assumptions'] {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    ASSUMPTION_NAMES.every(name => typeof (value as Record<string, unknown>)[name] === 'number');
+}
+
+/**
+ * Analyzes a rental investment from `assumptions`. With `reportId` (the
+ * Airtable record ID of a saved report) and the listing's `mlsNumber`, the
+ * analysis is also saved as a Comparison insight.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json(formatErrorResponse('Method not allowed'));
+  }
+
+  const { assumptions, reportId, mlsNumber } = (req.body || {}) as Partial<InvestmentRequest>;
+  if (!isAssumptions(assumptions)) {
+    return res.status(400).json(formatErrorResponse(`assumptions must set ${ASSUMPTION_NAMES.join(', ')} to numbers`));
+  }
+  if ((reportId !== undefined || mlsNumber !== undefined) && (typeof reportId !== 'string' || typeof mlsNumber !== 'string')) {
+    return res.status(400).json(formatErrorResponse('reportId and mlsNumber must both be strings to save the analysis'));
+  }
+
+  try {
+    const analysis = analyzeInvestment(assumptions);
+    const response: InvestmentResponse = {
+      analysis,
+      insightId: reportId && mlsNumber ? await saveInvestmentAnalysis(reportId, mlsNumber, assumptions, analysis) : null
+    };
+    return res.status(200).json(response);
+  } catch (error) {
+    if (error instanceof InvestmentError) {
+      return res.status(422).json(formatErrorResponse(error.message));
+    }
+    console.error('Error analyzing investment:', error);
+    return res.status(500).json(formatErrorResponse('Internal server error'));
+  }
+}
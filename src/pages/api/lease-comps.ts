@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { LeaseCompImportResponse } from '@/types/rental';
+import { detectSpreadsheetFormat, readSpreadsheetRows } from '@/utils/spreadsheet-importer';
+import { parseLeaseCompRows } from '@/utils/rental-estimator';
+import { formatErrorResponse } from '@/utils/mls-response';
+import { receiveUpload, UploadError } from '@/utils/upload';
+
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+/**
+ * Reads lease comps from a CSV or XLSX export of leased listings sent as
+ * multipart form data (`file` field), for use with /api/rental-estimate.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json(formatErrorResponse('Method not allowed'));
+  }
+
+  try {
+    const { buffer, fileName, mimeType } = await receiveUpload(req);
+
+    const format = detectSpreadsheetFormat(fileName, mimeType);
+    if (!format) {
+      return res.status(415).json(formatErrorResponse('Please upload a CSV or XLSX file'));
+    }
+
+    const { leaseComps, skippedRows } = parseLeaseCompRows(readSpreadsheetRows(buffer, format));
+    if (!leaseComps.length) {
+      return res.status(422).json(formatErrorResponse('No leases with a rent and square footage were found'));
+    }
+
+    const response: LeaseCompImportResponse = { success: true, leaseComps, skippedRows };
+    return res.status(200).json(response);
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return res.status(error.statusCode).json(formatErrorResponse(error.message));
+    }
+    console.error('Error importing lease comps:', error);
+    return res.status(500).json(formatErrorResponse('Internal server error'));
+  }
+}
@@ -0,0 +1,77 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { processPDF } from '@/utils/pdf-processor';
+import { formatErrorResponse, formatMLSResponse } from '@/utils/mls-response';
+import { loadReportThresholds } from '@/utils/validation-thresholds';
+import { formatServerSentEvent } from '@/utils/processing-events';
+import { hasPDFSignature, receiveUpload, UploadError } from '@/utils/upload';
+import { saveMLSData } from '@/utils/airtable';
+import type { ProcessingFailure } from '@/types/processing';
+
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+/**
+ * Processes a PDF sent as multipart form data (`file` field) and streams
+ * progress as Server-Sent Events: `progress` for each stage, then `result`
+ * with the UploadSuccessResponse or `error` naming the stage that failed.
+ * Upload errors are answered with a JSON UploadErrorResponse before the
+ * stream starts. Reports are saved to Airtable when AIRTABLE_API_KEY is set.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json(formatErrorResponse('Method not allowed'));
+  }
+
+  let buffer: Buffer;
+  try {
+    ({ buffer } = await receiveUpload(req));
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return res.status(error.statusCode).json(formatErrorResponse(error.message));
+    }
+    console.error('Error receiving PDF upload:', error);
+    return res.status(500).json(formatErrorResponse('Internal server error'));
+  }
+
+  if (!hasPDFSignature(buffer)) {
+    return res.status(415).json(formatErrorResponse('Uploaded file is not a PDF'));
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stops proxies such as nginx from buffering the stream
+    'X-Accel-Buffering': 'no'
+  });
+
+  try {
+    const result = await processPDF(buffer, {
+      onProgress: progress => res.write(formatServerSentEvent('progress', progress)),
+      persist: process.env.AIRTABLE_API_KEY ? saveMLSData : undefined
+    });
+
+    if (result.success && result.data) {
+      const thresholds = await loadReportThresholds(result.data);
+      res.write(formatServerSentEvent('result', formatMLSResponse({ ...result, data: result.data }, thresholds)));
+    } else {
+      const failure: ProcessingFailure = {
+        stage: result.failedStage || 'parsing',
+        message: result.error || 'Failed to process PDF'
+      };
+      res.write(formatServerSentEvent('error', failure));
+    }
+  } catch (error) {
+    console.error('Error processing PDF:', error);
+    const failure: ProcessingFailure = { stage: 'complete', message: 'Internal server error' };
+    res.write(formatServerSentEvent('error', failure));
+  } finally {
+    res.end();
+  }
+}
@@ -1,59 +1,52 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { processPDF } from '@/utils/pdf-processor';
-import type { MLSReport, DemographicMetric } from '@/types/property';
+import { formatErrorResponse, formatMLSResponse } from '@/utils/mls-response';
+import { loadReportThresholds } from '@/utils/validation-thresholds';
+import { hasPDFSignature, receiveUpload, UploadError } from '@/utils/upload';
+import { saveMLSData } from '@/utils/airtable';
+import type { UploadResponse } from '@/types/api';
 
-function isDemographicMetric(metric: any): metric is DemographicMetric {
-  return (
-    typeof metric === 'object' &&
-    'value' in metric &&
-    'trend' in metric &&
-    'percentChange' in metric
-  );
-}
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
 
+/**
+ * Processes an MLS PDF sent as multipart form data (`file` field, 10MB max).
+ * Responds with an UploadResponse: `{ success: true, mlsData, message, ... }`
+ * or `{ success: false, message, stage? }`. The report is saved to Airtable,
+ * and its `reportId` returned, when AIRTABLE_API_KEY is set.
+ */
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse
+  res: NextApiResponse<UploadResponse>
 ) {
   if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
+    return res.status(405).json(formatErrorResponse('Method not allowed'));
   }
 
   try {
-    const pdfBuffer = Buffer.from(req.body.pdf, 'base64');
-    const result = await processPDF(pdfBuffer);
-
-    if (!result.success || !result.data) {
-      return res.status(400).json({ error: result.error || 'Failed to process PDF' });
+    const { buffer } = await receiveUpload(req);
+    if (!hasPDFSignature(buffer)) {
+      return res.status(415).json(formatErrorResponse('Uploaded file is not a PDF'));
     }
 
-    const formatDemographicMetric = (metric: DemographicMetric | { [key: string]: DemographicMetric }): string => {
-      if (isDemographicMetric(metric)) {
-        return `${metric.value.toLocaleString()} (${metric.trend}, ${metric.percentChange > 0 ? '+' : ''}${metric.percentChange}%)`;
-      }
-      return Object.entries(metric)
-        .map(([key, value]) => `${key}: ${formatDemographicMetric(value)}`)
-        .join(', ');
-    };
+    const result = await processPDF(buffer, {
+      persist: process.env.AIRTABLE_API_KEY ? saveMLSData : undefined
+    });
 
-    // Format the response data
-    const formattedData = {
-      ...result.data,
-      summary: {
-        listPrice: `$${result.data.listPrice.toLocaleString()}`,
-        propertyType: result.data.propertyType,
-        location: `${result.data.address.city}, ${result.data.address.state}`,
-        demographics: {
-          population: formatDemographicMetric(result.data.demographicAnalysis.population),
-          medianIncome: formatDemographicMetric(result.data.demographicAnalysis.medianIncome),
-          education: formatDemographicMetric(result.data.demographicAnalysis.educationLevels)
-        }
-      }
-    };
+    if (!result.success || !result.data) {
+      return res.status(422).json(formatErrorResponse(result.error || 'Failed to process PDF', result.failedStage));
+    }
 
-    return res.status(200).json(formattedData);
+    const thresholds = await loadReportThresholds(result.data);
+    return res.status(200).json(formatMLSResponse({ ...result, data: result.data }, thresholds));
   } catch (error) {
+    if (error instanceof UploadError) {
+      return res.status(error.statusCode).json(formatErrorResponse(error.message));
+    }
     console.error('Error processing PDF:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return res.status(500).json(formatErrorResponse('Internal server error'));
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,55 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { Property } from '@/types/property';
+import type { LeaseComp, RentalEstimateResponse } from '@/types/rental';
+import { formatErrorResponse } from '@/utils/mls-response';
+import { estimateRents } from '@/utils/rental-estimator';
+import { saveRentalEstimates } from '@/utils/airtable';
+
+function isListingArray(value: unknown): value is Property[] {
+  return Array.isArray(value) && value.every(listing =>
+    typeof listing === 'object' && listing !== null && typeof (listing as Property).mlsNumber === 'string');
+}
+
+function isLeaseCompArray(value: unknown): value is LeaseComp[] {
+  return Array.isArray(value) && value.every(comp =>
+    typeof comp === 'object' && comp !== null &&
+    typeof (comp as LeaseComp).monthlyRent === 'number' && typeof (comp as LeaseComp).sqft === 'number');
+}
+
+/**
+ * `POST { listings, leaseComps?, reportId? }` estimates monthly rent, gross
+ * yield and price-to-rent for each listing. With the Airtable record ID of a
+ * saved report, the estimates are also written as Rental Estimate insights.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json(formatErrorResponse('Method not allowed'));
+  }
+
+  const { listings, leaseComps = [], reportId } = req.body || {};
+  if (!isListingArray(listings)) {
+    return res.status(400).json(formatErrorResponse('listings must be an array of listings'));
+  }
+  if (!isLeaseCompArray(leaseComps)) {
+    return res.status(400).json(formatErrorResponse('leaseComps must be an array of leases with sqft and monthlyRent'));
+  }
+  if (reportId !== undefined && typeof reportId !== 'string') {
+    return res.status(400).json(formatErrorResponse('reportId must be a string'));
+  }
+
+  try {
+    const estimates = await estimateRents(listings, leaseComps);
+    const response: RentalEstimateResponse = {
+      success: true,
+      estimates,
+      savedInsights: reportId ? await saveRentalEstimates(reportId, estimates) : 0
+    };
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error('Error estimating rents:', error);
+    return res.status(500).json(formatErrorResponse('Internal server error'));
+  }
+}
@@ -0,0 +1,73 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { acceptReprocessedReport, getStoredMLSReport, listStoredMLSReports } from '@/utils/airtable';
+import { formatErrorResponse } from '@/utils/mls-response';
+import { diffReports, reprocessSource, summarizeStoredReport } from '@/utils/reprocess';
+import { validateReport } from '@/utils/validation-profiles';
+import type { ReprocessResponse, StoredReportsResponse } from '@/types/reprocessing';
+
+/**
+ * Re-runs the current extractors over reports saved in Airtable.
+ *
+ * - `GET` lists saved reports with the extractor version they were read with
+ *   and whether a newer version is registered.
+ * - `POST { reportId }` re-extracts the stored source and returns the diff
+ *   against the saved report without changing it.
+ * - `POST { reportId, accept: true }` does the same and replaces the saved
+ *   report and its listings with the new extraction, which must pass the
+ *   persist validation profile.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json(formatErrorResponse('Method not allowed'));
+  }
+  if (!process.env.AIRTABLE_API_KEY) {
+    return res.status(503).json(formatErrorResponse('Report storage is not configured'));
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const stored = await listStoredMLSReports();
+      const response: StoredReportsResponse = { success: true, reports: stored.map(summarizeStoredReport) };
+      return res.status(200).json(response);
+    }
+
+    const { reportId, accept } = req.body || {};
+    if (typeof reportId !== 'string' || !reportId) {
+      return res.status(400).json(formatErrorResponse('reportId is required'));
+    }
+
+    const stored = await getStoredMLSReport(reportId);
+    if (!stored) {
+      return res.status(404).json(formatErrorResponse('Report not found'));
+    }
+    if (!stored.source) {
+      return res.status(422).json(formatErrorResponse('Report was saved without its source text and cannot be reprocessed'));
+    }
+
+    let report;
+    try {
+      ({ report } = reprocessSource(stored.source));
+    } catch (error) {
+      // e.g. no registered extractor recognizes the stored text any more
+      return res.status(422).json(formatErrorResponse(error instanceof Error ? error.message : 'Reprocessing failed'));
+    }
+    const diff = diffReports(stored.report, report);
+    if (accept === true) {
+      const validation = validateReport(report, 'persist');
+      if (!validation.valid) {
+        const firstError = validation.issues.find(issue => issue.severity === 'error');
+        return res.status(422).json(formatErrorResponse(`Reprocessed report cannot be saved: ${firstError?.message}`));
+      }
+      await acceptReprocessedReport(reportId, report);
+    }
+
+    const response: ReprocessResponse = { success: true, reportId, accepted: accept === true, diff, mlsData: report };
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error('Error reprocessing report:', error);
+    return res.status(500).json(formatErrorResponse('Internal server error'));
+  }
+}
@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { MLSReport } from '@/types/property';
+import { toResoFeed } from '@/utils/reso-mapper';
+
+/**
+ * Converts an MLSReport (request body) into a RESO Property feed.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const report = req.body as MLSReport;
+  if (!report || !Array.isArray(report.activeListings) || !Array.isArray(report.closedListings)) {
+    return res.status(400).json({ error: 'Request body must be an MLS report with activeListings and closedListings' });
+  }
+
+  try {
+    return res.status(200).json(toResoFeed(report));
+  } catch (error) {
+    console.error('Error exporting RESO feed:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
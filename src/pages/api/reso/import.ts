@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { fromResoFeed, ResoMappingError } from '@/utils/reso-mapper';
+import { formatMLSResponse } from '@/utils/mls-response';
+import { loadReportThresholds } from '@/utils/validation-thresholds';
+
+/**
+ * Accepts RESO-shaped JSON (a `{ value: [...] }` feed or an array of Property
+ * records) and returns the same report shape as a PDF upload.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const report = fromResoFeed(req.body);
+
+    if (!report.activeListings.length && !report.closedListings.length) {
+      return res.status(400).json({ error: 'No listings found in RESO feed' });
+    }
+
+    const thresholds = await loadReportThresholds(report);
+    return res.status(200).json(formatMLSResponse({ success: true, data: report }, thresholds));
+  } catch (error) {
+    if (error instanceof ResoMappingError) {
+      return res.status(400).json({ error: error.message, field: error.field });
+    }
+    console.error('Error importing RESO feed:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
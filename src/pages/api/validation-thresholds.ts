@@ -0,0 +1,46 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { formatErrorResponse } from '@/utils/mls-response';
+import { clearValidationThresholdCache, loadValidationThresholds, PRICE_BANDS } from '@/utils/validation-thresholds';
+import type { ThresholdScope, ValidationThresholdsResponse } from '@/types/validation';
+
+function queryValue(value: string | string[] | undefined): string | undefined {
+  const single = Array.isArray(value) ? value[0] : value;
+  return single && single.trim() ? single.trim() : undefined;
+}
+
+/**
+ * `GET ?city=Frisco&priceBand=750k-1.5m` returns the validation thresholds
+ * that apply to reports in that city and price band, with the Configuration
+ * table overrides applied. `refresh=true` drops cached values first so an
+ * Airtable edit shows up immediately.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json(formatErrorResponse('Method not allowed'));
+  }
+
+  const scope: ThresholdScope = { city: queryValue(req.query.city), priceBand: queryValue(req.query.priceBand) };
+  if (scope.priceBand && !PRICE_BANDS.some(band => band.id === scope.priceBand)) {
+    return res.status(400).json(formatErrorResponse(
+      `priceBand must be one of ${PRICE_BANDS.map(band => band.id).join(', ')}`
+    ));
+  }
+
+  try {
+    if (queryValue(req.query.refresh) === 'true') {
+      clearValidationThresholdCache();
+    }
+    const response: ValidationThresholdsResponse = {
+      success: true,
+      scope,
+      thresholds: await loadValidationThresholds(scope)
+    };
+    return res.status(200).json(response);
+  } catch (error) {
+    console.error('Error loading validation thresholds:', error);
+    return res.status(500).json(formatErrorResponse('Internal server error'));
+  }
+}
@@ -0,0 +1,51 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { Property } from '@/types/property';
+import type { ValuationResponse } from '@/types/valuation';
+import { formatErrorResponse } from '@/utils/mls-response';
+import {
+  fitValuationModel,
+  loadStoredClosedSales,
+  mergeSales,
+  valueListing,
+  ValuationError
+} from '@/utils/hedonic-valuation';
+
+function isListingArray(value: unknown): value is Property[] {
+  return Array.isArray(value) && value.every(listing =>
+    typeof listing === 'object' && listing !== null && typeof (listing as Property).mlsNumber === 'string');
+}
+
+/**
+ * `POST { listings, closedListings? }` estimates the value of each listing
+ * from a hedonic model trained on every stored closed sale plus
+ * `closedListings` (e.g. the sales of a report not saved yet).
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json(formatErrorResponse('Method not allowed'));
+  }
+
+  const { listings, closedListings = [] } = req.body || {};
+  if (!isListingArray(listings) || !isListingArray(closedListings)) {
+    return res.status(400).json(formatErrorResponse('listings and closedListings must be arrays of listings'));
+  }
+
+  try {
+    const model = fitValuationModel(mergeSales(await loadStoredClosedSales(), closedListings));
+    const response: ValuationResponse = {
+      success: true,
+      model,
+      valuations: listings.map(listing => valueListing(model, listing))
+    };
+    return res.status(200).json(response);
+  } catch (error) {
+    if (error instanceof ValuationError) {
+      return res.status(422).json(formatErrorResponse(error.message));
+    }
+    console.error('Error valuing listings:', error);
+    return res.status(500).json(formatErrorResponse('Internal server error'));
+  }
+}
@@ -1,27 +1,52 @@
 import { useState } from 'react';
 import Layout from '@/components/Layout';
 import ChatInterface from '@/components/ChatInterface';
-import type { MLSReport } from '@/types/property';
+import PropertyAnalysis from '@/components/PropertyAnalysis';
+import type { ListingRepair } from '@/types/extraction';
+import type { ProcessingProgress } from '@/types/processing';
+import type { UploadErrorResponse, UploadSuccessResponse } from '@/types/api';
+import { readProcessingStream } from '@/utils/processing-events';
+import { revertRepair } from '@/utils/listing-normalizer';
 
 export default function Home() {
-  const [mlsData, setMLSData] = useState<MLSReport | null>(null);
+  // Latest upload response; its reportId is set when the report was saved
+  const [upload, setUpload] = useState<UploadSuccessResponse | null>(null);
 
-  const handleUpload = async (file: File) => {
+  const handleUpload = async (
+    file: File,
+    onProgress?: (progress: ProcessingProgress) => void
+  ): Promise<UploadSuccessResponse> => {
     const formData = new FormData();
     formData.append('file', file);
 
-    const response = await fetch('/api/process-pdf', {
+    // MLS exports (CSV/XLSX) are imported directly instead of scraped from a PDF
+    const isSpreadsheet = /\.(csv|xlsx?)$/i.test(file.name);
+    // PDFs stream staged progress while they are parsed and extracted
+    const endpoint = isSpreadsheet ? '/api/import-listings' : '/api/process-pdf-stream';
+
+    const response = await fetch(endpoint, {
       method: 'POST',
       body: formData,
     });
 
     if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.message || 'Failed to process PDF');
+      const errorData: UploadErrorResponse = await response.json();
+      throw new Error(errorData.message || (isSpreadsheet ? 'Failed to import spreadsheet' : 'Failed to process PDF'));
     }
 
-    const data = await response.json();
-    setMLSData(data.mlsData);
+    const data: UploadSuccessResponse = isSpreadsheet
+      ? await response.json()
+      : await readProcessingStream<UploadSuccessResponse>(response, onProgress);
+    setUpload(data);
+    return data;
+  };
+
+  const handleRevertRepair = (repair: ListingRepair) => {
+    setUpload(current => current && {
+      ...current,
+      mlsData: { ...current.mlsData, ...revertRepair(current.mlsData, repair) },
+      repairs: current.repairs.filter(({ id }) => id !== repair.id)
+    });
   };
 
   const handleCalculatePayment = (listPrice: number) => {
@@ -35,11 +60,24 @@ export default function Home() {
         <h1 className="text-3xl font-bold mb-8">Collin County Market Analysis</h1>
         <div className="bg-white rounded-lg shadow-lg overflow-hidden h-[600px]">
           <ChatInterface
-            mlsData={mlsData}
+            mlsData={upload?.mlsData ?? null}
             onCalculatePayment={handleCalculatePayment}
             onUpload={handleUpload}
           />
         </div>
+        {upload && (
+          <div className="mt-8">
+            <PropertyAnalysis
+              data={upload.mlsData}
+              provenance={upload.provenance}
+              reviewItems={upload.reviewItems}
+              repairs={upload.repairs}
+              onRevertRepair={handleRevertRepair}
+              validationThresholds={upload.validationThresholds}
+              reportId={upload.reportId}
+            />
+          </div>
+        )}
       </div>
     </Layout>
   );
@@ -0,0 +1,13 @@
+import Layout from '@/components/Layout';
+import ReportReprocessing from '@/components/ReportReprocessing';
+
+export default function Reports() {
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold mb-8">MLS Reports</h1>
+        <ReportReprocessing />
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  DEFAULT_FIXTURES_DIR,
+  expectedFilePath,
+  extractFixture,
+  formatHarnessReport,
+  loadFixtures,
+  runFixtures,
+  toExpectedReport
+} from '../utils/extraction-harness';
+
+// Usage: npm run test:extraction -- [fixtures-dir] [--update]
+//
+// Runs every extraction fixture through processPDF and prints a field-level
+// diff with precision and recall per field. Exits with status 1 when any
+// fixture differs from its expected report. --update rewrites the expected
+// reports from the current extractor instead; review the diff before committing.
+
+async function updateExpected(dir: string) {
+  const files = fs.readdirSync(dir).filter(file => /\.(pdf|txt)$/i.test(file)).sort();
+  for (const file of files) {
+    const fixtureFile = path.join(dir, file);
+    const result = await extractFixture(fixtureFile);
+    if (!result.success || !result.data) {
+      console.error(`${file}: ${result.error || 'Processing failed'}`);
+      continue;
+    }
+    fs.writeFileSync(expectedFilePath(fixtureFile), `${JSON.stringify(toExpectedReport(result.data), null, 2)}\n`);
+    console.log(`Wrote ${path.basename(expectedFilePath(fixtureFile))}`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dir = args.find(arg => !arg.startsWith('--')) || DEFAULT_FIXTURES_DIR;
+
+  if (args.includes('--update')) {
+    await updateExpected(dir);
+    return;
+  }
+
+  const fixtures = loadFixtures(dir);
+  if (!fixtures.length) {
+    console.error(`No fixtures with expected reports found in ${dir}`);
+    process.exit(1);
+  }
+
+  const results = await runFixtures(fixtures);
+  console.log(formatHarnessReport(results));
+
+  const failed = results.filter(result => result.error || result.mismatches.length);
+  console.log(`\n${fixtures.length - failed.length} of ${fixtures.length} fixtures match`);
+  if (failed.length) process.exit(1);
+}
+
+main().catch(error => {
+  console.error('Extraction regression run failed:', error);
+  process.exit(1);
+});
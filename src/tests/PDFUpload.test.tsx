@@ -21,13 +21,13 @@ jest.mock('react-dropzone', () => ({
         onDragLeave: () => { isDragActive = false; isDragAccept = false; },
         role: 'presentation',
         className: 'dropzone',
-        'aria-label': 'Upload PDF file'
+        'aria-label': 'Upload MLS report file'
       }),
       getInputProps: () => ({
         type: 'file',
         accept: accept['application/pdf'],
         multiple: false,
-        'aria-label': 'Upload PDF file',
+        'aria-label': 'Upload MLS report file',
         onChange: (e: any) => {
           const files = e.target.files;
           if (files && files.length > 0) {
@@ -56,7 +56,7 @@ describe('PDFUpload', () => {
     
     expect(screen.getByText(/Drag & drop your MLS report PDF/i)).toBeInTheDocument();
     expect(screen.getByText(/or click to select file/i)).toBeInTheDocument();
-    expect(screen.getByText(/Supported format: PDF/i)).toBeInTheDocument();
+    expect(screen.getByText(/Supported formats: PDF, CSV, XLSX/i)).toBeInTheDocument();
     expect(screen.getByText(/Maximum file size: 10MB/i)).toBeInTheDocument();
   });
 
@@ -115,7 +115,7 @@ describe('PDFUpload', () => {
         });
       });
       
-      expect(screen.getByTestId('error-message')).toHaveTextContent(/Please upload a PDF file/i);
+      expect(screen.getByTestId('error-message')).toHaveTextContent(/Please upload a PDF, CSV or Excel file/i);
       expect(dropzone).toHaveClass('border-red-300');
       expect(dropzone).toHaveClass('bg-red-50');
     }
@@ -126,11 +126,11 @@ describe('PDFUpload', () => {
     const { container } = render(<PDFUpload onUpload={mockOnUpload} onError={mockOnError} />);
     
     const input = container.querySelector('input[type="file"]');
-    expect(input).toHaveAttribute('aria-label', 'Upload PDF file');
+    expect(input).toHaveAttribute('aria-label', 'Upload MLS report file');
     
     const dropzone = container.querySelector('[role="button"]');
     expect(dropzone).toBeInTheDocument();
-    expect(dropzone).toHaveAttribute('aria-label', 'Upload PDF file');
+    expect(dropzone).toHaveAttribute('aria-label', 'Upload MLS report file');
   });
 
   it('maintains focus management during upload process', async () => {
@@ -177,7 +177,7 @@ describe('PDFUpload', () => {
       
       await waitFor(() => {
         const errorMessage = screen.getByTestId('error-message');
-        expect(errorMessage).toHaveTextContent('Failed to process PDF');
+        expect(errorMessage).toHaveTextContent('Failed to process file');
         expect(errorMessage).toHaveAttribute('role', 'alert');
         expect(errorMessage).toHaveAttribute('aria-live', 'assertive');
       });
@@ -245,7 +245,7 @@ describe('PDFUpload', () => {
       });
       
       const errorMessage = screen.getByTestId('error-message');
-      expect(errorMessage).toHaveTextContent('Please upload a PDF file');
+      expect(errorMessage).toHaveTextContent('Please upload a PDF, CSV or Excel file');
       expect(errorMessage).toHaveAttribute('role', 'alert');
       expect(errorMessage).toHaveAttribute('aria-live', 'assertive');
       
@@ -18,7 +18,7 @@ describe('PropertyAnalysis', () => {
     // Check market overview section
     expect(screen.getByText(/Average Prices/i)).toBeInTheDocument();
     expect(screen.getByText(/Active Listings:/i)).toBeInTheDocument();
-    expect(screen.getByText(`$${sampleMLSData.statistics.averageListPrice.toLocaleString()}`)).toBeInTheDocument();
+    expect(screen.getByText(`$${sampleMLSData.statistics.averageListPrice?.toLocaleString()}`)).toBeInTheDocument();
     expect(screen.getByText(`${sampleMLSData.statistics.averageDaysOnMarket} days`)).toBeInTheDocument();
   });
 
@@ -78,8 +78,8 @@ describe('PropertyAnalysis', () => {
 
     // Check market statistics
     expect(screen.getByText(/Median Prices/i)).toBeInTheDocument();
-    expect(screen.getByText(`$${sampleMLSData.statistics.medianListPrice.toLocaleString()}`)).toBeInTheDocument();
-    expect(screen.getByText(`$${sampleMLSData.statistics.medianSoldPrice.toLocaleString()}`)).toBeInTheDocument();
+    expect(screen.getByText(`$${sampleMLSData.statistics.medianListPrice?.toLocaleString()}`)).toBeInTheDocument();
+    expect(screen.getByText(`$${sampleMLSData.statistics.medianSoldPrice?.toLocaleString()}`)).toBeInTheDocument();
   });
 
   it('handles empty MLS data gracefully', () => {
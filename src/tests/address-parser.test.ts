@@ -0,0 +1,104 @@
+import { parseAddress, parseCityStateZip, normalizeCity, isCollinCountyCity } from '@/utils/address-parser';
+import { extractMLSData } from '@/utils/mlsDataExtractor';
+
+describe('Address Parser', () => {
+  describe('parseAddress', () => {
+    it('splits a full address into its parts', () => {
+      expect(parseAddress('4500 Legacy Dr Ste 210, Plano, TX 75024-3106')).toEqual({
+        streetNumber: '4500',
+        streetName: 'Legacy',
+        streetSuffix: 'Dr',
+        unit: '210',
+        street: '4500 Legacy Dr',
+        city: 'Plano',
+        state: 'TX',
+        zipCode: '75024',
+        cityValidated: true
+      });
+    });
+
+    it.each([
+      ['812 Rolling Hills Trail', 'Trl'],
+      ['6400 Independence Parkway', 'Pkwy'],
+      ['2200 Virginia Blvd', 'Blvd'],
+      ['15 Hidden Oak Place', 'Pl'],
+      ['901 Stonebridge Crossing', 'Xing']
+    ])('recognizes the suffix in %s', (address, suffix) => {
+      expect(parseAddress(address)?.streetSuffix).toBe(suffix);
+    });
+
+    it('reads the city without commas', () => {
+      expect(parseAddress('5600 Eldorado Pkwy McKinney TX 75070')).toMatchObject({
+        street: '5600 Eldorado Pkwy',
+        city: 'McKinney',
+        state: 'TX',
+        zipCode: '75070'
+      });
+    });
+
+    it('reads unit numbers written with #', () => {
+      expect(parseAddress('300 Main St #4, Frisco')).toMatchObject({ street: '300 Main St', unit: '4', city: 'Frisco' });
+    });
+
+    it('strips address labels', () => {
+      expect(parseAddress('Property Address: 123 Main St')?.street).toBe('123 Main St');
+    });
+
+    it('rejects lines that are not addresses', () => {
+      expect(parseAddress('4 beds, 2.5 baths')).toBeNull();
+      expect(parseAddress('2 Car Garage')).toBeNull();
+      expect(parseAddress('List Price: $500,000')).toBeNull();
+    });
+
+    it('keeps cities outside Collin County but marks them unvalidated', () => {
+      expect(parseAddress('10 Elm St, Austin, TX 78701')).toMatchObject({ city: 'Austin', cityValidated: false });
+    });
+  });
+
+  describe('cities', () => {
+    it('normalizes Collin County municipalities', () => {
+      expect(normalizeCity('mckinney')).toBe('McKinney');
+      expect(normalizeCity('Saint Paul')).toBe('St. Paul');
+      expect(isCollinCountyCity('Royse City')).toBe(true);
+      expect(isCollinCountyCity('Houston')).toBe(false);
+    });
+
+    it('parses city, state and ZIP fragments', () => {
+      expect(parseCityStateZip('Plano,TX')).toEqual({
+        city: 'Plano',
+        state: 'TX',
+        zipCode: undefined,
+        cityValidated: true
+      });
+    });
+  });
+
+  describe('extractMLSData', () => {
+    it('uses the parsed city, state and ZIP instead of defaults', () => {
+      const report = extractMLSData(`
+        MLS#12345
+        812 Rolling Hills Trail, Allen, TX 75013
+        List Price: $450,000
+      `);
+
+      expect(report.activeListings[0]).toMatchObject({
+        address: '812 Rolling Hills Trail',
+        city: 'Allen',
+        state: 'TX',
+        zipCode: '75013'
+      });
+      expect(report.address).toMatchObject({ city: 'Allen', state: 'TX', zipCode: '75013' });
+    });
+
+    it('leaves the city empty when the report does not state one', () => {
+      const report = extractMLSData(`
+        MLS#12345
+        812 Rolling Hills Trail
+        List Price: $450,000
+      `);
+
+      expect(report.activeListings[0].city).toBe('');
+      expect(report.address.zipCode).toBe('');
+    });
+  });
+});
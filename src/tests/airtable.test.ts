@@ -1,12 +1,24 @@
-import { saveMLSData, createMLSReport, createListings, createInsight, getConfiguration, updateMLSReportStatus } from '@/utils/airtable';
+import {
+  acceptReprocessedReport,
+  saveMLSData,
+  createMLSReport,
+  createListings,
+  createInsight,
+  getConfiguration,
+  getConfigurations,
+  saveRentalEstimates,
+  updateMLSReportStatus
+} from '@/utils/airtable';
 import type { MLSReport } from '@/types/property';
 import { mockMLSData } from '@/tests/test-utils';
+import { buildMLSReport } from '@/utils/mlsDataExtractor';
 
 // Mock Airtable
 jest.mock('airtable', () => {
   return class MockAirtable {
     static apiKey: string;
     static base: string;
+    static table: Record<string, jest.Mock>;
 
     constructor({ apiKey }: { apiKey: string }) {
       MockAirtable.apiKey = apiKey;
@@ -14,7 +26,8 @@ jest.mock('airtable', () => {
 
     base(baseId: string) {
       MockAirtable.base = baseId;
-      return {
+      // The client is called with a table name; every table shares these mocks
+      const table = {
         create: jest.fn().mockImplementation((data) => {
           if (Array.isArray(data)) {
             return Promise.resolve(data.map((record, index) => ({
@@ -28,13 +41,22 @@ jest.mock('airtable', () => {
           });
         }),
         update: jest.fn().mockResolvedValue({ id: 'MOCK_ID', fields: {} }),
+        find: jest.fn().mockResolvedValue({ id: 'MOCK_ID', fields: {} }),
+        destroy: jest.fn().mockImplementation((ids: string[]) => Promise.resolve(ids.map(id => ({ id })))),
         select: jest.fn().mockReturnValue({
           firstPage: jest.fn().mockResolvedValue([{
             id: 'MOCK_CONFIG_ID',
             fields: { Value: 0.05 }
-          }])
+          }]),
+          all: jest.fn().mockResolvedValue([
+            { id: 'MOCK_CONFIG_1', fields: { 'Config Name': 'MAX_PRICE_TO_INCOME_RATIO', Value: 6 } },
+            { id: 'MOCK_CONFIG_2', fields: { 'Config Name': 'MAX_PRICE_TO_INCOME_RATIO@Frisco', Value: 7 } },
+            { id: 'MOCK_CONFIG_3', fields: { 'Config Name': 'MIN_DAYS_ON_MARKET' } }
+          ])
         })
       };
+      MockAirtable.table = table;
+      return Object.assign(() => table, table);
     }
   };
 });
@@ -122,6 +144,22 @@ describe('Airtable Integration', () => {
     });
   });
 
+  describe('getConfigurations', () => {
+    it('returns the numeric values found, keyed by config name', async () => {
+      const values = await getConfigurations([
+        'MAX_PRICE_TO_INCOME_RATIO',
+        'MAX_PRICE_TO_INCOME_RATIO@Frisco',
+        'MIN_DAYS_ON_MARKET'
+      ]);
+
+      expect(values).toEqual({ MAX_PRICE_TO_INCOME_RATIO: 6, 'MAX_PRICE_TO_INCOME_RATIO@Frisco': 7 });
+    });
+
+    it('does not query Airtable without names', async () => {
+      expect(await getConfigurations([])).toEqual({});
+    });
+  });
+
   describe('updateMLSReportStatus', () => {
     it('updates report status to completed', async () => {
       await updateMLSReportStatus('MOCK_ID', 'Completed');
@@ -155,5 +193,112 @@ describe('Airtable Integration', () => {
 
       await expect(saveMLSData(sampleMLSData)).rejects.toThrow('Airtable error');
     });
+
+    it('saves listings without an address and notes them on the report', async () => {
+      const table: Record<string, jest.Mock> = jest.requireMock('airtable').table;
+      const listing = {
+        mlsNumber: '20400001',
+        address: '100 Elm St',
+        city: 'Plano',
+        bedrooms: 4,
+        bathrooms: '3/0/0',
+        sqft: 2500,
+        yearBuilt: 2005,
+        garage: '2 Car',
+        pool: false,
+        acres: 0.25,
+        pricePerSqft: 200,
+        listPrice: 500000
+      };
+
+      await expect(saveMLSData(buildMLSReport([listing, { ...listing, mlsNumber: '20400002', address: '' }])))
+        .resolves.toBe('MOCK_ID');
+
+      expect(table.create.mock.calls[0][0]['Error Notes']).toBe('activeListings[1].address: Missing address');
+      expect(table.create.mock.calls[1][0]).toHaveLength(2);
+    });
+  });
+
+  describe('record limits', () => {
+    const listings = Array.from({ length: 25 }, (_, i) => ({
+      mlsNumber: `2040${String(i).padStart(4, '0')}`,
+      address: `${100 + i} Elm St`,
+      city: 'Plano',
+      bedrooms: 4,
+      bathrooms: '3/0/0',
+      sqft: 2500,
+      yearBuilt: 2005,
+      garage: '2 Car',
+      pool: false,
+      acres: 0.25,
+      pricePerSqft: 200,
+      listPrice: 500000
+    }));
+    const table = (): Record<string, jest.Mock> => jest.requireMock('airtable').table;
+
+    it('creates and replaces listings at most 10 records per request', async () => {
+      table().find.mockResolvedValueOnce({
+        id: 'MOCK_ID',
+        fields: { 'Extracted Data': listings.map((_, i) => `recOld${i}`) }
+      });
+
+      await acceptReprocessedReport('MOCK_ID', buildMLSReport(listings));
+
+      expect(table().destroy.mock.calls.map(([ids]: string[][]) => ids.length)).toEqual([10, 10, 5]);
+      expect(table().create.mock.calls.map(([records]: unknown[][]) => records.length)).toEqual([10, 10, 5]);
+    });
+
+    it('keeps the previous listings when the new ones cannot be created', async () => {
+      table().find.mockResolvedValueOnce({
+        id: 'MOCK_ID',
+        fields: { 'Extracted Data': listings.map((_, i) => `recOld${i}`) }
+      });
+      table().create.mockRejectedValueOnce(new Error('Rate limit exceeded'));
+
+      await expect(acceptReprocessedReport('MOCK_ID', buildMLSReport(listings))).rejects.toThrow('Rate limit exceeded');
+
+      expect(table().destroy).not.toHaveBeenCalled();
+      expect(table().update).not.toHaveBeenCalled();
+    });
+
+    it('saves rental estimates in batches with a distinct insight ID each', async () => {
+      table().find.mockResolvedValueOnce({
+        id: 'MOCK_ID',
+        fields: { 'Extracted Data': listings.map((_, i) => `recListing${i}`) }
+      });
+      table().select.mockReturnValueOnce({
+        all: jest.fn().mockResolvedValue(listings.map((listing, i) => ({
+          id: `recListing${i}`,
+          fields: { 'Listing ID': `LST1700000000000-${listing.mlsNumber}` }
+        })))
+      });
+      const estimates = listings.map(listing => ({
+        mlsNumber: listing.mlsNumber,
+        monthlyRent: 2800,
+        rentPerSqft: 1.12,
+        source: 'rent-table' as const,
+        leaseCompCount: 0,
+        grossYield: 0.0672,
+        priceToRent: 14.88
+      }));
+
+      expect(await saveRentalEstimates('MOCK_ID', estimates)).toBe(25);
+
+      const insightIds = table().create.mock.calls.map(([fields]: Record<string, unknown>[]) => fields['Insight ID']);
+      expect(new Set(insightIds).size).toBe(25);
+      expect(table().update.mock.calls.map(([records]: unknown[][]) => records.length)).toEqual([10, 10, 5]);
+    });
+
+    it('leaves out report data over the long text limit with a note', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const report = { ...buildMLSReport(listings), description: 'x'.repeat(100001) };
+
+      await createMLSReport(report);
+
+      const fields = table().create.mock.calls[0][0];
+      expect(fields['Report Data']).toBe('');
+      expect(fields['Error Notes']).toMatch(/over the 100000 Airtable allows/);
+      warn.mockRestore();
+    });
   });
-}); 
\ No newline at end of file
+});
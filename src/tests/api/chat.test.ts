@@ -3,21 +3,14 @@ import chatHandler from '@/pages/api/chat';
 import type { MLSReport } from '@/types/property';
 import { mockMLSData } from '@/tests/test-utils';
 
-jest.mock('openai', () => ({
-  Configuration: jest.fn(),
-  OpenAIApi: jest.fn(() => ({
-    createChatCompletion: jest.fn().mockResolvedValue({
-      data: {
-        choices: [
-          {
-            message: {
-              content: 'Test response'
-            }
-          }
-        ]
-      }
-    })
-  }))
+const mockCreate = jest.fn();
+
+jest.mock('openai', () => jest.fn().mockImplementation(() => ({
+  chat: { completions: { create: (...args: unknown[]) => mockCreate(...args) } }
+})));
+
+jest.mock('@/utils/airtable', () => ({
+  getConfigurations: jest.fn()
 }));
 
 describe('Chat API', () => {
@@ -47,6 +40,14 @@ describe('Chat API', () => {
     }
   };
 
+  beforeEach(() => {
+    mockCreate.mockReset();
+    mockCreate.mockResolvedValue({
+      choices: [{ message: { content: 'Test response' } }],
+      usage: { total_tokens: 10 }
+    });
+  });
+
   it('handles chat messages correctly', async () => {
     const { req, res } = createMocks({
       method: 'POST',
@@ -64,6 +65,37 @@ describe('Chat API', () => {
     expect(typeof data.message).toBe('string');
   });
 
+  it('redacts personal information before prompting and restores it in the answer', async () => {
+    mockCreate.mockResolvedValueOnce({ choices: [{ message: { content: 'Call [PHONE_1] to schedule.' } }] });
+    const { req, res } = createMocks({
+      method: 'POST',
+      body: {
+        message: 'Can I call 972-555-0142 about a showing?',
+        mlsData: { ...testMLSData, description: 'Listing Agent: Jane Smith, jane@realty.com' }
+      }
+    });
+
+    await chatHandler(req, res);
+
+    const prompt = JSON.stringify(mockCreate.mock.calls[0][0].messages);
+    expect(prompt).not.toMatch(/Jane Smith|jane@realty\.com|972-555-0142/);
+    expect(prompt).toContain('[AGENT_NAME_1]');
+    expect(JSON.parse(res._getData()).message).toBe('Call 972-555-0142 to schedule.');
+  });
+
+  it('gives the assistant the market condition', async () => {
+    const { req, res } = createMocks({
+      method: 'POST',
+      body: { message: "Is this a seller's market?", mlsData: testMLSData }
+    });
+
+    await chatHandler(req, res);
+
+    const systemPrompt = mockCreate.mock.calls[0][0].messages[0].content;
+    expect(systemPrompt).toContain('"marketCondition":{"condition":"sellers"');
+    expect(systemPrompt).toContain('3.2 months of supply');
+  });
+
   it('handles missing message', async () => {
     const { req, res } = createMocks({
       method: 'POST',
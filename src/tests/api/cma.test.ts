@@ -0,0 +1,38 @@
+import { createMocks } from 'node-mocks-http';
+import handler from '@/pages/api/cma';
+import type { Property } from '@/types/property';
+
+const subject: Property = {
+  mlsNumber: '20500001',
+  address: '4821 Brookstone Dr',
+  city: 'Plano',
+  bedrooms: 4,
+  bathrooms: '3/0/0',
+  sqft: 3000,
+  yearBuilt: 2005,
+  garage: '2 Car',
+  pool: false,
+  acres: 0.25,
+  pricePerSqft: 0,
+  listPrice: 0
+};
+
+describe('/api/cma', () => {
+  it('answers a CMA that cannot be run with 422 and the reason', async () => {
+    const { req, res } = createMocks({ method: 'POST', body: { subject, closedListings: [] } });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(422);
+    expect(JSON.parse(res._getData())).toEqual({ success: false, message: 'No comparable sales found in Plano' });
+  });
+
+  it('rejects a subject that is not a listing', async () => {
+    const { req, res } = createMocks({ method: 'POST', body: { subject: {}, closedListings: [] } });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData()).message).toBe('subject must be a listing');
+  });
+});
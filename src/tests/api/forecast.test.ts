@@ -0,0 +1,30 @@
+import { createMocks } from 'node-mocks-http';
+import handler from '@/pages/api/forecast';
+
+const priceHistory = [400000, 404000, 409000, 412000, 416000, 421000].map((price, index) => ({
+  date: `2024-${String(index + 1).padStart(2, '0')}`,
+  price,
+  volume: 20
+}));
+
+describe('/api/forecast', () => {
+  it('returns the forecast in the success envelope', async () => {
+    const { req, res } = createMocks({ method: 'POST', body: { priceHistory } });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const data = JSON.parse(res._getData());
+    expect(data.success).toBe(true);
+    expect(data.forecast.nextMonth.priceChange).toBeGreaterThan(0);
+  });
+
+  it('rejects a price history that is not a list of points', async () => {
+    const { req, res } = createMocks({ method: 'POST', body: { priceHistory: 'monthly' } });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(400);
+    expect(JSON.parse(res._getData()).success).toBe(false);
+  });
+});
@@ -0,0 +1,40 @@
+import { createMocks } from 'node-mocks-http';
+import handler from '@/pages/api/investment-analysis';
+import { saveInvestmentAnalysis } from '@/utils/airtable';
+import { DEFAULT_INVESTMENT_ASSUMPTIONS } from '@/utils/investment-analysis';
+
+jest.mock('@/utils/airtable', () => ({
+  saveInvestmentAnalysis: jest.fn().mockResolvedValue('recInsight1')
+}));
+
+const assumptions = { ...DEFAULT_INVESTMENT_ASSUMPTIONS, purchasePrice: 450000, monthlyRent: 2800 };
+
+describe('/api/investment-analysis', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('analyzes the assumptions and saves the analysis against a saved report', async () => {
+    const { req, res } = createMocks({
+      method: 'POST',
+      body: { assumptions, reportId: 'recReport1', mlsNumber: '20500001' }
+    });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(200);
+    const data = JSON.parse(res._getData());
+    expect(data.insightId).toBe('recInsight1');
+    expect(saveInvestmentAnalysis).toHaveBeenCalledWith('recReport1', '20500001', assumptions, data.analysis);
+  });
+
+  it('answers assumptions it cannot analyze with 422 and the reason', async () => {
+    const { req, res } = createMocks({ method: 'POST', body: { assumptions: { ...assumptions, purchasePrice: 0 } } });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(422);
+    expect(JSON.parse(res._getData())).toEqual({ success: false, message: 'The purchase price must be greater than 0' });
+    expect(saveInvestmentAnalysis).not.toHaveBeenCalled();
+  });
+});
@@ -1,19 +1,55 @@
 import { createMocks } from 'node-mocks-http';
 import handler from '@/pages/api/process-pdf';
+import { sampleMLSData } from '../sample-mls-data';
 import formidable from 'formidable';
 import fs from 'fs';
-import pdf from 'pdf-parse';
-import { validateMLSReport, extractMLSData } from '@/utils/mls-validator';
+import { processPDF } from '@/utils/pdf-processor';
+import { saveMLSData } from '@/utils/airtable';
 
 // Mock dependencies
 jest.mock('formidable');
-jest.mock('fs');
-jest.mock('pdf-parse');
-jest.mock('@/utils/mls-validator');
+jest.mock('fs', () => ({
+  promises: {
+    readFile: jest.fn(),
+    unlink: jest.fn(),
+  },
+}));
+jest.mock('@/utils/pdf-processor');
+// Loading thresholds pulls in the Airtable client, which needs the real fs
+jest.mock('@/utils/validation-thresholds', () => ({
+  loadReportThresholds: jest.fn().mockResolvedValue(undefined)
+}));
+jest.mock('@/utils/airtable', () => ({
+  saveMLSData: jest.fn()
+}));
+
+const pdfBuffer = Buffer.from('%PDF-1.4\nSample MLS Report');
+
+const mockFile = {
+  filepath: '/tmp/test.pdf',
+  originalFilename: 'test.pdf',
+  mimetype: 'application/pdf',
+  size: 1024,
+};
+
+// Mock form parsing
+const mockUpload = (files: Record<string, unknown[]>) => {
+  (formidable as jest.Mocked<any>).mockImplementation(() => ({
+    parse: jest.fn().mockResolvedValue([{}, files]),
+  }));
+};
+
+const postRequest = () => createMocks({
+  method: 'POST',
+  headers: {
+    'content-type': 'multipart/form-data',
+  },
+});
 
 describe('/api/process-pdf', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (fs.promises.unlink as jest.Mock).mockResolvedValue(undefined);
   });
 
   it('returns 405 for non-POST requests', async () => {
@@ -26,79 +62,65 @@ describe('/api/process-pdf', () => {
     expect(res._getStatusCode()).toBe(405);
     expect(JSON.parse(res._getData())).toEqual(
       expect.objectContaining({
+        success: false,
         message: 'Method not allowed',
       })
     );
   });
 
   it('handles successful PDF upload and processing', async () => {
-    const mockFile = {
-      filepath: '/tmp/test.pdf',
-      type: 'application/pdf',
-      size: 1024,
-    };
-
     const mockMLSData = {
+      ...sampleMLSData,
       activeListings: [
         {
+          ...sampleMLSData.activeListings[0],
           mlsNumber: 'TEST123',
           address: '123 Test St',
           listPrice: 500000,
         },
       ],
       closedListings: [],
-      statistics: {
-        averageListPrice: 500000,
-        averageDaysOnMarket: 30,
-      },
     };
 
-    // Mock form parsing
-    (formidable as jest.Mocked<any>).mockImplementation(() => ({
-      parse: jest.fn().mockResolvedValue([{}, { file: [mockFile] }]),
-    }));
-
-    // Mock file reading
-    (fs.promises.readFile as jest.Mock).mockResolvedValue(Buffer.from('test'));
-
-    // Mock PDF parsing
-    (pdf as jest.Mock).mockResolvedValue({ text: 'Sample MLS Report' });
-
-    // Mock MLS data extraction
-    (extractMLSData as jest.Mock).mockReturnValue(mockMLSData);
-    (validateMLSReport as jest.Mock).mockReturnValue([]);
-
-    const { req, res } = createMocks({
-      method: 'POST',
-      headers: {
-        'content-type': 'multipart/form-data',
-      },
-    });
+    mockUpload({ file: [mockFile] });
+    (fs.promises.readFile as jest.Mock).mockResolvedValue(pdfBuffer);
+    (processPDF as jest.Mock).mockResolvedValue({ success: true, data: mockMLSData });
 
+    const { req, res } = postRequest();
     await handler(req, res);
 
     expect(res._getStatusCode()).toBe(200);
     expect(JSON.parse(res._getData())).toEqual(
       expect.objectContaining({
-        mlsData: mockMLSData,
+        success: true,
+        mlsData: expect.objectContaining({ activeListings: mockMLSData.activeListings }),
         message: expect.stringContaining('analyzed the MLS report'),
       })
     );
+    expect(processPDF).toHaveBeenCalledWith(pdfBuffer, { persist: undefined });
+    expect(fs.promises.unlink).toHaveBeenCalledWith('/tmp/test.pdf');
   });
 
-  it('handles missing file upload', async () => {
-    // Mock form parsing with no file
-    (formidable as jest.Mocked<any>).mockImplementation(() => ({
-      parse: jest.fn().mockResolvedValue([{}, { file: [] }]),
-    }));
+  it('saves the report to Airtable when it is configured', async () => {
+    const originalApiKey = process.env.AIRTABLE_API_KEY;
+    process.env.AIRTABLE_API_KEY = 'test-key';
+    mockUpload({ file: [mockFile] });
+    (fs.promises.readFile as jest.Mock).mockResolvedValue(pdfBuffer);
+    (processPDF as jest.Mock).mockResolvedValue({ success: true, data: sampleMLSData, reportId: 'recReport1' });
 
-    const { req, res } = createMocks({
-      method: 'POST',
-      headers: {
-        'content-type': 'multipart/form-data',
-      },
-    });
+    const { req, res } = postRequest();
+    await handler(req, res);
+    process.env.AIRTABLE_API_KEY = originalApiKey;
+
+    expect(processPDF).toHaveBeenCalledWith(pdfBuffer, { persist: saveMLSData });
+    expect(res._getStatusCode()).toBe(200);
+    expect(JSON.parse(res._getData()).reportId).toBe('recReport1');
+  });
 
+  it('handles missing file upload', async () => {
+    mockUpload({ file: [] });
+
+    const { req, res } = postRequest();
     await handler(req, res);
 
     expect(res._getStatusCode()).toBe(400);
@@ -109,108 +131,83 @@ describe('/api/process-pdf', () => {
     );
   });
 
-  it('handles validation errors', async () => {
-    const mockFile = {
-      filepath: '/tmp/test.pdf',
-      type: 'application/pdf',
-      size: 1024,
-    };
-
-    // Mock form parsing
+  it('rejects files over the 10MB limit', async () => {
     (formidable as jest.Mocked<any>).mockImplementation(() => ({
-      parse: jest.fn().mockResolvedValue([{}, { file: [mockFile] }]),
+      parse: jest.fn().mockRejectedValue(Object.assign(new Error('maxFileSize exceeded'), { httpCode: 413 })),
     }));
 
-    // Mock file reading
-    (fs.promises.readFile as jest.Mock).mockResolvedValue(Buffer.from('test'));
+    const { req, res } = postRequest();
+    await handler(req, res);
 
-    // Mock PDF parsing
-    (pdf as jest.Mock).mockResolvedValue({ text: 'Sample MLS Report' });
+    expect(res._getStatusCode()).toBe(413);
+    expect(JSON.parse(res._getData()).message).toBe('File size exceeds 10MB limit');
+  });
 
-    // Mock validation error
-    (validateMLSReport as jest.Mock).mockReturnValue(['Invalid data format']);
-
-    const { req, res } = createMocks({
-      method: 'POST',
-      headers: {
-        'content-type': 'multipart/form-data',
-      },
-    });
+  it('rejects files without PDF magic bytes', async () => {
+    mockUpload({ file: [mockFile] });
+    (fs.promises.readFile as jest.Mock).mockResolvedValue(Buffer.from('MLS#12345 not really a pdf'));
 
+    const { req, res } = postRequest();
     await handler(req, res);
 
-    expect(res._getStatusCode()).toBe(500);
-    expect(JSON.parse(res._getData())).toEqual(
-      expect.objectContaining({
-        message: expect.stringContaining('Data validation failed'),
-      })
-    );
+    expect(res._getStatusCode()).toBe(415);
+    expect(JSON.parse(res._getData()).message).toBe('Uploaded file is not a PDF');
+    expect(processPDF).not.toHaveBeenCalled();
   });
 
-  it('handles PDF parsing errors', async () => {
-    const mockFile = {
-      filepath: '/tmp/test.pdf',
-      type: 'application/pdf',
-      size: 1024,
-    };
-
-    // Mock form parsing
-    (formidable as jest.Mocked<any>).mockImplementation(() => ({
-      parse: jest.fn().mockResolvedValue([{}, { file: [mockFile] }]),
-    }));
+  it('handles validation errors', async () => {
+    mockUpload({ file: [mockFile] });
+    (fs.promises.readFile as jest.Mock).mockResolvedValue(pdfBuffer);
+    (processPDF as jest.Mock).mockResolvedValue({
+      success: false,
+      error: 'No listings found in PDF',
+      failedStage: 'validating',
+    });
 
-    // Mock file reading
-    (fs.promises.readFile as jest.Mock).mockResolvedValue(Buffer.from('test'));
+    const { req, res } = postRequest();
+    await handler(req, res);
 
-    // Mock PDF parsing error
-    (pdf as jest.Mock).mockRejectedValue(new Error('Failed to parse PDF'));
+    expect(res._getStatusCode()).toBe(422);
+    expect(JSON.parse(res._getData())).toEqual({
+      success: false,
+      message: 'No listings found in PDF',
+      stage: 'validating',
+    });
+  });
 
-    const { req, res } = createMocks({
-      method: 'POST',
-      headers: {
-        'content-type': 'multipart/form-data',
-      },
+  it('handles PDF parsing errors', async () => {
+    mockUpload({ file: [mockFile] });
+    (fs.promises.readFile as jest.Mock).mockResolvedValue(pdfBuffer);
+    (processPDF as jest.Mock).mockResolvedValue({
+      success: false,
+      error: 'Failed to parse PDF',
+      failedStage: 'parsing',
     });
 
+    const { req, res } = postRequest();
     await handler(req, res);
 
-    expect(res._getStatusCode()).toBe(500);
+    expect(res._getStatusCode()).toBe(422);
     expect(JSON.parse(res._getData())).toEqual(
       expect.objectContaining({
         message: 'Failed to parse PDF',
+        stage: 'parsing',
       })
     );
   });
 
   it('handles file system errors', async () => {
-    const mockFile = {
-      filepath: '/tmp/test.pdf',
-      type: 'application/pdf',
-      size: 1024,
-    };
-
-    // Mock form parsing
-    (formidable as jest.Mocked<any>).mockImplementation(() => ({
-      parse: jest.fn().mockResolvedValue([{}, { file: [mockFile] }]),
-    }));
-
-    // Mock file reading error
+    mockUpload({ file: [mockFile] });
     (fs.promises.readFile as jest.Mock).mockRejectedValue(new Error('File system error'));
 
-    const { req, res } = createMocks({
-      method: 'POST',
-      headers: {
-        'content-type': 'multipart/form-data',
-      },
-    });
-
+    const { req, res } = postRequest();
     await handler(req, res);
 
     expect(res._getStatusCode()).toBe(500);
-    expect(JSON.parse(res._getData())).toEqual(
-      expect.objectContaining({
-        message: expect.stringContaining('File system error'),
-      })
-    );
+    expect(JSON.parse(res._getData())).toEqual({
+      success: false,
+      message: 'Internal server error',
+    });
+    expect(fs.promises.unlink).toHaveBeenCalledWith('/tmp/test.pdf');
   });
-}); 
\ No newline at end of file
+});
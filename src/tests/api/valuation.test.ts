@@ -0,0 +1,41 @@
+import { createMocks } from 'node-mocks-http';
+import handler from '@/pages/api/valuation';
+import { clearStoredSalesCache } from '@/utils/hedonic-valuation';
+import type { Property } from '@/types/property';
+
+jest.mock('@/utils/airtable', () => ({
+  listStoredMLSReports: jest.fn().mockResolvedValue([])
+}));
+
+const listing: Property = {
+  mlsNumber: '20500001',
+  address: '4821 Brookstone Dr',
+  city: 'Plano',
+  bedrooms: 4,
+  bathrooms: '3/0/0',
+  sqft: 3000,
+  yearBuilt: 2005,
+  garage: '2 Car',
+  pool: false,
+  acres: 0.25,
+  pricePerSqft: 0,
+  listPrice: 550000
+};
+
+describe('/api/valuation', () => {
+  beforeEach(() => {
+    clearStoredSalesCache();
+  });
+
+  it('answers with 422 and the reason when there are too few sales to train on', async () => {
+    const closedListings = [{ ...listing, mlsNumber: '20500002', soldPrice: 540000, soldDate: '2024-05-01' }];
+    const { req, res } = createMocks({ method: 'POST', body: { listings: [listing], closedListings } });
+
+    await handler(req, res);
+
+    expect(res._getStatusCode()).toBe(422);
+    const data = JSON.parse(res._getData());
+    expect(data.success).toBe(false);
+    expect(data.message).toMatch(/closed sales with price, square footage, bedrooms and year built are needed; found 1$/);
+  });
+});
@@ -0,0 +1,83 @@
+import { adjustComp, CMA_CRITERIA, DEFAULT_CMA_ADJUSTMENTS, runCMA } from '@/utils/cma';
+import type { Property } from '@/types/property';
+
+const subject: Property = {
+  mlsNumber: '20500001',
+  address: '4821 Brookstone Dr',
+  city: 'Plano',
+  bedrooms: 4,
+  bathrooms: '3/0/0',
+  sqft: 3000,
+  yearBuilt: 2005,
+  garage: '2 Car',
+  pool: false,
+  acres: 0.25,
+  pricePerSqft: 0,
+  listPrice: 0
+};
+
+const sale = (mlsNumber: string, overrides: Partial<Property>): Property => ({
+  ...subject,
+  mlsNumber,
+  address: `${mlsNumber} Elm St`,
+  soldPrice: 575000,
+  soldDate: '2024-05-01',
+  ...overrides
+});
+
+const comps = [
+  sale('C1', { sqft: 3100, yearBuilt: 2006, pool: true, soldPrice: 600000 }),
+  sale('C2', { sqft: 2900, yearBuilt: 2004, garage: '3 Car', soldPrice: 570000, soldDate: '2024-04-15' }),
+  sale('C3', { sqft: 2800, bedrooms: 3, yearBuilt: 2000, soldPrice: 540000, soldDate: '2024-03-01' }),
+  sale('F1', { city: 'Frisco' }),
+  sale('OLD', { soldDate: '2023-01-01' }),
+  sale('BIG', { sqft: 4000, bedrooms: 5 })
+];
+
+describe('CMA', () => {
+  it('adjusts each comp to the subject, feature by feature', () => {
+    expect(adjustComp(subject, comps[0], DEFAULT_CMA_ADJUSTMENTS)).toEqual({
+      listing: comps[0],
+      adjustments: [
+        { feature: 'perSqft', subjectValue: 3000, compValue: 3100, amount: -12000 },
+        { feature: 'pool', subjectValue: 0, compValue: 1, amount: -25000 },
+        { feature: 'perYearBuilt', subjectValue: 2005, compValue: 2006, amount: -1500 }
+      ],
+      netAdjustment: -38500,
+      adjustedPrice: 561500
+    });
+  });
+
+  it('selects comps in the same city, size, bedroom, age and sale window', () => {
+    const result = runCMA(subject, comps, { asOf: '2024-06-01' });
+
+    expect(result.criteria).toBe(CMA_CRITERIA[0]);
+    expect(result.comps.map(comp => comp.listing.mlsNumber)).toEqual(['C1', 'C2', 'C3']);
+    expect(result.comps.map(comp => comp.adjustedPrice)).toEqual([561500, 575500, 581500]);
+    expect(result.suggestedPrice).toBe(576000);
+    expect(result.priceRange).toEqual({ low: 569000, high: 579000 });
+  });
+
+  it('widens the criteria when too few sales match', () => {
+    const result = runCMA(subject, [comps[0], comps[1], sale('C4', { soldDate: '2023-09-01' })], { asOf: '2024-06-01' });
+
+    expect(result.criteria).toBe(CMA_CRITERIA[1]);
+    expect(result.comps).toHaveLength(3);
+  });
+
+  it('applies adjustment overrides', () => {
+    const result = runCMA(subject, comps, { asOf: '2024-06-01', adjustments: { pool: 40000 } });
+    expect(result.comps.find(comp => comp.listing.mlsNumber === 'C1')?.adjustedPrice).toBe(546500);
+  });
+
+  it('never uses the subject as its own comp', () => {
+    const result = runCMA(comps[0], comps, { asOf: '2024-06-01' });
+    expect(result.comps.map(comp => comp.listing.mlsNumber)).not.toContain('C1');
+  });
+
+  it('explains when nothing is comparable', () => {
+    expect(() => runCMA({ ...subject, city: 'Anna' }, comps, { asOf: '2024-06-01' }))
+      .toThrow('No comparable sales found in Anna');
+    expect(() => runCMA({ ...subject, sqft: 0 }, comps)).toThrow('The subject property needs its square footage');
+  });
+});
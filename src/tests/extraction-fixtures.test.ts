@@ -0,0 +1,89 @@
+import {
+  compareReports,
+  formatHarnessReport,
+  loadFixtures,
+  runFixtures,
+  scoreFields
+} from '@/utils/extraction-harness';
+import type { ExpectedReport } from '@/utils/extraction-harness';
+import { buildMLSReport } from '@/utils/mlsDataExtractor';
+import type { Property } from '@/types/property';
+
+const listing: Property = {
+  mlsNumber: '20512345',
+  address: '4821 Brookstone Dr',
+  city: 'Plano',
+  bedrooms: 4,
+  bathrooms: '3/1/0',
+  sqft: 3214,
+  yearBuilt: 2004,
+  garage: '3 Car',
+  pool: true,
+  acres: 0.28,
+  pricePerSqft: 194,
+  listPrice: 625000
+};
+
+describe('Extraction Fixtures', () => {
+  it('extracts every golden fixture exactly', async () => {
+    const fixtures = loadFixtures();
+    expect(fixtures.length).toBeGreaterThan(0);
+
+    const results = await runFixtures(fixtures);
+    const differences = results.filter(result => result.error || result.mismatches.length);
+
+    // Print the field-level diff when a fixture regresses
+    expect(differences.length ? formatHarnessReport(differences) : '').toBe('');
+    scoreFields(results).forEach(score => {
+      expect(score).toMatchObject({ precision: 1, recall: 1 });
+    });
+  });
+
+  describe('compareReports', () => {
+    const expected: ExpectedReport = { activeListings: [listing], closedListings: [] };
+
+    it('counts wrong values against both precision and recall', () => {
+      const result = compareReports('fixture', expected, buildMLSReport([{ ...listing, sqft: 3124 }]));
+
+      expect(result.mismatches).toEqual([
+        { fixture: 'fixture', mlsNumber: '20512345', field: 'sqft', expected: 3214, actual: 3124 }
+      ]);
+      expect(result.counts.sqft).toEqual({ truePositives: 0, falsePositives: 1, falseNegatives: 1 });
+      expect(result.counts.city).toEqual({ truePositives: 1, falsePositives: 0, falseNegatives: 0 });
+    });
+
+    it('counts missing values against recall and extra values against precision', () => {
+      const result = compareReports('fixture', expected, buildMLSReport([
+        { ...listing, city: '', zipCode: '75093' }
+      ]));
+
+      expect(result.counts.city).toEqual({ truePositives: 0, falsePositives: 0, falseNegatives: 1 });
+      expect(result.counts.zipCode).toEqual({ truePositives: 0, falsePositives: 1, falseNegatives: 0 });
+    });
+
+    it('counts every field of a missed or invented listing', () => {
+      const result = compareReports('fixture', expected, buildMLSReport([{ ...listing, mlsNumber: '99999999' }]));
+
+      expect(result.counts.listPrice).toEqual({ truePositives: 0, falsePositives: 1, falseNegatives: 1 });
+      expect(result.mismatches.filter(mismatch => mismatch.mlsNumber === '20512345')).toHaveLength(
+        Object.keys(listing).length
+      );
+    });
+  });
+
+  it('scores precision and recall per field across fixtures', () => {
+    const expected: ExpectedReport = { activeListings: [listing], closedListings: [] };
+    const right = compareReports('a', expected, buildMLSReport([listing]));
+    const wrong = compareReports('b', expected, buildMLSReport([{ ...listing, bedrooms: 5 }]));
+
+    const bedrooms = scoreFields([right, wrong]).find(score => score.field === 'bedrooms');
+    expect(bedrooms).toEqual({
+      field: 'bedrooms',
+      truePositives: 1,
+      falsePositives: 1,
+      falseNegatives: 1,
+      precision: 0.5,
+      recall: 0.5
+    });
+  });
+});
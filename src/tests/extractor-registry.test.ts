@@ -0,0 +1,121 @@
+import {
+  registerExtractor,
+  unregisterExtractor,
+  getRegisteredExtractors,
+  rankExtractors,
+  selectExtractor,
+  runExtraction
+} from '@/utils/extractors';
+import type { MLSExtractor } from '@/utils/extractors';
+import { buildMLSReport } from '@/utils/mlsDataExtractor';
+import type { PositionedPage } from '@/utils/pdf-layout';
+
+const agentFullText = `
+  Matrix Agent Full Report
+  MLS#12345
+  123 Main St, Plano
+  List Price: $500,000
+  4 beds, 2.5 baths
+  2,500 sqft
+
+  MLS#67890
+  456 Oak Ave, Frisco
+  List Price: $600,000
+  3 beds, 2 baths
+  2,000 sqft
+`;
+
+const flyerText = `
+  Just Listed!
+  MLS#24680
+  789 Pecan Ln, McKinney
+  Offered at $425,000
+  3 beds, 2 baths
+  1,900 sqft
+`;
+
+const gridPage: PositionedPage = {
+  pageNumber: 1,
+  text: 'Comparative Market Analysis',
+  items: [
+    ['MLS#', 20], ['Address', 80], ['Beds', 290], ['SqFt', 375], ['List Price', 420]
+  ].map(([text, x]) => ({ text: text as string, x: x as number, y: 740, width: 30, page: 1 }))
+    .concat([
+      ['1400000', 20], ['100 Elm Trail', 80], ['4', 290], ['2,500', 375], ['$500,000', 420]
+    ].map(([text, x]) => ({ text: text as string, x: x as number, y: 720, width: 30, page: 1 })))
+};
+
+describe('Extractor Registry', () => {
+  it('registers the built-in layouts', () => {
+    expect(getRegisteredExtractors().map(e => e.name)).toEqual(
+      expect.arrayContaining(['ntreis-agent-full', 'cma-summary', 'listing-flyer'])
+    );
+  });
+
+  it('detects NTREIS Agent Full reports', () => {
+    const match = selectExtractor({ text: agentFullText, pages: [] });
+    expect(match?.extractor.name).toBe('ntreis-agent-full');
+    expect(match?.confidence).toBeGreaterThan(0.5);
+  });
+
+  it('detects one-page listing flyers', () => {
+    const match = selectExtractor({ text: flyerText, pages: [] });
+    expect(match?.extractor.name).toBe('listing-flyer');
+  });
+
+  it('prefers the CMA grid extractor when positioned rows are available', () => {
+    const match = selectExtractor({ text: gridPage.text, pages: [gridPage] });
+    expect(match?.extractor.name).toBe('cma-summary');
+  });
+
+  it('ranks extractors by confidence', () => {
+    const ranked = rankExtractors({ text: flyerText, pages: [] });
+    const confidences = ranked.map(m => m.confidence);
+    expect(confidences).toEqual([...confidences].sort((a, b) => b - a));
+  });
+
+  it('records which extractor and version produced the report', () => {
+    const { report } = runExtraction({ text: agentFullText, pages: [] });
+
+    expect(report.activeListings).toHaveLength(2);
+    expect(report.extraction).toEqual({
+      extractor: 'ntreis-agent-full',
+      version: '1.0.0',
+      confidence: 0.9
+    });
+  });
+
+  it('reads flyer prices advertised as "Offered at"', () => {
+    const { report } = runExtraction({ text: flyerText, pages: [] });
+    expect(report.activeListings[0].listPrice).toBe(425000);
+  });
+
+  describe('custom extractors', () => {
+    const customExtractor: MLSExtractor = {
+      name: 'test-custom-layout',
+      version: '2.1.0',
+      description: 'Test layout',
+      detect: ({ text }) => (text.includes('CUSTOM LAYOUT') ? 1 : 0),
+      extract: () => ({ report: buildMLSReport([]), provenance: [] })
+    };
+
+    beforeEach(() => registerExtractor(customExtractor));
+    afterEach(() => unregisterExtractor(customExtractor.name));
+
+    it('runs a newly registered layout without pipeline changes', () => {
+      const { report } = runExtraction({ text: 'CUSTOM LAYOUT', pages: [] });
+      expect(report.extraction?.extractor).toBe('test-custom-layout');
+      expect(report.extraction?.version).toBe('2.1.0');
+    });
+
+    it('ignores extractors that throw during detection', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      registerExtractor({ ...customExtractor, name: 'test-broken', detect: () => { throw new Error('boom'); } });
+
+      expect(selectExtractor({ text: 'CUSTOM LAYOUT', pages: [] })?.extractor.name).toBe('test-custom-layout');
+
+      unregisterExtractor('test-broken');
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { parseBathrooms, parseDate, parseGarage, parseListingStatus, parsePrice, parseYesNo } from '@/utils/field-parsers';
+import { extractMLSData } from '@/utils/mlsDataExtractor';
+
+describe('Field Parsers', () => {
+  describe('parseDate', () => {
+    it.each([
+      ['2024-02-15', '2024-02-15'],
+      ['2/15/2024', '2024-02-15'],
+      ['02/15/24', '2024-02-15'],
+      ['Feb 15, 2024', '2024-02-15'],
+      ['February 15 2024', '2024-02-15'],
+      ['15-Feb-2024', '2024-02-15']
+    ])('parses %s', (raw, expected) => {
+      expect(parseDate(raw)).toBe(expected);
+    });
+
+    it('rejects invalid dates', () => {
+      expect(parseDate('Invalid Date')).toBeUndefined();
+      expect(parseDate('2/30/2024')).toBeUndefined();
+    });
+  });
+
+  describe('parsePrice', () => {
+    it.each([
+      ['$1,234,567.00', 1234567],
+      ['500000', 500000],
+      ['$450K', 450000],
+      ['$1.2M', 1200000],
+      ['1.25m', 1250000]
+    ])('parses %s', (raw, expected) => {
+      expect(parsePrice(raw)).toBe(expected);
+    });
+
+    it('rejects values that are not prices', () => {
+      expect(parsePrice('$NaN')).toBeUndefined();
+      expect(parsePrice('$0')).toBeUndefined();
+      expect(parsePrice('450KB')).toBeUndefined();
+    });
+  });
+
+  it('parses bath notation', () => {
+    expect(parseBathrooms('3/1')).toBe('3/1/0');
+    expect(parseBathrooms('2.5')).toBe('2/1/0');
+    expect(parseBathrooms('2')).toBe('2/0/0');
+  });
+
+  it('parses garage and yes/no flags', () => {
+    expect(parseGarage('2')).toBe('2 Car');
+    expect(parseGarage('3-car attached')).toBe('3 Car');
+    expect(parseYesNo('Y')).toBe(true);
+    expect(parseYesNo('None')).toBe(false);
+  });
+
+  it('parses MLS listing statuses', () => {
+    expect(parseListingStatus('ACT')).toBe('Active');
+    expect(parseListingStatus('Active Under Contract')).toBe('Pending');
+    expect(parseListingStatus('PND')).toBe('Pending');
+    expect(parseListingStatus('Sold')).toBe('Closed');
+    expect(parseListingStatus('Cancelled')).toBe('Canceled');
+    expect(parseListingStatus('Coming Soon')).toBeUndefined();
+  });
+});
+
+describe('Full Property extraction', () => {
+  const report = extractMLSData(`
+    MLS#24680
+    812 Rolling Hills Trail, Allen, TX 75013
+    Sq Ft: 2,400
+    List Price: $480,000
+    Sold Price: $468,000
+    List Date: 01/05/2024
+    Close Date: Feb 4, 2024
+    Bedrooms: 4
+    Full Baths: 3
+    Half Baths: 1
+    Year Built: 2012
+    Garage Spaces: 3
+    Pool: Yes
+    Lot Acres: 0.31
+  `);
+  const listing = report.closedListings[0];
+
+  it('reads every Property field', () => {
+    expect(listing).toMatchObject({
+      bedrooms: 4,
+      bathrooms: '3/1/0',
+      sqft: 2400,
+      yearBuilt: 2012,
+      garage: '3 Car',
+      pool: true,
+      acres: 0.31,
+      listDate: '2024-01-05',
+      soldDate: '2024-02-04'
+    });
+  });
+
+  it('derives computed fields after all values are read', () => {
+    expect(listing.pricePerSqft).toBe(200);
+    expect(listing.saleToListRatio).toBe(0.975);
+    expect(listing.daysOnMarket).toBe(30);
+  });
+
+  it('reads "3/1" bath notation', () => {
+    const [property] = extractMLSData('MLS#13579\n4 beds, 3/1 baths\nList Price: $400,000').activeListings;
+    expect(property.bathrooms).toBe('3/1/0');
+  });
+
+  it('does not read a tax year as the year built', () => {
+    const [property] = extractMLSData('MLS#13579\nList Price: $400,000\nTax Year: 2023\nYear Built: 1998').activeListings;
+    expect(property.yearBuilt).toBe(1998);
+
+    const [untaxed] = extractMLSData('MLS#13580\nList Price: $400,000\nTax Year: 2023').activeListings;
+    expect(untaxed.yearBuilt).toBe(0);
+  });
+
+  it('reads labelled prices written in thousands or millions', () => {
+    const [property] = extractMLSData('MLS#13579\nList Price: $1.2M\nSold Price: $1,150K').closedListings;
+    expect(property).toMatchObject({ listPrice: 1200000, soldPrice: 1150000 });
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  bathroomCount,
+  clearStoredSalesCache,
+  fitValuationModel,
+  loadStoredClosedSales,
+  valueListing
+} from '@/utils/hedonic-valuation';
+import { listStoredMLSReports } from '@/utils/airtable';
+import { buildMLSReport } from '@/utils/mlsDataExtractor';
+import type { Property } from '@/types/property';
+
+jest.mock('@/utils/airtable', () => ({
+  listStoredMLSReports: jest.fn()
+}));
+
+const mockListStoredMLSReports = listStoredMLSReports as jest.Mock;
+
+const home = (overrides: Partial<Property>): Property => ({
+  mlsNumber: '1',
+  address: '100 Elm St',
+  city: 'Plano',
+  bedrooms: 4,
+  bathrooms: '3/0/0',
+  sqft: 2500,
+  yearBuilt: 2005,
+  garage: '2 Car',
+  pool: false,
+  acres: 0.25,
+  pricePerSqft: 0,
+  listPrice: 0,
+  ...overrides
+});
+
+// What the market pays for each feature in these sales
+const truePrice = (listing: Property) =>
+  100000 + 150 * listing.sqft + 10000 * listing.bedrooms + 5000 * bathroomCount(listing.bathrooms) +
+  1000 * (listing.yearBuilt - 2000) + 20000 * listing.acres + (listing.pool ? 30000 : 0) +
+  (listing.city === 'Frisco' ? 50000 : 0);
+
+const sales = Array.from({ length: 24 }, (_, i) => {
+  const listing = home({
+    mlsNumber: `S${i}`,
+    city: i % 4 < 2 ? 'Plano' : 'Frisco',
+    sqft: 2000 + (i * 137) % 1500,
+    bedrooms: 3 + (i % 3),
+    bathrooms: i % 2 ? '2/1/0' : '3/0/0',
+    yearBuilt: 1990 + (i * 7) % 30,
+    acres: 0.2 + (i % 5) * 0.1,
+    pool: i % 3 === 0
+  });
+  // A little noise, as in real sales
+  return { ...listing, soldPrice: Math.round(truePrice(listing) + ((i * 7919) % 11 - 5) * 1000) };
+});
+
+describe('Hedonic Valuation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearStoredSalesCache();
+  });
+
+  it('learns what each feature adds to the price', () => {
+    const model = fitValuationModel(sales);
+
+    expect(model.sampleSize).toBe(24);
+    expect(model.baselineCity).toBe('Plano');
+    expect(model.rSquared).toBeGreaterThan(0.95);
+    expect(Math.abs(model.coefficients.sqft - 150)).toBeLessThan(10);
+    expect(Math.abs(model.coefficients.pool - 30000)).toBeLessThan(5000);
+    expect(Math.abs(model.cityEffects.Frisco - 50000)).toBeLessThan(5000);
+  });
+
+  it('estimates a listing with an interval and per-feature contributions', () => {
+    const model = fitValuationModel(sales);
+    const listing = home({ mlsNumber: 'A1', city: 'Frisco', sqft: 3000, pool: true, listPrice: 700000 });
+    const valuation = valueListing(model, listing);
+
+    expect(Math.abs(valuation.estimatedValue - truePrice(listing))).toBeLessThan(10000);
+    expect(valuation.confidenceInterval.low).toBeLessThan(valuation.estimatedValue);
+    expect(valuation.confidenceInterval.high).toBeGreaterThan(valuation.estimatedValue);
+    expect(valuation.contributions.map(contribution => contribution.feature))
+      .toEqual(['sqft', 'bedrooms', 'bathrooms', 'yearBuilt', 'acres', 'pool', 'city']);
+    const total = valuation.contributions.reduce((sum, contribution) => sum + contribution.amount, model.baseline);
+    expect(Math.abs(total - valuation.estimatedValue)).toBeLessThanOrEqual(500);
+  });
+
+  it('flags list prices outside the prediction interval', () => {
+    const model = fitValuationModel(sales);
+    const listing = home({ mlsNumber: 'A1' });
+    const estimate = valueListing(model, listing).estimatedValue;
+
+    expect(valueListing(model, { ...listing, listPrice: estimate }).flag).toBeNull();
+    expect(valueListing(model, { ...listing, listPrice: Math.round(estimate * 1.4) })).toMatchObject({
+      flag: 'above-estimate',
+      priceGap: 0.4
+    });
+    expect(valueListing(model, { ...listing, listPrice: Math.round(estimate * 0.7) }).flag).toBe('below-estimate');
+  });
+
+  it('leaves out features that never vary', () => {
+    const model = fitValuationModel(sales.map(sale => ({ ...sale, pool: false })));
+    expect(model.coefficients.pool).toBe(0);
+    expect(model.columns).not.toContain('pool');
+  });
+
+  it('needs enough complete sales', () => {
+    expect(() => fitValuationModel(sales.slice(0, 6)))
+      .toThrow('At least 10 closed sales with price, square footage, bedrooms and year built are needed; found 6');
+  });
+
+  it('loads each stored sale once and caches them', async () => {
+    const originalApiKey = process.env.AIRTABLE_API_KEY;
+    process.env.AIRTABLE_API_KEY = 'test-key';
+    mockListStoredMLSReports.mockResolvedValue([
+      { reportId: 'rec2', uploadDate: '2024-06-01', source: null, report: buildMLSReport(sales.slice(0, 12)) },
+      { reportId: 'rec1', uploadDate: '2024-05-01', source: null, report: buildMLSReport(sales.slice(6)) }
+    ]);
+
+    expect(await loadStoredClosedSales()).toHaveLength(24);
+    await loadStoredClosedSales();
+    expect(mockListStoredMLSReports).toHaveBeenCalledTimes(1);
+
+    process.env.AIRTABLE_API_KEY = originalApiKey;
+  });
+});
@@ -56,8 +56,8 @@ describe('Market Analysis Integration', () => {
     const statsContent = within(stats);
 
     const { statistics } = mockMLSData;
-    expect(statsContent.getByText(`$${statistics.averagePrice.toLocaleString()}`)).toBeInTheDocument();
-    expect(statsContent.getByText(`$${statistics.medianPrice.toLocaleString()}`)).toBeInTheDocument();
+    expect(statsContent.getByText(`$${statistics.averagePrice?.toLocaleString()}`)).toBeInTheDocument();
+    expect(statsContent.getByText(`$${statistics.medianPrice?.toLocaleString()}`)).toBeInTheDocument();
     expect(statsContent.getByText(statistics.totalActiveListings.toString())).toBeInTheDocument();
     expect(statsContent.getByText(statistics.totalClosedSales.toString())).toBeInTheDocument();
   });
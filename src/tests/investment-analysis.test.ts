@@ -0,0 +1,96 @@
+import {
+  analyzeInvestment,
+  internalRateOfReturn,
+  investmentAssumptionsFor,
+  loanBalance,
+  monthlyMortgagePayment
+} from '@/utils/investment-analysis';
+import type { InvestmentAssumptions } from '@/types/investment';
+import type { Property } from '@/types/property';
+
+const assumptions: InvestmentAssumptions = {
+  purchasePrice: 300000,
+  downPaymentRate: 0.25,
+  interestRate: 0.06,
+  loanTermYears: 30,
+  closingCostRate: 0.03,
+  monthlyRent: 2500,
+  vacancyRate: 0.05,
+  propertyTaxRate: 0.02,
+  annualInsurance: 1800,
+  monthlyHOA: 50,
+  maintenanceRate: 0.05,
+  managementRate: 0.08,
+  holdYears: 5,
+  appreciationRate: 0.03,
+  rentGrowthRate: 0.02,
+  sellingCostRate: 0.06
+};
+
+describe('Investment Analysis', () => {
+  it('amortizes the loan', () => {
+    expect(monthlyMortgagePayment(225000, 0.06, 30)).toBeCloseTo(1348.99, 2);
+    expect(monthlyMortgagePayment(120000, 0, 10)).toBe(1000);
+    expect(loanBalance(225000, 0.06, 30, 0)).toBe(225000);
+    expect(loanBalance(225000, 0.06, 30, 360)).toBeCloseTo(0, 4);
+  });
+
+  it('finds the rate that discounts the cash flows to zero', () => {
+    expect(internalRateOfReturn([-100, 110])).toBeCloseTo(0.1, 6);
+    expect(internalRateOfReturn([-1000, 0, 0, 1331])).toBeCloseTo(0.1, 6);
+    expect(internalRateOfReturn([100, 50])).toBeNull();
+  });
+
+  it('computes first-year returns', () => {
+    expect(analyzeInvestment(assumptions)).toMatchObject({
+      loanAmount: 225000,
+      cashInvested: 84000,
+      monthlyMortgage: 1349,
+      effectiveGrossIncome: 28500,
+      // $6,000 tax + $1,800 insurance + $600 HOA + $1,500 maintenance + $2,280 management
+      operatingExpenses: 12180,
+      netOperatingIncome: 16320,
+      capRate: 0.0544,
+      monthlyCashFlow: 11,
+      cashOnCashReturn: 0.0016,
+      dscr: 1.01
+    });
+  });
+
+  it('grows rent and sells at the appreciated value at the end of the hold', () => {
+    const { years, irr } = analyzeInvestment(assumptions);
+
+    expect(years).toHaveLength(5);
+    expect(years[1].netOperatingIncome).toBe(Math.round(16320 * 1.02));
+    expect(years.slice(0, 4).every(year => year.saleProceeds === 0)).toBe(true);
+    const balance = loanBalance(225000, 0.06, 30, 60);
+    expect(years[4].saleProceeds).toBe(Math.round(300000 * Math.pow(1.03, 5) * 0.94 - balance));
+    expect(irr).toBe(0.0773);
+  });
+
+  it('leaves out debt ratios for an all-cash purchase', () => {
+    const analysis = analyzeInvestment({ ...assumptions, downPaymentRate: 1, closingCostRate: 0 });
+
+    expect(analysis.loanAmount).toBe(0);
+    expect(analysis.dscr).toBeNull();
+    expect(analysis.cashOnCashReturn).toBe(analysis.capRate);
+  });
+
+  it('rejects assumptions it cannot analyze', () => {
+    expect(() => analyzeInvestment({ ...assumptions, purchasePrice: 0 }))
+      .toThrow('The purchase price must be greater than 0');
+    expect(() => analyzeInvestment({ ...assumptions, holdYears: 2.5 }))
+      .toThrow('The hold period must be 1 to 30 whole years');
+    expect(() => analyzeInvestment({ ...assumptions, vacancyRate: -0.1 }))
+      .toThrow('Assumptions must be numbers of 0 or more: vacancyRate');
+  });
+
+  it('starts a listing at its sold price with the default assumptions', () => {
+    const listing = { mlsNumber: '20500001', listPrice: 0, soldPrice: 415000 } as Property;
+    expect(investmentAssumptionsFor(listing, 3200)).toMatchObject({
+      purchasePrice: 415000,
+      monthlyRent: 3200,
+      holdYears: 5
+    });
+  });
+});
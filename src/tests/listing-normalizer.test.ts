@@ -0,0 +1,89 @@
+import { normalizeListing, normalizeReport, revertRepair } from '@/utils/listing-normalizer';
+import { buildMLSReport } from '@/utils/mlsDataExtractor';
+import type { Property } from '@/types/property';
+
+const listing: Property = {
+  mlsNumber: '20512345',
+  address: '4821 Brookstone Dr',
+  city: 'Plano',
+  bedrooms: 4,
+  bathrooms: '3/1/0',
+  sqft: 3214,
+  yearBuilt: 2004,
+  garage: '3 Car',
+  pool: true,
+  acres: 0.28,
+  pricePerSqft: 140,
+  listPrice: 450000
+};
+
+describe('Listing Normalizer', () => {
+  it('converts decimal bathrooms to full/half/quarter', () => {
+    const { listing: repaired, repairs } = normalizeListing({ ...listing, bathrooms: '2.5' });
+
+    expect(repaired.bathrooms).toBe('2/1/0');
+    expect(repairs).toEqual([{
+      id: '20512345:decimal-bathrooms',
+      mlsNumber: '20512345',
+      rule: 'decimal-bathrooms',
+      message: 'Converted 2.5 baths to 2/1/0',
+      changes: [{ field: 'bathrooms', from: '2.5', to: '2/1/0' }]
+    }]);
+  });
+
+  it('swaps square footage and list price and recomputes the price per square foot', () => {
+    const { listing: repaired, repairs } = normalizeListing({ ...listing, sqft: 450000, listPrice: 3214, pricePerSqft: 0 });
+
+    expect(repaired).toMatchObject({ sqft: 3214, listPrice: 450000, pricePerSqft: 140 });
+    expect(repairs.map(repair => repair.rule)).toEqual(['swapped-sqft-price']);
+    expect(repairs[0].changes).toEqual([
+      { field: 'sqft', from: 450000, to: 3214 },
+      { field: 'listPrice', from: 3214, to: 450000 },
+      { field: 'pricePerSqft', from: 0, to: 140 }
+    ]);
+  });
+
+  it('leaves small prices such as monthly rents as they are', () => {
+    const { repairs } = normalizeListing({ ...listing, listPrice: 2450, soldPrice: 2400, pricePerSqft: 0.76 });
+
+    expect(repairs).toEqual([]);
+  });
+
+  it('converts lot sizes stated in square feet to acres', () => {
+    const { listing: repaired, repairs } = normalizeListing({ ...listing, acres: 12197 });
+
+    expect(repaired.acres).toBe(0.28);
+    expect(repairs[0].changes).toEqual([{ field: 'acres', from: 12197, to: 0.28 }]);
+  });
+
+  it('leaves a clean report as it is', () => {
+    const report = buildMLSReport([listing]);
+    const result = normalizeReport(report);
+
+    expect(result.report).toBe(report);
+    expect(result.repairs).toEqual([]);
+  });
+
+  it('recomputes the statistics and can revert each repair', () => {
+    const extracted = buildMLSReport([
+      { ...listing, sqft: 450000, listPrice: 3214, pricePerSqft: 0 },
+      { ...listing, mlsNumber: '20512346', bathrooms: '3.5' }
+    ]);
+    const { report, repairs } = normalizeReport(extracted);
+
+    expect(repairs.map(repair => repair.id)).toEqual(['20512345:swapped-sqft-price', '20512346:decimal-bathrooms']);
+    expect(report.statistics.averageListPrice).toBe(450000);
+
+    const reverted = revertRepair(report, repairs[0]);
+    expect(reverted.activeListings[0]).toMatchObject({ sqft: 450000, listPrice: 3214, pricePerSqft: 0 });
+    expect(reverted.activeListings[1].bathrooms).toBe('3/1/0');
+    expect(reverted.statistics.averageListPrice).toBe(226607);
+  });
+
+  it('does not revert a value changed after the repair', () => {
+    const { report, repairs } = normalizeReport(buildMLSReport([{ ...listing, bathrooms: '2.5' }]));
+    const edited = { ...report, activeListings: [{ ...report.activeListings[0], bathrooms: '2/0/1' }] };
+
+    expect(revertRepair(edited, repairs[0]).activeListings[0].bathrooms).toBe('2/0/1');
+  });
+});
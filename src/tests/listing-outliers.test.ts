@@ -0,0 +1,101 @@
+import { describeOutlier, detectListingOutliers } from '@/utils/listing-outliers';
+import { validateReport } from '@/utils/validation-profiles';
+import { buildMLSReport } from '@/utils/mlsDataExtractor';
+import type { Property } from '@/types/property';
+
+const listing = (mlsNumber: string, pricePerSqft: number, overrides: Partial<Property> = {}): Property => ({
+  mlsNumber,
+  address: '4821 Brookstone Dr',
+  city: 'Plano',
+  bedrooms: 4,
+  bathrooms: '3/1/0',
+  sqft: 3000,
+  yearBuilt: 2004,
+  garage: '3 Car',
+  pool: true,
+  acres: 0.28,
+  pricePerSqft,
+  listPrice: pricePerSqft * 3000,
+  ...overrides
+});
+
+// Five comparable listings and one whose price lost a digit
+const cohort = [
+  listing('1', 190),
+  listing('2', 195),
+  listing('3', 200),
+  listing('4', 205),
+  listing('5', 210),
+  listing('6', 20)
+];
+
+describe('Listing Outliers', () => {
+  it('flags a price per square foot far from its cohort', () => {
+    const outliers = detectListingOutliers(cohort);
+
+    expect(outliers).toEqual([{
+      index: 5,
+      mlsNumber: '6',
+      cohort: 'Plano, 4 bd, 2500-3500 sqft, built 2000-2014',
+      pricePerSqft: 20,
+      cohortMedian: 198,
+      cohortSize: 6,
+      robustZScore: -16
+    }]);
+    expect(describeOutlier(outliers[0])).toBe(
+      'Price per sqft $20 is far below the $198 median of 6 comparable listings ' +
+      '(Plano, 4 bd, 2500-3500 sqft, built 2000-2014)'
+    );
+  });
+
+  it('widens the cohort until it has enough listings', () => {
+    const mixed = cohort.map((item, index) => (index % 2 ? { ...item, yearBuilt: 1975 } : item));
+    expect(detectListingOutliers(mixed).map(outlier => outlier.cohort)).toEqual(['Plano, 4 bd, 2500-3500 sqft']);
+
+    const otherCity = [...cohort.slice(0, 4), { ...cohort[5], city: 'Frisco' }];
+    expect(detectListingOutliers(otherCity)).toEqual([]);
+  });
+
+  it('uses the mean absolute deviation when most of the cohort shares a value', () => {
+    const outliers = detectListingOutliers([
+      listing('1', 200),
+      listing('2', 200),
+      listing('3', 200),
+      listing('4', 200),
+      listing('5', 210),
+      listing('6', 2000)
+    ]);
+
+    expect(outliers.map(outlier => outlier.mlsNumber)).toEqual(['6']);
+  });
+
+  it('does not flag a modest difference in a tight cohort', () => {
+    expect(detectListingOutliers([...cohort.slice(0, 5).map(item => ({ ...item, pricePerSqft: 200 })), listing('6', 250)]))
+      .toEqual([]);
+  });
+
+  it('skips listings without a price per square foot', () => {
+    expect(detectListingOutliers([...cohort.slice(0, 5), listing('6', 0)])).toEqual([]);
+  });
+
+  it('leaves outliers out of the price statistics unless asked to include them', () => {
+    const statistics = buildMLSReport(cohort).statistics;
+    expect(statistics).toMatchObject({ pricePerSquareFoot: 200, averageListPrice: 600000, outliersExcluded: 1 });
+    expect(statistics.totalActiveListings).toBe(6);
+
+    expect(buildMLSReport(cohort, { includeOutliers: true }).statistics)
+      .toMatchObject({ pricePerSquareFoot: 170, averageListPrice: 510000, outliersExcluded: 0 });
+  });
+
+  it('reports outliers as display warnings', () => {
+    const issues = validateReport(buildMLSReport(cohort), 'display').issues
+      .filter(issue => issue.ruleId === 'listing-outliers');
+
+    expect(issues).toEqual([{
+      field: 'activeListings[5].pricePerSqft',
+      severity: 'warning',
+      ruleId: 'listing-outliers',
+      message: expect.stringContaining('Price per sqft $20 is far below')
+    }]);
+  });
+});
@@ -0,0 +1,101 @@
+import { classifyCities, classifyMarket } from '@/utils/market-condition';
+import { DEFAULT_VALIDATION_THRESHOLDS } from '@/utils/market-data-validator';
+import { buildMLSReport } from '@/utils/mlsDataExtractor';
+import { mockMLSData } from '@/tests/test-utils';
+import type { Property, Statistics } from '@/types/property';
+
+const stats = (overrides: Partial<Statistics>): Statistics => ({
+  ...mockMLSData.statistics,
+  monthsOfSupply: null,
+  averageDaysOnMarket: null,
+  absorptionRate: null,
+  listToSoldRatio: null,
+  ...overrides
+});
+
+const sale = (mlsNumber: string, city: string): Property => ({
+  mlsNumber,
+  address: `${mlsNumber} Elm St`,
+  city,
+  bedrooms: 4,
+  bathrooms: '3/0/0',
+  sqft: 2500,
+  yearBuilt: 2005,
+  garage: '2 Car',
+  pool: false,
+  acres: 0.25,
+  pricePerSqft: 200,
+  listPrice: 500000,
+  soldPrice: 465000,
+  soldDate: '2024-05-01',
+  daysOnMarket: 90
+});
+
+describe('Market Condition', () => {
+  it("labels a seller's market and explains which indicators drove it", () => {
+    const result = classifyMarket(stats({
+      monthsOfSupply: 2,
+      averageDaysOnMarket: 20,
+      absorptionRate: 70,
+      listToSoldRatio: 0.99
+    }));
+
+    expect(result).toMatchObject({ condition: 'sellers', score: 1, missingIndicators: [] });
+    expect(result?.explanation).toBe(
+      "Seller's market (score 1). 2 months of supply, 20 average days on market, 70% monthly absorption " +
+      "and a 99.0% sold-to-list ratio point to a seller's market."
+    );
+  });
+
+  it('scores indicators between the thresholds and weights months of supply the most', () => {
+    const result = classifyMarket(stats({
+      monthsOfSupply: 7,
+      averageDaysOnMarket: 45,
+      absorptionRate: 50,
+      listToSoldRatio: 0.99
+    }));
+
+    expect(result?.indicators.map(signal => [signal.indicator, signal.score, signal.condition])).toEqual([
+      ['monthsOfSupply', -1, 'buyers'],
+      ['daysOnMarket', 0, 'balanced'],
+      ['absorptionRate', 0, 'balanced'],
+      ['listToSoldRatio', 1, 'sellers']
+    ]);
+    expect(result).toMatchObject({ condition: 'balanced', score: -0.2 });
+    expect(result?.explanation).toBe(
+      'Balanced market (score -0.2). 45 average days on market and 50% monthly absorption point to a balanced market. ' +
+      "7 months of supply points to a buyer's market instead. " +
+      "A 99.0% sold-to-list ratio points to a seller's market instead."
+    );
+  });
+
+  it('classifies from the indicators that are known', () => {
+    const result = classifyMarket(stats({ averageDaysOnMarket: 90, listToSoldRatio: 0.93 }));
+
+    expect(result).toMatchObject({ condition: 'buyers', score: -1, missingIndicators: ['monthsOfSupply', 'absorptionRate'] });
+    expect(result?.explanation).toContain('Not enough data for months of supply and absorption.');
+    expect(classifyMarket(stats({}))).toBeNull();
+  });
+
+  it('uses the thresholds configured for the market', () => {
+    const statistics = stats({ monthsOfSupply: 4.5 });
+    expect(classifyMarket(statistics)?.condition).toBe('balanced');
+    expect(classifyMarket(statistics, {
+      ...DEFAULT_VALIDATION_THRESHOLDS,
+      BUYERS_MARKET_MIN_MONTHS_SUPPLY: 8,
+      SELLERS_MARKET_MAX_MONTHS_SUPPLY: 5
+    })?.condition).toBe('sellers');
+  });
+
+  it('classifies each city with enough listings', () => {
+    const listings = [
+      ...Array.from({ length: 10 }, (_, i) => sale(`P${i}`, 'Plano')),
+      ...Array.from({ length: 3 }, (_, i) => sale(`F${i}`, 'Frisco'))
+    ];
+
+    const results = classifyCities(buildMLSReport(listings));
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ segment: 'Plano', condition: 'buyers' });
+  });
+});
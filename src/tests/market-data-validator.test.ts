@@ -5,6 +5,7 @@ import {
   validateSchoolInfo,
   validateDemographicMetric,
   validateProperty,
+  collectMLSReportIssues,
   ValidationError
 } from '@/utils/market-data-validator';
 import { mockMLSData } from '@/tests/test-utils';
@@ -828,4 +829,136 @@ describe('Market Data Validator', () => {
       });
     });
   });
-}); 
\ No newline at end of file
+}); 
+
+describe('collectMLSReportIssues', () => {
+  const listing: Property = {
+    mlsNumber: 'MLS123',
+    address: '123 Test St',
+    city: 'Test City',
+    listPrice: 500000,
+    sqft: 2000,
+    bedrooms: 3,
+    bathrooms: '2/1/0',
+    yearBuilt: 2000,
+    garage: '2 car attached',
+    pool: false,
+    acres: 0.25,
+    pricePerSqft: 250
+  };
+
+  it('reports every issue instead of stopping at the first', () => {
+    const report: MLSReport = {
+      ...mockMLSData,
+      schoolDistricts: [{ ...mockMLSData.schoolDistricts[0], rating: 11 }],
+      demographicAnalysis: {
+        ...mockMLSData.demographicAnalysis,
+        medianAge: { ...mockMLSData.demographicAnalysis.medianAge, value: -3 }
+      },
+      activeListings: [{ ...listing, listPrice: -100000 }]
+    };
+
+    const issues = collectMLSReportIssues(report);
+
+    expect(issues).toEqual(expect.arrayContaining([
+      {
+        field: 'schoolDistricts[0].rating',
+        severity: 'error',
+        ruleId: 'school-rating',
+        message: 'Invalid school district at index 0: Invalid school rating. Must be between 0 and 10'
+      },
+      {
+        field: 'demographicAnalysis.medianAge.value',
+        severity: 'warning',
+        ruleId: 'demographic-value',
+        message: 'Invalid demographic metric for medianAge: Invalid demographic value. Must be a positive number'
+      },
+      {
+        field: 'activeListings[0].listPrice',
+        severity: 'error',
+        ruleId: 'property-list-price',
+        message: 'Invalid property in activeListings at index 0: Invalid list price. Must be a positive number'
+      }
+    ]));
+  });
+
+  // The mock's forecast reads percentages as fractions, an implausible 800% a year
+  const usableReport: MLSReport = {
+    ...mockMLSData,
+    marketTrends: {
+      ...mockMLSData.marketTrends,
+      forecast: { ...mockMLSData.marketTrends.forecast, nextYear: { priceChange: 0.08, confidence: 0.65 } }
+    }
+  };
+
+  it('finds no errors in a usable report', () => {
+    const issues = collectMLSReportIssues(usableReport);
+    expect(issues.filter(issue => issue.severity === 'error')).toEqual([]);
+  });
+
+  it('grades low forecast confidence as info', () => {
+    const report: MLSReport = {
+      ...mockMLSData,
+      marketTrends: {
+        ...mockMLSData.marketTrends,
+        forecast: { ...mockMLSData.marketTrends.forecast, nextMonth: { priceChange: 0.01, confidence: 0.3 } }
+      }
+    };
+
+    expect(collectMLSReportIssues(report)).toContainEqual({
+      field: 'marketTrends.forecast.nextMonth.confidence',
+      severity: 'info',
+      ruleId: 'forecast-low-confidence',
+      message: 'Forecast confidence is below 50%'
+    });
+  });
+
+  it('reports a malformed section once and skips its remaining rules', () => {
+    const report = {
+      ...mockMLSData,
+      marketTrends: { ...mockMLSData.marketTrends, priceHistory: [{ date: 'invalid', price: -1 }] }
+    } as unknown as MLSReport;
+
+    const trendIssues = collectMLSReportIssues(report).filter(issue => issue.field.startsWith('marketTrends'));
+    expect(trendIssues).toEqual([{
+      field: 'marketTrends',
+      severity: 'error',
+      ruleId: 'market-trends-structure',
+      message: 'Invalid market trends structure'
+    }]);
+  });
+
+  it('accepts statistics a report could not derive and rejects malformed ones', () => {
+    const structureIssues = (statistics: unknown) => collectMLSReportIssues({
+      ...usableReport,
+      statistics: statistics as MLSReport['statistics']
+    }).filter(found => found.ruleId === 'statistics-structure');
+
+    expect(structureIssues({ ...usableReport.statistics, averageSoldPrice: null, monthsOfSupply: null })).toEqual([]);
+    expect(structureIssues({ ...usableReport.statistics, averagePrice: '485000' })).toEqual([{
+      field: 'statistics',
+      severity: 'error',
+      ruleId: 'statistics-structure',
+      message: 'Invalid statistics structure'
+    }]);
+  });
+
+  it('keeps validateMLSReport throwing the first error, not warnings', () => {
+    const warnings: MLSReport = {
+      ...usableReport,
+      demographicAnalysis: {
+        ...usableReport.demographicAnalysis,
+        medianAge: { ...usableReport.demographicAnalysis.medianAge, value: -3 }
+      },
+      activeListings: [{ ...listing, bedrooms: 0 }]
+    };
+    expect(() => validateMLSReport(warnings)).not.toThrow();
+
+    const errors: MLSReport = {
+      ...warnings,
+      schoolDistricts: [{ ...usableReport.schoolDistricts[0], rating: 11 }],
+      activeListings: [{ ...listing, sqft: 0 }]
+    };
+    expect(() => validateMLSReport(errors)).toThrow(/Invalid school rating/);
+  });
+});
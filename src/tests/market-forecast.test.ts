@@ -0,0 +1,72 @@
+import { backtestForecast, forecastMarket } from '@/utils/market-forecast';
+import type { PricePoint } from '@/types/property';
+
+const monthly = (prices: number[]): PricePoint[] =>
+  prices.map((price, index) => {
+    const year = 2021 + Math.floor(index / 12);
+    const month = String((index % 12) + 1).padStart(2, '0');
+    return { date: `${year}-${month}`, price, volume: 10 };
+  });
+
+// Rising 2,000/month with a spring peak and some non-seasonal noise
+const seasonal = monthly(Array.from({ length: 36 }, (_, index) =>
+  400000 + 2000 * index + 15000 * Math.sin((2 * Math.PI * index) / 12) + ((index * 7) % 11) * 500
+));
+
+describe('Market Forecast', () => {
+  it('returns no forecast for fewer than three months of history', () => {
+    const forecast = forecastMarket(monthly([400000, 405000]));
+
+    expect(forecast.method).toBe('none');
+    expect(forecast.nextMonth).toEqual({ priceChange: 0, confidence: 0 });
+    expect(forecast.backtest).toBeNull();
+  });
+
+  it('falls back to a linear trend for short histories', () => {
+    const forecast = forecastMarket(monthly([400000, 404000, 409000, 412000, 416000, 421000]));
+
+    expect(forecast.method).toBe('linear-trend');
+    expect(forecast.nextMonth.priceChange).toBeGreaterThan(0);
+    expect(forecast.nextYear.priceChange).toBeGreaterThan(forecast.nextQuarter.priceChange);
+    expect(forecast.nextMonth.predictedPrice).toBeCloseTo(425000, -3);
+  });
+
+  it('uses Holt-Winters once there are two years of history', () => {
+    const forecast = forecastMarket(seasonal);
+
+    expect(forecast.method).toBe('holt-winters');
+    // Month 37 is a January, between the seasonal peak and trough
+    expect(forecast.nextMonth.predictedPrice).toBeCloseTo(472000, -4);
+  });
+
+  it('brackets each prediction with an interval that widens with the horizon', () => {
+    const forecast = forecastMarket(seasonal);
+
+    [forecast.nextMonth, forecast.nextQuarter, forecast.nextYear].forEach(prediction => {
+      expect(prediction.lowerBound).toBeLessThanOrEqual(prediction.predictedPrice as number);
+      expect(prediction.upperBound).toBeGreaterThanOrEqual(prediction.predictedPrice as number);
+      expect(prediction.confidence).toBeGreaterThanOrEqual(0);
+      expect(prediction.confidence).toBeLessThanOrEqual(1);
+    });
+    const width = (prediction: typeof forecast.nextMonth) =>
+      (prediction.upperBound as number) - (prediction.lowerBound as number);
+    expect(width(forecast.nextYear)).toBeGreaterThan(width(forecast.nextMonth));
+  });
+
+  it('reports one-month-ahead backtest error', () => {
+    const backtest = backtestForecast(seasonal);
+
+    expect(backtest).not.toBeNull();
+    expect(backtest?.horizon).toBe(1);
+    expect(backtest?.observations).toBe(32);
+    expect(backtest?.meanAbsolutePercentageError).toBeGreaterThan(0);
+    expect(backtest?.meanAbsolutePercentageError).toBeLessThan(0.1);
+    expect(backtest?.rootMeanSquaredError).toBeGreaterThanOrEqual(backtest?.meanAbsoluteError as number);
+  });
+
+  it('has a perfect backtest on an exact linear trend', () => {
+    const backtest = backtestForecast(monthly([400000, 402000, 404000, 406000, 408000, 410000]));
+
+    expect(backtest).toMatchObject({ observations: 2, meanAbsoluteError: 0, meanAbsolutePercentageError: 0 });
+  });
+});
@@ -0,0 +1,101 @@
+import { calculateStatistics, createReportingWindow, resolveReportingWindow } from '@/utils/market-statistics';
+import type { Property } from '@/types/property';
+
+const listing = (overrides: Partial<Property>): Property => ({
+  mlsNumber: '1',
+  address: '100 Elm St',
+  city: 'Plano',
+  listPrice: 400000,
+  bedrooms: 3,
+  bathrooms: '2/0/0',
+  sqft: 2000,
+  yearBuilt: 2010,
+  garage: '2 Car',
+  pool: false,
+  acres: 0.2,
+  pricePerSqft: 200,
+  ...overrides
+});
+
+const listings: Property[] = [
+  listing({ mlsNumber: 'A1', status: 'Active', listDate: '2024-03-10' }),
+  listing({ mlsNumber: 'A2', status: 'Active', listPrice: 500000, pricePerSqft: 250, listDate: '2023-12-01' }),
+  listing({ mlsNumber: 'P1', status: 'Pending', listDate: '2024-02-01' }),
+  listing({ mlsNumber: 'X1', status: 'Canceled', listDate: '2024-01-05' }),
+  listing({
+    mlsNumber: 'C1', status: 'Closed', listPrice: 300000, soldPrice: 294000, listDate: '2024-01-02',
+    soldDate: '2024-02-15', daysOnMarket: 44
+  }),
+  listing({
+    mlsNumber: 'C2', status: 'Closed', listPrice: 600000, soldPrice: 612000, listDate: '2023-11-20',
+    soldDate: '2024-03-20', daysOnMarket: 121
+  })
+];
+
+describe('Market Statistics', () => {
+  const window = createReportingWindow('2024-01-01', '2024-03-31');
+
+  it('counts listings by status', () => {
+    const stats = calculateStatistics(listings, window);
+
+    expect(stats).toMatchObject({
+      totalActiveListings: 2,
+      pendingListings: 1,
+      canceledListings: 1,
+      inventoryLevel: 3,
+      totalClosedSales: 2
+    });
+  });
+
+  it('counts new listings and closings within the reporting window', () => {
+    const stats = calculateStatistics(listings, window);
+
+    expect(stats.reportingWindow).toEqual({ start: '2024-01-01', end: '2024-03-31', months: 2.96 });
+    expect(stats.newListings).toBe(4);
+    expect(stats.closedListings).toBe(2);
+  });
+
+  it('derives supply and absorption from closings per month', () => {
+    const stats = calculateStatistics(listings, window);
+
+    // 2 closings over 2.96 months against 2 active listings
+    expect(stats.monthsOfSupply).toBe(3);
+    expect(stats.daysOfInventory).toBe(91);
+    expect(stats.absorptionRate).toBe(33.8);
+  });
+
+  it('computes prices, days on market and sale-to-list ratio from the listings that have them', () => {
+    const stats = calculateStatistics(listings, window);
+
+    expect(stats.averageSoldPrice).toBe(453000);
+    expect(stats.averageDaysOnMarket).toBe(83);
+    expect(stats.medianDaysOnMarket).toBe(83);
+    expect(stats.listToSoldRatio).toBe(1);
+    expect(stats.averageListPrice).toBe(433333);
+  });
+
+  it('marks values the data cannot support as unknown', () => {
+    const stats = calculateStatistics([listing({ mlsNumber: 'A1' })]);
+
+    expect(stats).toMatchObject({
+      totalActiveListings: 1,
+      totalClosedSales: 0,
+      pendingListings: null,
+      canceledListings: null,
+      newListings: null,
+      closedListings: null,
+      monthsOfSupply: null,
+      daysOfInventory: null,
+      absorptionRate: null,
+      averageSoldPrice: null,
+      averageDaysOnMarket: null,
+      listToSoldRatio: null,
+      reportingWindow: null
+    });
+  });
+
+  it('defaults the window to the span of listing dates', () => {
+    expect(resolveReportingWindow(listings)).toMatchObject({ start: '2023-11-20', end: '2024-03-20' });
+    expect(() => createReportingWindow('2024-03-01', '2024-01-01')).toThrow();
+  });
+});
@@ -0,0 +1,70 @@
+import { buildPriceHistory, buildSeasonality, MIN_MONTHLY_SAMPLE } from '@/utils/market-trends';
+import type { Property } from '@/types/property';
+
+const sale = (soldDate: string, soldPrice: number): Property => ({
+  mlsNumber: `${soldDate}-${soldPrice}`,
+  address: '100 Elm St',
+  city: 'Plano',
+  listPrice: soldPrice,
+  soldPrice,
+  soldDate,
+  bedrooms: 3,
+  bathrooms: '2/0/0',
+  sqft: 2000,
+  yearBuilt: 2010,
+  garage: '2 Car',
+  pool: false,
+  acres: 0.2,
+  pricePerSqft: 200
+});
+
+const januarySales = [400000, 410000, 420000, 430000, 440000].map(price => sale('2024-01-10', price));
+const marchSales = [500000, 510000, 520000, 530000, 540000, 550000].map(price => sale('2024-03-05', price));
+
+describe('Market Trends', () => {
+  describe('buildPriceHistory', () => {
+    it('buckets closed sales by month with the median price and volume', () => {
+      const history = buildPriceHistory([...januarySales, ...marchSales]);
+
+      expect(history[0]).toEqual({ date: '2024-01', price: 420000, volume: 5 });
+      expect(history[2]).toEqual({ date: '2024-03', price: 525000, volume: 6 });
+    });
+
+    it('smooths and flags months without enough sales', () => {
+      const history = buildPriceHistory([...januarySales, ...marchSales, sale('2024-02-20', 900000)]);
+
+      // A single $900k February sale is blended with January and March
+      expect(history[1]).toMatchObject({ date: '2024-02', volume: 1, lowConfidence: true });
+      expect(history[1].price).toBeLessThan(600000);
+      expect(history[0].lowConfidence).toBeUndefined();
+    });
+
+    it('fills empty months between sales', () => {
+      const history = buildPriceHistory([...januarySales, ...marchSales]);
+
+      expect(history.map(point => point.date)).toEqual(['2024-01', '2024-02', '2024-03']);
+      expect(history[1]).toMatchObject({ volume: 0, lowConfidence: true });
+    });
+
+    it('ignores listings without a sold date', () => {
+      expect(buildPriceHistory([{ ...sale('2024-01-10', 400000), soldDate: undefined }])).toEqual([]);
+    });
+  });
+
+  describe('buildSeasonality', () => {
+    it('averages sales by month of the year across years', () => {
+      const nextJanuary = januarySales.map(listing => ({ ...listing, soldDate: '2025-01-15', soldPrice: 460000 }));
+      const seasonality = buildSeasonality([...januarySales, ...nextJanuary]);
+
+      expect(seasonality).toHaveLength(12);
+      expect(seasonality[0]).toEqual({ month: 1, averagePrice: 440000, salesVolume: 10 });
+    });
+
+    it('flags months below the minimum sample size', () => {
+      const seasonality = buildSeasonality(marchSales.slice(0, MIN_MONTHLY_SAMPLE - 1));
+
+      expect(seasonality[2]).toMatchObject({ month: 3, salesVolume: 4, lowConfidence: true });
+      expect(seasonality[6]).toMatchObject({ month: 7, salesVolume: 0, lowConfidence: true });
+    });
+  });
+});
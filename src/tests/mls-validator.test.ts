@@ -1,6 +1,5 @@
-import { extractMLSData, validateMLSReport } from '@/utils/mls-validator';
+import { extractMLSData } from '@/utils/mls-validator';
 import type { MLSReport, Property, Statistics, MarketTrends, DemographicAnalysis } from '@/types/property';
-import { mockMLSData } from '@/tests/test-utils';
 
 describe('MLS Validator', () => {
   const sampleMLSText = `
@@ -83,15 +82,21 @@ describe('MLS Validator', () => {
         totalActiveListings: 1,
         totalClosedSales: 1,
         pricePerSquareFoot: expect.any(Number),
-        inventoryLevel: expect.any(Number),
-        daysOfInventory: expect.any(Number),
-        absorptionRate: expect.any(Number),
-        newListings: expect.any(Number),
-        closedListings: expect.any(Number),
-        pendingListings: expect.any(Number),
-        canceledListings: expect.any(Number),
-        listToSoldRatio: expect.any(Number),
-        monthsOfSupply: expect.any(Number)
+        inventoryLevel: 1,
+        closedListings: 1,
+        listToSoldRatio: expect.any(Number)
+      });
+    });
+
+    it('marks statistics the listings cannot support as unknown', () => {
+      // No statuses or list dates, and a single close date spans no time
+      expect(result.statistics).toMatchObject<Partial<Statistics>>({
+        newListings: null,
+        pendingListings: null,
+        canceledListings: null,
+        daysOfInventory: null,
+        absorptionRate: null,
+        monthsOfSupply: null
       });
     });
 
@@ -135,86 +140,4 @@ describe('MLS Validator', () => {
       expect(demographicAnalysis.educationLevels.graduate.value).toBeLessThanOrEqual(1);
     });
   });
-
-  describe('validateMLSReport', () => {
-    const validReport: MLSReport = mockMLSData;
-
-    it('validates a correct report without errors', () => {
-      const errors = validateMLSReport(validReport);
-      expect(errors).toHaveLength(0);
-    });
-
-    it('detects missing required fields', () => {
-      const invalidReport = {
-        ...validReport,
-        mlsNumber: '',
-        listPrice: 0
-      } as MLSReport;
-
-      const errors = validateMLSReport(invalidReport);
-      expect(errors).toContain('MLS number is required');
-      expect(errors).toContain('List price is required');
-    });
-
-    it('validates numeric ranges', () => {
-      const invalidReport = {
-        ...validReport,
-        bedrooms: -1,
-        bathrooms: -0.5,
-        squareFeet: -100
-      } as MLSReport;
-
-      const errors = validateMLSReport(invalidReport);
-      expect(errors).toContain('Bedrooms must be greater than 0');
-      expect(errors).toContain('Bathrooms must be greater than 0');
-      expect(errors).toContain('Square feet must be greater than 0');
-    });
-
-    it('validates market trends data', () => {
-      const invalidReport = {
-        ...validReport,
-        marketTrends: {
-          ...validReport.marketTrends,
-          forecast: {
-            nextMonth: { priceChange: 0, confidence: 1.5 }, // Invalid confidence
-            nextQuarter: { priceChange: 0, confidence: 0.7 },
-            nextYear: { priceChange: 0, confidence: 0.6 }
-          }
-        }
-      } as MLSReport;
-
-      const errors = validateMLSReport(invalidReport);
-      expect(errors).toContain('Invalid next month forecast data');
-    });
-
-    it('validates school district data', () => {
-      const invalidReport = {
-        ...validReport,
-        schoolDistrict: {
-          ...validReport.schoolDistrict,
-          rating: 11 // Invalid rating
-        }
-      } as MLSReport;
-
-      const errors = validateMLSReport(invalidReport);
-      expect(errors).toContain('School district rating must be between 0 and 10');
-    });
-
-    it('validates demographic analysis', () => {
-      const invalidReport = {
-        ...validReport,
-        demographicAnalysis: {
-          ...validReport.demographicAnalysis,
-          employmentRate: {
-            value: 1.5, // Invalid rate
-            trend: 'increasing',
-            percentChange: 0.1
-          }
-        }
-      } as MLSReport;
-
-      const errors = validateMLSReport(invalidReport);
-      expect(errors).toContain('Invalid employmentRate demographic metric');
-    });
-  });
-}); 
\ No newline at end of file
+});
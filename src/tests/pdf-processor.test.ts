@@ -89,6 +89,15 @@ describe('PDF Processor', () => {
       expect(result.success).toBe(false);
       expect(result.rawText).toBe('Some random text without MLS data');
     });
+
+    it('redacts the raw text and provenance snippets it returns', async () => {
+      const result = await processPDF(Buffer.from(`${validMLSText}\nList Price: $500,000 Agent: Jane Smith 972-555-0142\n`));
+
+      expect(result.success).toBe(true);
+      expect(result.rawText).toContain('Agent: [AGENT_NAME_1] [PHONE_1]');
+      expect(JSON.stringify([result.rawText, result.provenance, result.reviewItems])).not.toMatch(/Jane Smith|555-0142/);
+      expect(result.source?.rawText).toContain('Jane Smith');
+    });
   });
 
   describe('validatePDFContent', () => {
@@ -307,4 +316,48 @@ describe('PDF Processor', () => {
       expect(result.error).toBe('No listings found in PDF');
     });
   });
+
+  describe('progress events', () => {
+    const validText = `
+      MLS#12345
+      123 Main St, Plano
+      List Price: $500,000
+      4 beds, 2.5 baths
+    `;
+
+    it('reports each stage in order', async () => {
+      const onProgress = jest.fn();
+      const result = await processPDF(Buffer.from(validText), { onProgress });
+
+      expect(result.success).toBe(true);
+      const stages = onProgress.mock.calls.map(([progress]) => progress.stage);
+      expect(stages).toEqual(['parsing', 'extracting', 'normalizing', 'validating', 'complete']);
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ percent: 100 }));
+    });
+
+    it('persists the report when a store is given', async () => {
+      const onProgress = jest.fn();
+      const persist = jest.fn().mockResolvedValue('recReport1');
+      const result = await processPDF(Buffer.from(validText), { onProgress, persist });
+
+      expect(result.success).toBe(true);
+      expect(persist).toHaveBeenCalledWith(result.data, result.source);
+      expect(result.reportId).toBe('recReport1');
+      expect(result.source?.fileHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ stage: 'persisting' }));
+    });
+
+    it('names the stage that failed', async () => {
+      const persist = jest.fn().mockRejectedValue(new Error('Airtable error'));
+
+      const persisted = await processPDF(Buffer.from(validText), { persist });
+      expect(persisted).toMatchObject({ success: false, error: 'Airtable error', failedStage: 'persisting' });
+
+      const parsed = await processPDF(Buffer.from('INVALID_CONTENT'));
+      expect(parsed.failedStage).toBe('parsing');
+
+      const empty = await processPDF(Buffer.from('Some random text without MLS data'));
+      expect(empty.failedStage).toBe('validating');
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { createRedactionSession, getRedactionPolicy, DEFAULT_REDACTION_POLICY } from '@/utils/pii-redaction';
+import { mockMLSData } from '@/tests/test-utils';
+import type { ReportSource } from '@/types/reprocessing';
+
+const agentReport = `
+MLS# 20512345
+4821 Brookstone Dr
+Plano, TX 75093
+List Price: $625,000
+Listing Agent: Mary-Kate O'Neil Phone: (972) 555-0142
+Email: mkoneil@northtexasrealty.com
+Co-List Agent: J. R. Smith 214.555.0199
+Owner Name: Robert Alvarez
+Showing Instructions: Call Mary-Kate at 972-555-0142, lockbox on side door
+Lockbox Combo: 4471
+`;
+
+describe('PII Redaction', () => {
+  it('masks agent and owner names, contact details and showing instructions', () => {
+    const redaction = createRedactionSession(DEFAULT_REDACTION_POLICY);
+    const redacted = redaction.redact(agentReport);
+
+    expect(redacted).not.toMatch(/O'Neil|Smith|Alvarez|555-0142|555\.0199|northtexasrealty|side door|4471/);
+    expect(redacted).toContain('Listing Agent: [AGENT_NAME_1] Phone: [PHONE_1]');
+    expect(redacted).toContain('Co-List Agent: [AGENT_NAME_2] [PHONE_2]');
+    expect(redacted).toContain('Owner Name: [OWNER_NAME_1]');
+    expect(redacted).toContain('Email: [EMAIL_1]');
+    expect(redacted).toContain('Showing Instructions: [SHOWING_INSTRUCTIONS_1]');
+  });
+
+  it('masks names after upper-case labels', () => {
+    const redacted = createRedactionSession(DEFAULT_REDACTION_POLICY)
+      .redact('LISTING AGENT: Mary-Kate O\'Neil\nOWNER NAME: ROBERT ALVAREZ\nSTATUS: Active');
+
+    expect(redacted).toBe('LISTING AGENT: [AGENT_NAME_1]\nOWNER NAME: [OWNER_NAME_1]\nSTATUS: Active');
+  });
+
+  it('leaves listing data used by extraction untouched', () => {
+    const redacted = createRedactionSession(DEFAULT_REDACTION_POLICY).redact(agentReport);
+
+    expect(redacted).toContain('MLS# 20512345');
+    expect(redacted).toContain('4821 Brookstone Dr');
+    expect(redacted).toContain('Plano, TX 75093');
+    expect(redacted).toContain('List Price: $625,000');
+  });
+
+  it('reuses tokens for repeated values and restores the originals', () => {
+    const redaction = createRedactionSession(DEFAULT_REDACTION_POLICY);
+    const first = redaction.redact('Call 972-555-0142');
+    const second = redaction.redact('or text 972-555-0142');
+
+    expect(first).toBe('Call [PHONE_1]');
+    expect(second).toBe('or text [PHONE_1]');
+    expect(redaction.restore('Reach the agent at [PHONE_1].')).toBe('Reach the agent at 972-555-0142.');
+    expect(redaction.entities()).toEqual([{ type: 'phone', token: '[PHONE_1]' }]);
+  });
+
+  it('does not restore tokens issued by another session', () => {
+    createRedactionSession(DEFAULT_REDACTION_POLICY).redact('Call 972-555-0142');
+    expect(createRedactionSession(DEFAULT_REDACTION_POLICY).restore('[PHONE_1]')).toBe('[PHONE_1]');
+  });
+
+  it('only redacts the entity types the policy enables', () => {
+    const redacted = createRedactionSession(getRedactionPolicy('phone,email')).redact(agentReport);
+
+    expect(redacted).toContain("Listing Agent: Mary-Kate O'Neil Phone: [PHONE_1]");
+    expect(redacted).toContain('Email: [EMAIL_1]');
+    expect(redacted).toContain('Owner Name: Robert Alvarez');
+  });
+
+  describe('getRedactionPolicy', () => {
+    it('redacts everything by default', () => {
+      expect(getRedactionPolicy(undefined)).toEqual(DEFAULT_REDACTION_POLICY);
+    });
+
+    it('parses a comma-separated list of entity types', () => {
+      expect(getRedactionPolicy(' Phone, showingInstructions ,unknown')).toEqual({
+        agentName: false,
+        ownerName: false,
+        phone: true,
+        email: false,
+        showingInstructions: true
+      });
+      expect(Object.values(getRedactionPolicy('none')).some(Boolean)).toBe(false);
+    });
+  });
+
+  it('redacts free-text report fields', () => {
+    const report = createRedactionSession(DEFAULT_REDACTION_POLICY).redactReport({
+      ...mockMLSData,
+      description: 'Seller: Robert Alvarez. Gate Code: 1234',
+      features: ['Pool', 'Contact agent at agent@realty.com']
+    });
+
+    expect(report.description).toBe('Seller: [OWNER_NAME_1]. Gate Code: [SHOWING_INSTRUCTIONS_1]');
+    expect(report.features).toEqual(['Pool', 'Contact agent at [EMAIL_1]']);
+  });
+
+  it('redacts stored source text and its positioned items', () => {
+    const source: ReportSource = {
+      fileHash: 'abc',
+      rawText: 'Listing Agent: Jane Smith',
+      pages: [{
+        pageNumber: 1,
+        text: 'Listing Agent: Jane Smith',
+        items: [
+          { text: 'Listing Agent:', x: 0, y: 0, width: 60, page: 1 },
+          { text: 'Jane Smith', x: 70, y: 0, width: 50, page: 1 },
+          { text: 'Smith', x: 0, y: 10, width: 20, page: 1 }
+        ]
+      }]
+    };
+
+    const redacted = createRedactionSession(DEFAULT_REDACTION_POLICY).redactSource(source);
+
+    expect(redacted.fileHash).toBe('abc');
+    expect(redacted.rawText).toBe('Listing Agent: [AGENT_NAME_1]');
+    expect(redacted.pages[0].items.map(item => item.text)).toEqual(['Listing Agent:', '[AGENT_NAME_1]', 'Smith']);
+  });
+
+  it('masks positioned items only where a whole name or two of its words appear', () => {
+    const text = 'Listing Agent: Mary Ann Park';
+    const item = (value: string) => ({ text: value, x: 0, y: 0, width: 50, page: 1 });
+    const source: ReportSource = {
+      fileHash: 'abc',
+      rawText: text,
+      pages: [{
+        pageNumber: 1,
+        text,
+        items: ['Listing Agent:', 'Ann Park', 'Park', '100 Park Ln', 'Mary Ann Parker', 'Agent Mary Ann Park'].map(item)
+      }]
+    };
+
+    const redacted = createRedactionSession(DEFAULT_REDACTION_POLICY).redactSource(source);
+
+    expect(redacted.pages[0].items.map(found => found.text)).toEqual([
+      'Listing Agent:',
+      '[AGENT_NAME_1]',
+      'Park',
+      '100 Park Ln',
+      'Mary Ann Parker',
+      'Agent [AGENT_NAME_1]'
+    ]);
+  });
+});
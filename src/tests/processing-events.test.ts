@@ -0,0 +1,27 @@
+import {
+  createServerSentEventParser,
+  describeProcessingFailure,
+  formatServerSentEvent
+} from '@/utils/processing-events';
+import type { ServerSentEvent } from '@/utils/processing-events';
+
+describe('Processing Events', () => {
+  it('round-trips events split across chunks', () => {
+    const events: ServerSentEvent[] = [];
+    const parse = createServerSentEventParser(event => events.push(event));
+    const stream = formatServerSentEvent('progress', { stage: 'parsing', message: 'Parsing page 1 of 2', percent: 30 }) +
+      formatServerSentEvent('error', { stage: 'extracting', message: 'No listings found in PDF' });
+
+    parse(stream.slice(0, 25));
+    expect(events).toHaveLength(0);
+    parse(stream.slice(25));
+
+    expect(events.map(event => event.event)).toEqual(['progress', 'error']);
+    expect(JSON.parse(events[0].data)).toMatchObject({ stage: 'parsing', percent: 30 });
+  });
+
+  it('describes a failure by stage', () => {
+    expect(describeProcessingFailure({ stage: 'persisting', message: 'Airtable error' }))
+      .toBe('Saving to Airtable failed: Airtable error');
+  });
+});
@@ -0,0 +1,80 @@
+import { extractMLSDataWithProvenance } from '@/utils/mlsDataExtractor';
+import { extractTableListingsWithProvenance } from '@/utils/table-extractor';
+import { buildReviewItems, describeProvenance, findProvenance } from '@/utils/provenance';
+import type { PositionedPage } from '@/utils/pdf-layout';
+
+const reportText = `
+  MLS#12345
+  123 Main St, Plano
+  List Price: $500,000
+  Sold Price: $512,000
+  4 beds, 2.5 baths
+  2,500 sqft
+`;
+
+describe('Extraction Provenance', () => {
+  it('records the page, snippet and rule for each extracted field', () => {
+    const pages: PositionedPage[] = [
+      { pageNumber: 1, items: [], text: 'Cover page' },
+      { pageNumber: 3, items: [], text: reportText }
+    ];
+    const { provenance } = extractMLSDataWithProvenance(reportText, pages);
+
+    const soldPrice = findProvenance(provenance, '12345', 'soldPrice');
+    expect(soldPrice).toMatchObject({
+      value: 512000,
+      page: 3,
+      snippet: 'Sold Price: $512,000',
+      rule: 'sold-price-labelled'
+    });
+    expect(soldPrice?.pattern).toBeDefined();
+    expect(findProvenance(provenance, '12345', 'listPrice')?.value).toBe(500000);
+    expect(findProvenance(provenance, '12345', 'sqft')?.line).toBe(7);
+  });
+
+  it('records the source cell for grid reports', () => {
+    const page: PositionedPage = {
+      pageNumber: 2,
+      text: '',
+      items: [
+        ['MLS#', 20], ['Address', 80], ['SqFt', 375], ['Sold Price', 420],
+      ].map(([text, x]) => ({ text: text as string, x: x as number, y: 740, width: 30, page: 2 }))
+        .concat([
+          ['1400000', 20], ['100 Elm Trail', 80], ['2,500', 375], ['$512,000', 420]
+        ].map(([text, x]) => ({ text: text as string, x: x as number, y: 720, width: 30, page: 2 })))
+    };
+
+    const { provenance } = extractTableListingsWithProvenance([page]);
+
+    expect(findProvenance(provenance, '1400000', 'soldPrice')).toMatchObject({
+      page: 2,
+      snippet: 'Sold Price: $512,000',
+      rule: 'table-column:soldPrice'
+    });
+  });
+
+  it('flags missing and low-confidence fields for review', () => {
+    const { report, provenance } = extractMLSDataWithProvenance(`
+      MLS#67890
+      456 Oak Ave, Springfield
+      List Price: $400,000
+    `);
+
+    const items = buildReviewItems(report, provenance);
+
+    expect(items).toEqual(expect.arrayContaining([
+      expect.objectContaining({ mlsNumber: '67890', field: 'sqft', reason: 'missing' }),
+      expect.objectContaining({ mlsNumber: '67890', field: 'city', reason: 'low-confidence' })
+    ]));
+    expect(items.find(i => i.field === 'listPrice')).toBeUndefined();
+  });
+
+  it('describes where a value was extracted from', () => {
+    const { provenance } = extractMLSDataWithProvenance(reportText, [
+      { pageNumber: 3, items: [], text: reportText }
+    ]);
+    const soldPrice = findProvenance(provenance, '12345', 'soldPrice')!;
+
+    expect(describeProvenance(soldPrice)).toBe("extracted from page 3: 'Sold Price: $512,000' (95% confidence)");
+  });
+});
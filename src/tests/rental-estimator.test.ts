@@ -0,0 +1,141 @@
+import {
+  clearRentTableCache,
+  estimateRent,
+  estimateRents,
+  parseLeaseCompRows,
+  rentConfigNames,
+  rentPerSqftFor
+} from '@/utils/rental-estimator';
+import { getConfigurations } from '@/utils/airtable';
+import type { Property } from '@/types/property';
+import type { LeaseComp } from '@/types/rental';
+
+jest.mock('@/utils/airtable', () => ({
+  getConfigurations: jest.fn()
+}));
+
+const mockGetConfigurations = getConfigurations as jest.Mock;
+
+const listing: Property = {
+  mlsNumber: '20500001',
+  address: '4821 Brookstone Dr',
+  city: 'Frisco',
+  bedrooms: 3,
+  bathrooms: '2/0/0',
+  sqft: 2000,
+  yearBuilt: 2004,
+  garage: '2 Car',
+  pool: false,
+  acres: 0.2,
+  pricePerSqft: 200,
+  listPrice: 400000
+};
+
+const lease = (monthlyRent: number, overrides: Partial<LeaseComp> = {}): LeaseComp => ({
+  address: '100 Elm St',
+  city: 'Frisco',
+  bedrooms: 3,
+  sqft: 2000,
+  monthlyRent,
+  ...overrides
+});
+
+describe('Rental Estimator', () => {
+  const originalApiKey = process.env.AIRTABLE_API_KEY;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearRentTableCache();
+    process.env.AIRTABLE_API_KEY = 'test-key';
+  });
+
+  afterAll(() => {
+    process.env.AIRTABLE_API_KEY = originalApiKey;
+  });
+
+  it('estimates rent, yield and price-to-rent from the rent table', () => {
+    expect(estimateRent(listing)).toEqual({
+      mlsNumber: '20500001',
+      monthlyRent: 2700,
+      rentPerSqft: 1.35,
+      source: 'rent-table',
+      leaseCompCount: 0,
+      grossYield: 0.081,
+      priceToRent: 12.3
+    });
+    expect(estimateRent({ ...listing, sqft: 0 })).toBeNull();
+  });
+
+  it('measures closed listings against the sold price', () => {
+    expect(estimateRent({ ...listing, soldPrice: 360000 })).toMatchObject({
+      monthlyRent: 2700,
+      grossYield: 0.09,
+      priceToRent: 11.1
+    });
+  });
+
+  it('lets the most specific rent table record win', () => {
+    expect(rentConfigNames('Frisco', 7)).toEqual([
+      'RENT_PER_SQFT',
+      'RENT_PER_SQFT@5br',
+      'RENT_PER_SQFT@Frisco',
+      'RENT_PER_SQFT@Frisco/5br'
+    ]);
+    const table = { 'RENT_PER_SQFT': 1.5, 'RENT_PER_SQFT@Frisco': 1.6, 'RENT_PER_SQFT@Frisco/3br': 1.4 };
+    expect(rentPerSqftFor(table, 'Frisco', 3)).toBe(1.4);
+    expect(rentPerSqftFor(table, 'Frisco', 4)).toBe(1.6);
+    expect(rentPerSqftFor(table, 'Plano', 4)).toBe(1.5);
+    expect(rentPerSqftFor({}, 'Plano', 2)).toBe(1.55);
+  });
+
+  it('uses the median rent per sqft of similar lease comps', () => {
+    const comps = [
+      lease(2600),
+      lease(2900, { sqft: 2200, bedrooms: 4 }),
+      lease(3000),
+      lease(9000, { city: 'Plano' }),
+      lease(5000, { sqft: 3500 })
+    ];
+
+    expect(estimateRent(listing, { leaseComps: comps })).toMatchObject({
+      monthlyRent: 2625,
+      rentPerSqft: 1.32,
+      source: 'lease-comps',
+      leaseCompCount: 3
+    });
+    expect(estimateRent(listing, { leaseComps: comps.slice(0, 2) })?.source).toBe('rent-table');
+  });
+
+  it('loads the rent table records for the listings once', async () => {
+    mockGetConfigurations.mockResolvedValue({ 'RENT_PER_SQFT@Frisco': 1.5 });
+
+    const [estimate] = await estimateRents([listing]);
+    await estimateRents([listing]);
+
+    expect(estimate.monthlyRent).toBe(3000);
+    expect(mockGetConfigurations).toHaveBeenCalledTimes(1);
+    expect(mockGetConfigurations).toHaveBeenCalledWith(rentConfigNames('Frisco', 3));
+  });
+
+  it('falls back to the defaults when Airtable is unavailable', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockGetConfigurations.mockRejectedValue(new Error('timeout'));
+
+    expect((await estimateRents([listing]))[0].rentPerSqft).toBe(1.35);
+  });
+
+  it('reads lease comps from spreadsheet rows', () => {
+    expect(parseLeaseCompRows([
+      ['Leased listings'],
+      ['Address', 'City', 'Beds', 'Sq Ft', 'Lease Price', 'Close Date'],
+      ['100 Elm St', 'Frisco', '3', '2,000', '$2,600', '5/1/2024'],
+      ['102 Elm St', 'Frisco', '3', '', '$2,700', ''],
+      ['', '', '', '', '', '']
+    ])).toEqual({
+      leaseComps: [
+        { address: '100 Elm St', city: 'Frisco', bedrooms: 3, sqft: 2000, monthlyRent: 2600, leaseDate: '2024-05-01' }
+      ],
+      skippedRows: [4]
+    });
+  });
+});
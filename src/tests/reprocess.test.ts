@@ -0,0 +1,106 @@
+import {
+  createReportSource,
+  diffReports,
+  reprocessSource,
+  summarizeStoredReport
+} from '@/utils/reprocess';
+import { ntreisAgentFullExtractor } from '@/utils/extractors';
+import { buildMLSReport } from '@/utils/mlsDataExtractor';
+import type { MLSReport } from '@/types/property';
+import type { StoredMLSReport } from '@/types/reprocessing';
+
+const agentFullText = `
+  Matrix Agent Full Report
+  MLS#12345
+  123 Main St, Plano
+  List Price: $500,000
+  4 beds, 2.5 baths
+  2,500 sqft
+
+  MLS#67890
+  456 Oak Ave, Frisco
+  List Price: $600,000
+  3 beds, 2 baths
+  2,000 sqft
+`;
+
+const source = createReportSource(Buffer.from(agentFullText), agentFullText, []);
+
+describe('Report Reprocessing', () => {
+  it('hashes the uploaded file', () => {
+    expect(source.fileHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(createReportSource(Buffer.from(agentFullText), '', []).fileHash).toBe(source.fileHash);
+    expect(createReportSource(Buffer.from('other'), agentFullText, []).fileHash).not.toBe(source.fileHash);
+  });
+
+  it('re-extracts a stored source with the current extractor', () => {
+    const { report } = reprocessSource(source);
+
+    expect(report.activeListings.map(listing => listing.mlsNumber)).toEqual(['12345', '67890']);
+    expect(report.extraction).toMatchObject({
+      extractor: ntreisAgentFullExtractor.name,
+      version: ntreisAgentFullExtractor.version
+    });
+  });
+
+  describe('diffReports', () => {
+    const { report: current } = reprocessSource(source);
+
+    it('reports no changes for an identical extraction', () => {
+      const diff = diffReports(current, current);
+      expect(diff.hasChanges).toBe(false);
+      expect(diff.changedFields).toEqual([]);
+    });
+
+    it('lists added, removed and changed listings and statistics', () => {
+      const [first] = current.activeListings;
+      const previous: MLSReport = buildMLSReport([
+        { ...first, listPrice: 50000 },
+        { ...first, mlsNumber: '99999' }
+      ]);
+
+      const diff = diffReports(previous, current);
+
+      expect(diff.hasChanges).toBe(true);
+      expect(diff.addedListings).toEqual(['67890']);
+      expect(diff.removedListings).toEqual(['99999']);
+      expect(diff.changedFields).toContainEqual({
+        mlsNumber: '12345',
+        field: 'listPrice',
+        previous: 50000,
+        current: 500000
+      });
+      expect(diff.changedStatistics.map(change => change.field)).toContain('averageListPrice');
+    });
+  });
+
+  describe('summarizeStoredReport', () => {
+    const stored: StoredMLSReport = {
+      reportId: 'rec123',
+      uploadDate: '2024-03-01T00:00:00.000Z',
+      report: reprocessSource(source).report,
+      source
+    };
+
+    it('is current when the extractor version has not changed', () => {
+      expect(summarizeStoredReport(stored)).toMatchObject({
+        reportId: 'rec123',
+        fileHash: source.fileHash,
+        currentVersion: ntreisAgentFullExtractor.version,
+        reprocessable: true,
+        outdated: false
+      });
+    });
+
+    it('is outdated when a different version or no version produced it', () => {
+      const older = { ...stored.report, extraction: { extractor: ntreisAgentFullExtractor.name, version: '0.1.0', confidence: 1 } };
+      expect(summarizeStoredReport({ ...stored, report: older }).outdated).toBe(true);
+
+      const unversioned = { ...stored.report, extraction: undefined };
+      expect(summarizeStoredReport({ ...stored, report: unversioned, source: null })).toMatchObject({
+        outdated: true,
+        reprocessable: false
+      });
+    });
+  });
+});
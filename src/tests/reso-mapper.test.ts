@@ -0,0 +1,87 @@
+import { toResoProperty, fromResoProperty, toResoFeed, fromResoFeed, ResoMappingError } from '@/utils/reso-mapper';
+import type { Property } from '@/types/property';
+import { buildMLSReport } from '@/utils/mlsDataExtractor';
+
+const closedListing: Property = {
+  mlsNumber: '20405678',
+  address: '456 Oak Ave',
+  city: 'Frisco',
+  state: 'TX',
+  zipCode: '75034',
+  listPrice: 600000,
+  soldPrice: 595000,
+  listDate: '2024-01-16',
+  soldDate: '2024-02-15',
+  daysOnMarket: 30,
+  bedrooms: 3,
+  bathrooms: '2/1/0',
+  sqft: 2000,
+  yearBuilt: 2015,
+  garage: '2 Car',
+  pool: true,
+  acres: 0.2,
+  pricePerSqft: 300,
+  saleToListRatio: 0.992,
+  status: 'Closed'
+};
+
+describe('RESO Mapper', () => {
+  it('maps Property fields to RESO Data Dictionary names', () => {
+    expect(toResoProperty(closedListing)).toEqual({
+      ListingId: '20405678',
+      StandardStatus: 'Closed',
+      UnparsedAddress: '456 Oak Ave',
+      StreetNumber: '456',
+      StreetName: 'Oak',
+      StreetSuffix: 'Ave',
+      City: 'Frisco',
+      StateOrProvince: 'TX',
+      PostalCode: '75034',
+      ListPrice: 600000,
+      ClosePrice: 595000,
+      CloseDate: '2024-02-15',
+      ListingContractDate: '2024-01-16',
+      DaysOnMarket: 30,
+      BedroomsTotal: 3,
+      BathroomsFull: 2,
+      BathroomsHalf: 1,
+      BathroomsTotalInteger: 3,
+      LivingArea: 2000,
+      LivingAreaUnits: 'Square Feet',
+      YearBuilt: 2015,
+      LotSizeAcres: 0.2,
+      GarageSpaces: 2,
+      GarageYN: true,
+      PoolPrivateYN: true
+    });
+  });
+
+  it('round-trips a Property through RESO', () => {
+    expect(fromResoProperty(toResoProperty(closedListing))).toEqual(closedListing);
+  });
+
+  it('reads full addresses from UnparsedAddress', () => {
+    const property = fromResoProperty({
+      ListingId: '1',
+      StandardStatus: 'Active',
+      UnparsedAddress: '812 Rolling Hills Trail, Allen, TX 75013',
+      ListPrice: 480000
+    });
+
+    expect(property).toMatchObject({ address: '812 Rolling Hills Trail', city: 'Allen', zipCode: '75013' });
+    expect(property.soldPrice).toBeUndefined();
+  });
+
+  it('builds an MLSReport from a RESO feed and exports it back', () => {
+    const feed = toResoFeed(buildMLSReport([closedListing]));
+    const report = fromResoFeed(feed);
+
+    expect(feed.value).toHaveLength(1);
+    expect(report.closedListings[0].mlsNumber).toBe('20405678');
+  });
+
+  it('rejects records without a ListingId', () => {
+    expect(() => fromResoFeed({ value: [{ ListPrice: 1 } as any] })).toThrow(ResoMappingError);
+    expect(() => fromResoFeed({} as any)).toThrow(/value/);
+  });
+});
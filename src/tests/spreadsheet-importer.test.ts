@@ -0,0 +1,107 @@
+import * as XLSX from 'xlsx';
+import {
+  importSpreadsheet,
+  importSpreadsheetRows,
+  detectSpreadsheetFormat
+} from '@/utils/spreadsheet-importer';
+
+const csvExport = [
+  'Matrix Export - Collin County Search',
+  'ML #,Status,Address,City,Zip,Beds Total,Baths Full,Baths Half,SqFt,List Price,Close Price,Close Date,DOM,Year Built,Pool YN',
+  '20401234,Active,812 Rolling Hills Trail,Allen,75013,4,3,1,"2,400","$480,000",,,12,2012,Y',
+  '20405678,Sold,456 Oak Ave,Frisco,75034,3,2,0,"2,000","$600,000","$595,000",02/15/2024,30,2015,N',
+  ',,,,,,,,,,,,,,'
+].join('\n');
+
+describe('Spreadsheet Importer', () => {
+  it('detects CSV and Excel exports by extension or MIME type', () => {
+    expect(detectSpreadsheetFormat('export.csv')).toBe('csv');
+    expect(detectSpreadsheetFormat('export.XLSX')).toBe('xlsx');
+    expect(detectSpreadsheetFormat('upload', 'text/csv')).toBe('csv');
+    expect(detectSpreadsheetFormat('report.pdf')).toBeNull();
+  });
+
+  it('imports a CSV export into an MLSReport', async () => {
+    const result = await importSpreadsheet(Buffer.from(csvExport), 'export.csv');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.activeListings).toHaveLength(1);
+    expect(result.data?.closedListings).toHaveLength(1);
+    expect(result.data?.activeListings[0]).toMatchObject({
+      mlsNumber: '20401234',
+      address: '812 Rolling Hills Trail',
+      city: 'Allen',
+      zipCode: '75013',
+      bedrooms: 4,
+      bathrooms: '3/1/0',
+      sqft: 2400,
+      listPrice: 480000,
+      yearBuilt: 2012,
+      pool: true,
+      daysOnMarket: 12
+    });
+    expect(result.data?.closedListings[0]).toMatchObject({
+      soldPrice: 595000,
+      soldDate: '2024-02-15',
+      saleToListRatio: 0.992
+    });
+    expect(result.data?.extraction?.extractor).toBe('spreadsheet-import');
+  });
+
+  it('records the spreadsheet row each value came from', async () => {
+    const result = await importSpreadsheet(Buffer.from(csvExport), 'export.csv');
+    const listPrice = result.provenance?.find(p => p.mlsNumber === '20405678' && p.field === 'listPrice');
+
+    expect(listPrice).toMatchObject({ line: 4, snippet: 'List Price: $600,000', confidence: 1 });
+  });
+
+  it('imports XLSX workbooks', async () => {
+    const rows = csvExport.split('\n').slice(1).map(line => line.split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/).map(c => c.replace(/"/g, '')));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Listings');
+    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+
+    const result = await importSpreadsheet(buffer, 'export.xlsx');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.closedListings[0].soldPrice).toBe(595000);
+  });
+
+  it('applies custom header mappings', () => {
+    const { listings } = importSpreadsheetRows(
+      [
+        ['Listing Key', 'Street Line', 'Asking'],
+        ['30001234', '100 Elm St', '350000']
+      ],
+      { headerMapping: { 'Listing Key': 'mlsNumber', 'Street Line': 'address', 'Asking': 'listPrice' } }
+    );
+
+    expect(listings[0]).toMatchObject({ mlsNumber: '30001234', address: '100 Elm St', listPrice: 350000 });
+  });
+
+  it('fails when no header row can be mapped', async () => {
+    const result = await importSpreadsheet(Buffer.from('Foo,Bar\n1,2'), 'export.csv');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/No header row/);
+    expect(result.failedStage).toBe('extracting');
+  });
+
+  it('persists the report with its file hash like a PDF upload', async () => {
+    const persist = jest.fn().mockResolvedValue('rec123');
+    const result = await importSpreadsheet(Buffer.from(csvExport), 'export.csv', { persist });
+
+    expect(result.success).toBe(true);
+    expect(persist).toHaveBeenCalledWith(result.data, result.source);
+    expect(result.reportId).toBe('rec123');
+    expect(result.source).toMatchObject({ fileHash: expect.stringMatching(/^[0-9a-f]{64}$/), rawText: '' });
+  });
+
+  it('validates the report before persisting it', async () => {
+    const persist = jest.fn();
+    const result = await importSpreadsheet(Buffer.from(csvExport.split('\n').slice(0, 2).join('\n')), 'export.csv', { persist });
+
+    expect(result).toMatchObject({ success: false, error: 'No listings found in spreadsheet', failedStage: 'validating' });
+    expect(persist).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,203 @@
+import { extractTableListings, groupIntoRows, detectHeaderColumns } from '@/utils/table-extractor';
+import type { PositionedPage, PositionedTextItem } from '@/utils/pdf-layout';
+
+// Column x positions for a typical CMA grid
+const COLUMNS = [
+  { header: 'MLS#', x: 20 },
+  { header: 'Address', x: 80 },
+  { header: 'City', x: 220 },
+  { header: 'Beds', x: 290 },
+  { header: 'Baths', x: 330 },
+  { header: 'SqFt', x: 375 },
+  { header: 'List Price', x: 420 },
+  { header: 'Sold Price', x: 490 }
+];
+
+const CHAR_WIDTH = 5;
+
+const item = (text: string, x: number, y: number, page = 1): PositionedTextItem => ({
+  text,
+  x,
+  y,
+  width: text.length * CHAR_WIDTH,
+  page
+});
+
+const gridRow = (values: string[], y: number, page = 1): PositionedTextItem[] =>
+  values.map((value, i) => item(value, COLUMNS[i].x, y, page)).filter(i => i.text);
+
+const headerRow = (y: number, page = 1) => gridRow(COLUMNS.map(c => c.header), y, page);
+
+const buildPage = (pageNumber: number, items: PositionedTextItem[]): PositionedPage => ({
+  pageNumber,
+  items,
+  text: items.map(i => i.text).join(' ')
+});
+
+const closedRow = (index: number, y: number, page = 1) => gridRow([
+  `${1400000 + index}`,
+  `${100 + index} Elm Trail`,
+  'Frisco',
+  '4',
+  '2/1',
+  '2,500',
+  `$${(500000 + index * 1000).toLocaleString()}`,
+  `$${(495000 + index * 1000).toLocaleString()}`
+], y, page);
+
+describe('Table Extractor', () => {
+  describe('groupIntoRows', () => {
+    it('groups items on the same baseline and orders rows top to bottom', () => {
+      const rows = groupIntoRows([
+        item('second', 20, 680),
+        item('first', 20, 700),
+        item('first-b', 120, 701)
+      ]);
+
+      expect(rows).toHaveLength(2);
+      expect(rows[0].cells.map(c => c.text)).toEqual(['first', 'first-b']);
+      expect(rows[1].cells.map(c => c.text)).toEqual(['second']);
+    });
+
+    it('merges adjacent items into a single cell', () => {
+      const rows = groupIntoRows([
+        item('123', 80, 700),
+        item('Main St', 80 + 3 * CHAR_WIDTH + 2, 700)
+      ]);
+
+      expect(rows[0].cells).toHaveLength(1);
+      expect(rows[0].cells[0].text).toBe('123 Main St');
+    });
+  });
+
+  describe('detectHeaderColumns', () => {
+    it('maps header labels to property fields', () => {
+      const [row] = groupIntoRows(headerRow(700));
+      const columns = detectHeaderColumns(row);
+
+      expect(columns?.map(c => c.field)).toEqual([
+        'mlsNumber', 'address', 'city', 'bedrooms', 'bathrooms', 'sqft', 'listPrice', 'soldPrice'
+      ]);
+    });
+
+    it('ignores rows that are not grid headers', () => {
+      const [row] = groupIntoRows([item('Prepared for', 20, 700), item('Jane Buyer', 120, 700)]);
+      expect(detectHeaderColumns(row)).toBeNull();
+    });
+  });
+
+  describe('extractTableListings', () => {
+    it('extracts one property per grid row', () => {
+      const page = buildPage(1, [
+        item('Closed Listings', 20, 760),
+        ...headerRow(740),
+        ...closedRow(0, 720),
+        ...closedRow(1, 705)
+      ]);
+
+      const listings = extractTableListings([page]);
+
+      expect(listings).toHaveLength(2);
+      expect(listings[0]).toMatchObject({
+        mlsNumber: '1400000',
+        address: '100 Elm Trail',
+        city: 'Frisco',
+        bedrooms: 4,
+        bathrooms: '2/1/0',
+        sqft: 2500,
+        listPrice: 500000,
+        soldPrice: 495000,
+        pricePerSqft: 200
+      });
+    });
+
+    it('skips summary rows', () => {
+      const page = buildPage(1, [
+        ...headerRow(740),
+        ...closedRow(0, 720),
+        ...gridRow(['Average', '', '', '4', '', '2,500', '$500,000', '$495,000'], 700)
+      ]);
+
+      expect(extractTableListings([page])).toHaveLength(1);
+    });
+
+    it('carries columns over to continuation pages', () => {
+      const pages = [
+        buildPage(1, [...headerRow(740), ...closedRow(0, 720)]),
+        buildPage(2, closedRow(1, 740, 2))
+      ];
+
+      expect(extractTableListings(pages).map(l => l.mlsNumber)).toEqual(['1400000', '1400001']);
+    });
+
+    it('reads a later table without a sold price column as active listings', () => {
+      const activeHeader = gridRow(COLUMNS.slice(0, 7).map(c => c.header), 680);
+      const page = buildPage(1, [
+        ...headerRow(740),
+        ...closedRow(0, 720),
+        ...activeHeader,
+        ...closedRow(1, 660).slice(0, 7)
+      ]);
+
+      const [closed, active] = extractTableListings([page]);
+
+      expect(closed.soldPrice).toBe(495000);
+      expect(active.soldPrice).toBeUndefined();
+    });
+
+    it('returns no listings for plain text documents', () => {
+      const page = buildPage(1, [item('MLS#12345', 20, 740), item('List Price: $500,000', 20, 720)]);
+      expect(extractTableListings([page])).toEqual([]);
+    });
+  });
+
+  describe('processPDF with grid reports', () => {
+    const rowsPerPage = 20;
+    const gridPages = [0, 1].map(pageIndex => {
+      const rows = Array.from({ length: rowsPerPage }, (_, i) =>
+        closedRow(pageIndex * rowsPerPage + i, 720 - i * 15, pageIndex + 1)
+      );
+      return [...headerRow(740, pageIndex + 1), ...rows.flat()];
+    });
+
+    beforeAll(() => {
+      jest.resetModules();
+      jest.doMock('pdf-parse', () =>
+        jest.fn().mockImplementation(async (_buffer: Buffer, options: { pagerender: (page: unknown) => Promise<string> }) => {
+          let text = '';
+          for (let pageIndex = 0; pageIndex < gridPages.length; pageIndex++) {
+            const pageText = await options.pagerender({
+              pageIndex,
+              getTextContent: async () => ({
+                items: gridPages[pageIndex].map(i => ({
+                  str: i.text,
+                  transform: [1, 0, 0, 1, i.x, i.y],
+                  width: i.width
+                }))
+              })
+            });
+            text = `${text}\n\n${pageText}`;
+          }
+          return { text, numpages: gridPages.length };
+        })
+      );
+    });
+
+    afterAll(() => {
+      jest.dontMock('pdf-parse');
+    });
+
+    it('turns a 40-row closed listings grid into 40 properties', async () => {
+      const { processPDF } = require('@/utils/pdf-processor') as typeof import('@/utils/pdf-processor');
+      const result = await processPDF(Buffer.from('grid'));
+
+      expect(result.success).toBe(true);
+      expect(result.data?.closedListings).toHaveLength(40);
+      expect(result.data?.closedListings[39]).toMatchObject({
+        mlsNumber: '1400039',
+        address: '139 Elm Trail',
+        soldPrice: 534000
+      });
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  assertValidReport,
+  getValidationRule,
+  listValidationRules,
+  PROFILE_RULES,
+  validateReport,
+  VALIDATION_RULES
+} from '@/utils/validation-profiles';
+import { collectMLSReportIssues, DEFAULT_VALIDATION_THRESHOLDS } from '@/utils/market-data-validator';
+import { buildMLSReport } from '@/utils/mlsDataExtractor';
+import { mockMLSData } from '@/tests/test-utils';
+import { VALIDATION_PROFILES } from '@/types/validation';
+import type { Property } from '@/types/property';
+
+const listing: Property = {
+  mlsNumber: '20512345',
+  address: '4821 Brookstone Dr',
+  city: 'Plano',
+  bedrooms: 4,
+  bathrooms: '3/1/0',
+  sqft: 3214,
+  yearBuilt: 2004,
+  garage: '3 Car',
+  pool: true,
+  acres: 0.28,
+  pricePerSqft: 194,
+  listPrice: 625000
+};
+
+describe('Validation Profiles', () => {
+  it('declares every profile with known, unique rules', () => {
+    const ids = VALIDATION_RULES.map(rule => rule.id);
+    expect(new Set(ids).size).toBe(ids.length);
+
+    VALIDATION_PROFILES.forEach(profile => {
+      const rules = listValidationRules(profile);
+      expect(rules.map(rule => rule.id)).toEqual(PROFILE_RULES[profile]);
+      rules.forEach(rule => expect(rule.description).toBeTruthy());
+    });
+  });
+
+  it('runs the market data rules for display', () => {
+    expect(validateReport(mockMLSData, 'display').issues).toEqual(collectMLSReportIssues(mockMLSData));
+  });
+
+  it('does not compare seasonal volume of months with few or no sales', () => {
+    const sales = ['2024-01-15', '2024-03-10', '2024-03-22', '2024-06-05'].map((soldDate, i) =>
+      ({ ...listing, mlsNumber: `2051240${i}`, soldPrice: 615000, soldDate }));
+    const issues = validateReport(buildMLSReport(sales), 'display').issues;
+
+    expect(issues.filter(issue => issue.ruleId === 'seasonal-volume')).toEqual([]);
+  });
+
+  describe('ingest', () => {
+    it('rejects a report without listings', () => {
+      const result = validateReport(buildMLSReport([]), 'ingest');
+
+      expect(result.valid).toBe(false);
+      expect(result.issues).toContainEqual({
+        field: 'activeListings',
+        severity: 'error',
+        ruleId: 'listings-present',
+        message: 'No listings found'
+      });
+    });
+
+    it('only warns about listings with missing or implausible values', () => {
+      const result = validateReport(buildMLSReport([{ ...listing, address: '', bedrooms: 45 }]), 'ingest');
+
+      expect(result.valid).toBe(true);
+      expect(result.issues).toEqual([
+        { field: 'activeListings[0].address', severity: 'warning', ruleId: 'listing-identity', message: 'Missing address' },
+        {
+          field: 'activeListings[0].bedrooms',
+          severity: 'warning',
+          ruleId: 'listing-ranges',
+          message: 'bedrooms value 45 is outside valid range [0-20]'
+        }
+      ]);
+    });
+
+    it('treats values that were not found as missing rather than out of range', () => {
+      const result = validateReport(buildMLSReport([{ ...listing, sqft: 0, yearBuilt: 0 }]), 'ingest');
+      expect(result.issues.filter(issue => issue.ruleId === 'listing-ranges')).toEqual([]);
+    });
+  });
+
+  describe('persist', () => {
+    it('accepts a complete extraction', () => {
+      expect(validateReport(buildMLSReport([listing, { ...listing, mlsNumber: '20512346', soldPrice: 610000 }]), 'persist'))
+        .toMatchObject({ profile: 'persist', valid: true });
+    });
+
+    it('flags listings without an MLS number, address or price without rejecting the report', () => {
+      const result = validateReport(buildMLSReport([listing, { ...listing, mlsNumber: '', listPrice: 0 }]), 'persist');
+
+      expect(result.valid).toBe(true);
+      expect(result.issues.filter(issue => issue.ruleId === 'listing-identity')).toEqual([
+        { field: 'activeListings[1].mlsNumber', severity: 'warning', ruleId: 'listing-identity', message: 'Missing MLS number' },
+        { field: 'activeListings[1].listPrice', severity: 'warning', ruleId: 'listing-identity', message: 'Missing list price' }
+      ]);
+    });
+
+    it('does not require subject property details a market report lacks', () => {
+      const report = { ...buildMLSReport([listing]), bathrooms: 0, address: { street: '', city: '', state: '', zipCode: '' } };
+      expect(validateReport(report, 'persist').valid).toBe(true);
+    });
+
+    it('throws the first error from assertValidReport', () => {
+      expect(() => assertValidReport(buildMLSReport([]), 'persist'))
+        .toThrow('Report is not valid for persist: No listings found');
+    });
+  });
+
+  it('runs a single rule on its own', () => {
+    const rule = getValidationRule('statistics-prices');
+    const report = buildMLSReport([
+      listing,
+      { ...listing, mlsNumber: '20512346', listPrice: 630000 },
+      { ...listing, mlsNumber: '20512347', listPrice: 6250000 }
+    ]);
+
+    expect(rule?.check(report, DEFAULT_VALIDATION_THRESHOLDS).map(issue => issue.message)).toContain(
+      'Large discrepancy between average and median list prices'
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  clearValidationThresholdCache,
+  getPriceBand,
+  getThresholdScope,
+  loadValidationThresholds,
+  resolveThresholds,
+  thresholdConfigNames
+} from '@/utils/validation-thresholds';
+import { DEFAULT_VALIDATION_THRESHOLDS } from '@/utils/market-data-validator';
+import { validateReport } from '@/utils/validation-profiles';
+import { buildMLSReport } from '@/utils/mlsDataExtractor';
+import { getConfigurations } from '@/utils/airtable';
+import { mockMLSData } from '@/tests/test-utils';
+import type { Property } from '@/types/property';
+
+jest.mock('@/utils/airtable', () => ({
+  getConfigurations: jest.fn()
+}));
+
+const mockGetConfigurations = getConfigurations as jest.Mock;
+
+const listing = (city: string, listPrice: number): Property => ({
+  mlsNumber: `${city}-${listPrice}`,
+  address: '4821 Brookstone Dr',
+  city,
+  bedrooms: 4,
+  bathrooms: '3/1/0',
+  sqft: 3214,
+  yearBuilt: 2004,
+  garage: '3 Car',
+  pool: true,
+  acres: 0.28,
+  pricePerSqft: Math.round(listPrice / 3214),
+  listPrice
+});
+
+describe('Validation Thresholds', () => {
+  const originalApiKey = process.env.AIRTABLE_API_KEY;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearValidationThresholdCache();
+    process.env.AIRTABLE_API_KEY = 'test-key';
+  });
+
+  afterAll(() => {
+    process.env.AIRTABLE_API_KEY = originalApiKey;
+  });
+
+  it('names configuration records from the most general to the most specific', () => {
+    expect(thresholdConfigNames('MAX_PRICE_TO_INCOME_RATIO', { city: 'Frisco', priceBand: '750k-1.5m' })).toEqual([
+      'MAX_PRICE_TO_INCOME_RATIO',
+      'MAX_PRICE_TO_INCOME_RATIO@750k-1.5m',
+      'MAX_PRICE_TO_INCOME_RATIO@Frisco',
+      'MAX_PRICE_TO_INCOME_RATIO@Frisco/750k-1.5m'
+    ]);
+    expect(thresholdConfigNames('MIN_DAYS_ON_MARKET')).toEqual(['MIN_DAYS_ON_MARKET']);
+  });
+
+  it('lets the most specific record win', () => {
+    const thresholds = resolveThresholds({
+      MAX_PRICE_TO_INCOME_RATIO: 6,
+      'MAX_PRICE_TO_INCOME_RATIO@Frisco': 7,
+      'MAX_PRICE_TO_INCOME_RATIO@Frisco/750k-1.5m': 8,
+      'SELLERS_MARKET_MAX_DAYS_ON_MARKET@Prosper': 45
+    }, { city: 'Frisco', priceBand: '750k-1.5m' });
+
+    expect(thresholds.MAX_PRICE_TO_INCOME_RATIO).toBe(8);
+    expect(thresholds.SELLERS_MARKET_MAX_DAYS_ON_MARKET).toBe(DEFAULT_VALIDATION_THRESHOLDS.SELLERS_MARKET_MAX_DAYS_ON_MARKET);
+  });
+
+  it('scopes a report by its main city and median list price', () => {
+    const report = buildMLSReport([listing('Frisco', 820000), listing('Frisco', 905000), listing('Prosper', 1100000)]);
+
+    expect(getThresholdScope(report)).toEqual({ city: 'Frisco', priceBand: '750k-1.5m' });
+    expect(getPriceBand(399999)).toBe('under-400k');
+    expect(getPriceBand(null)).toBeUndefined();
+  });
+
+  it('loads overrides once and serves them from the cache', async () => {
+    mockGetConfigurations.mockResolvedValue({ 'SELLERS_MARKET_MAX_DAYS_ON_MARKET@Farmersville': 60 });
+
+    const first = await loadValidationThresholds({ city: 'Farmersville' });
+    const second = await loadValidationThresholds({ city: 'Farmersville' });
+
+    expect(first.SELLERS_MARKET_MAX_DAYS_ON_MARKET).toBe(60);
+    expect(second).toBe(first);
+    expect(mockGetConfigurations).toHaveBeenCalledTimes(1);
+    expect(mockGetConfigurations.mock.calls[0][0]).toContain('SELLERS_MARKET_MAX_DAYS_ON_MARKET@Farmersville');
+
+    clearValidationThresholdCache();
+    await loadValidationThresholds({ city: 'Farmersville' });
+    expect(mockGetConfigurations).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to the defaults when Airtable fails or is not configured', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockGetConfigurations.mockRejectedValue(new Error('Airtable error'));
+    expect(await loadValidationThresholds({ city: 'Plano' })).toEqual(DEFAULT_VALIDATION_THRESHOLDS);
+
+    delete process.env.AIRTABLE_API_KEY;
+    expect(await loadValidationThresholds({ city: 'Allen' })).toEqual(DEFAULT_VALIDATION_THRESHOLDS);
+    expect(mockGetConfigurations).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies loaded thresholds when validating for display', () => {
+    const report = { ...mockMLSData, statistics: { ...mockMLSData.statistics, absorptionRate: 101 } };
+    const ruleIds = (thresholds = DEFAULT_VALIDATION_THRESHOLDS) =>
+      validateReport(report, 'display', thresholds).issues.map(issue => issue.ruleId);
+
+    expect(ruleIds()).toContain('absorption-rate-range');
+    expect(ruleIds({ ...DEFAULT_VALIDATION_THRESHOLDS, MAX_ABSORPTION_RATE: 120 })).not.toContain('absorption-rate-range');
+  });
+});
@@ -7,6 +7,12 @@ export interface MLSReportRecord {
     'Extracted Data'?: string[];  // Links to Listings
     'Processing Status': 'Pending' | 'Completed' | 'Error';
     'Error Notes'?: string;
+    'Report Data'?: string;        // JSON MLSReport as last accepted
+    'Extractor'?: string;          // e.g. ntreis-agent-full@1.0.0
+    'File Hash'?: string;          // SHA-256 of the uploaded file
+    'Raw Text'?: string;
+    'Source Layout'?: string;      // JSON PositionedPage[]
+    'Reprocessed Date'?: string;
   };
 }
 
@@ -0,0 +1,49 @@
+import type { MLSReport } from './property';
+import type { FieldProvenance, FieldReviewItem, ListingRepair } from './extraction';
+import type { ProcessingStage } from './processing';
+import type { ValidationThresholds } from './validation';
+
+// Response envelope shared by the upload endpoints (/api/process-pdf,
+// /api/process-pdf-stream and /api/import-listings)
+
+// Uploads larger than this are rejected by the client and the server
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export interface MLSReportSummary {
+  listPrice: string;
+  propertyType: string;
+  location: string;
+  demographics: {
+    population: string;
+    medianIncome: string;
+    education: string;
+  };
+}
+
+export type FormattedMLSReport = MLSReport & { summary: MLSReportSummary };
+
+export interface UploadSuccessResponse {
+  success: true;
+  mlsData: FormattedMLSReport;
+  // Chat-ready description of what was found, e.g. "I've analyzed the MLS report..."
+  message: string;
+  provenance: FieldProvenance[];
+  reviewItems: FieldReviewItem[];
+  // Values corrected automatically; each can be reverted with revertRepair
+  repairs: ListingRepair[];
+  // Thresholds configured for the report's city and price band, to validate
+  // it for display with the same limits the server uses
+  validationThresholds?: ValidationThresholds;
+  // Airtable record ID when the report was saved, for saving rental estimates
+  // and investment analyses against its listings
+  reportId?: string;
+}
+
+export interface UploadErrorResponse {
+  success: false;
+  message: string;
+  // Pipeline stage that failed, when processing had started
+  stage?: ProcessingStage;
+}
+
+export type UploadResponse = UploadSuccessResponse | UploadErrorResponse;
@@ -0,0 +1,54 @@
+import type { Property } from './property';
+
+// Dollar value of each difference between a comp and the subject. A comp
+// that is smaller than the subject is adjusted up by perSqft for every
+// missing square foot, and so on.
+export interface CMAAdjustments {
+  perSqft: number;
+  perBedroom: number;
+  pool: number;
+  perGarageSpace: number;
+  perAcre: number;
+  perYearBuilt: number;   // Per year the subject is newer than the comp
+}
+
+export type CMAFeature = keyof CMAAdjustments;
+
+export interface CMAAdjustmentLine {
+  feature: CMAFeature;
+  subjectValue: number;
+  compValue: number;
+  amount: number;         // Added to the comp's sold price
+}
+
+export interface CMAComp {
+  listing: Property;
+  adjustments: CMAAdjustmentLine[];  // Only features that differ
+  netAdjustment: number;
+  adjustedPrice: number;
+}
+
+// How closely comps had to match the subject
+export interface CMACriteria {
+  label: string;          // e.g. "same city, size within 20%, 1 bedroom, 10 years, sold within 6 months"
+  maxSqftDifference: number;   // Fraction of the subject's square footage
+  maxBedroomDifference: number;
+  maxAgeDifference: number;    // Years
+  maxMonthsSinceSale: number;
+}
+
+export interface CMAResult {
+  subject: Property;
+  asOf: string;           // YYYY-MM-DD the sale recency is measured from
+  criteria: CMACriteria;
+  comps: CMAComp[];
+  suggestedPrice: number;
+  priceRange: { low: number; high: number };
+}
+
+export interface CMARequest {
+  subject: Property;
+  closedListings: Property[];
+  adjustments?: Partial<CMAAdjustments>;
+  asOf?: string;
+}
@@ -0,0 +1,46 @@
+import type { MLSReport, Property } from './property';
+
+export type PropertyField = keyof Property;
+
+// Where a single extracted Property value came from in the source document
+export interface FieldProvenance {
+  mlsNumber: string;
+  field: PropertyField;
+  value: Property[PropertyField] | null;
+  page: number | null;     // 1-based; null when page boundaries are unknown
+  line: number | null;     // 1-based line within the page
+  snippet: string;         // Source line or table cell the value was read from
+  rule: string;            // Identifier of the extraction rule that matched
+  pattern?: string;        // Regex source for pattern-based rules
+  confidence: number;      // 0-1
+}
+
+export interface FieldReviewItem {
+  mlsNumber: string;
+  field: PropertyField;
+  reason: 'missing' | 'low-confidence';
+  provenance?: FieldProvenance;
+}
+
+export interface ExtractionOutput {
+  report: MLSReport;
+  provenance: FieldProvenance[];
+}
+
+export type RepairRuleId = 'decimal-bathrooms' | 'swapped-sqft-price' | 'acres-in-sqft';
+
+export interface RepairChange {
+  field: PropertyField;
+  from: Property[PropertyField] | null;  // Null when the field was unset
+  to: Property[PropertyField] | null;
+}
+
+// A mechanical correction the normalizer applied to an extracted listing.
+// Keeps the values it replaced so a reviewer can revert it.
+export interface ListingRepair {
+  id: string;              // `${mlsNumber}:${rule}`, unique within a report
+  mlsNumber: string;
+  rule: RepairRuleId;
+  message: string;         // e.g. "Converted 2.5 baths to 2/1/0"
+  changes: RepairChange[]; // Includes derived fields such as pricePerSqft
+}
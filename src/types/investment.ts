@@ -0,0 +1,57 @@
+// Rental investment analysis of a listing: income, expenses and financing
+// over a hold period. Rates are fractions, e.g. 0.07 for 7%.
+
+export interface InvestmentAssumptions {
+  purchasePrice: number;
+  downPaymentRate: number;
+  interestRate: number;        // Annual mortgage rate
+  loanTermYears: number;
+  closingCostRate: number;     // Of the purchase price, paid in cash
+  monthlyRent: number;
+  vacancyRate: number;         // Of gross rent
+  propertyTaxRate: number;     // Annual, of the purchase price
+  annualInsurance: number;
+  monthlyHOA: number;
+  maintenanceRate: number;     // Of gross rent
+  managementRate: number;      // Of collected rent
+  holdYears: number;
+  appreciationRate: number;    // Annual growth of the property's value
+  rentGrowthRate: number;      // Annual growth of rent and expenses
+  sellingCostRate: number;     // Of the sale price at the end of the hold
+}
+
+// One year of the hold; the final year includes the sale
+export interface InvestmentYear {
+  year: number;
+  netOperatingIncome: number;
+  debtService: number;
+  cashFlow: number;
+  saleProceeds: number;        // Sale price less selling costs and loan payoff; 0 before the final year
+}
+
+export interface InvestmentAnalysis {
+  loanAmount: number;
+  cashInvested: number;        // Down payment and closing costs
+  monthlyMortgage: number;
+  effectiveGrossIncome: number;  // First-year rent after vacancy
+  operatingExpenses: number;     // First-year taxes, insurance, HOA, maintenance and management
+  netOperatingIncome: number;
+  capRate: number;               // NOI / purchase price
+  monthlyCashFlow: number;
+  cashOnCashReturn: number | null;  // First-year cash flow / cash invested; null with no cash in
+  dscr: number | null;           // NOI / debt service; null without a loan
+  irr: number | null;            // Annual; null when the cash flows have none
+  years: InvestmentYear[];
+}
+
+export interface InvestmentRequest {
+  assumptions: InvestmentAssumptions;
+  // Both are needed to save the analysis as an insight
+  reportId?: string;
+  mlsNumber?: string;
+}
+
+export interface InvestmentResponse {
+  analysis: InvestmentAnalysis;
+  insightId: string | null;    // Set when the analysis was saved
+}
@@ -0,0 +1,26 @@
+// Buyer's, balanced or seller's market label for a report or a segment of its
+// listings, from the market condition thresholds in ValidationThresholds
+
+export type MarketCondition = 'buyers' | 'balanced' | 'sellers';
+
+export type MarketIndicator = 'monthsOfSupply' | 'daysOnMarket' | 'absorptionRate' | 'listToSoldRatio';
+
+export interface MarketIndicatorSignal {
+  indicator: MarketIndicator;
+  value: number;
+  // -1 at the buyer's market threshold, 1 at the seller's market threshold
+  score: number;
+  condition: MarketCondition;
+  weight: number;
+}
+
+export interface MarketConditionResult {
+  condition: MarketCondition;
+  // Weighted average of the indicator scores; negative favors buyers
+  score: number;
+  indicators: MarketIndicatorSignal[];
+  missingIndicators: MarketIndicator[];
+  // e.g. "Seller's market (score 0.82). 2.1 months of supply and ..."
+  explanation: string;
+  segment?: string;  // e.g. a city; unset for the whole report
+}
@@ -0,0 +1,27 @@
+// Staged progress reported while an MLS upload moves through the processing pipeline
+
+export type ProcessingStage = 'parsing' | 'extracting' | 'normalizing' | 'validating' | 'persisting' | 'complete';
+
+export interface ProcessingProgress {
+  stage: ProcessingStage;
+  message: string;
+  // Overall progress from 0 to 100
+  percent: number;
+  // Set while parsing, e.g. page 3 of 12
+  page?: number;
+  totalPages?: number;
+}
+
+export interface ProcessingFailure {
+  stage: ProcessingStage;
+  message: string;
+}
+
+export const PROCESSING_STAGE_LABELS: Record<ProcessingStage, string> = {
+  parsing: 'Parsing PDF',
+  extracting: 'Extracting listings',
+  normalizing: 'Repairing listing values',
+  validating: 'Validating listings',
+  persisting: 'Saving to Airtable',
+  complete: 'Complete'
+};
@@ -1,7 +1,11 @@
+export type ListingStatus = 'Active' | 'Pending' | 'Closed' | 'Canceled' | 'Expired' | 'Withdrawn';
+
 export interface Property {
   mlsNumber: string;
   address: string;
   city: string;
+  state?: string;
+  zipCode?: string;
   listPrice: number;
   bedrooms: number;
   bathrooms: string;  // Format: "full/half/quarter"
@@ -12,59 +16,110 @@ export interface Property {
   acres: number;
   pricePerSqft: number;
   soldPrice?: number;  // Optional for active listings
-  soldDate?: string;   // Optional for active listings
+  listDate?: string;   // YYYY-MM-DD
+  soldDate?: string;   // YYYY-MM-DD, optional for active listings
   daysOnMarket?: number; // Optional for active listings
   saleToListRatio?: number; // Optional for active listings
+  status?: ListingStatus; // As reported by the MLS; unset when the source has no status
 }
 
 export interface PricePoint {
   date: string;
   price: number;
   volume: number;
+  lowConfidence?: boolean; // Too few sales; price is smoothed with adjacent months
 }
 
 export interface SeasonalityData {
   month: number;
   averagePrice: number;
   salesVolume: number;
+  lowConfidence?: boolean; // Too few sales; price is smoothed with adjacent months
 }
 
 export interface ForecastData {
-  priceChange: number;
-  confidence: number;
+  priceChange: number;  // Fractional change from the latest price, e.g. 0.03 for +3%
+  confidence: number;   // 0-1, narrows as the prediction interval widens
+  predictedPrice?: number;
+  lowerBound?: number;  // 95% prediction interval
+  upperBound?: number;
+}
+
+export type ForecastMethod = 'holt-winters' | 'linear-trend' | 'none';
+
+// Rolling-origin backtest of one-month-ahead forecasts over the price history
+export interface ForecastBacktest {
+  horizon: number;
+  observations: number;
+  meanAbsoluteError: number;
+  meanAbsolutePercentageError: number;  // Fraction, e.g. 0.02 for 2%
+  rootMeanSquaredError: number;
+}
+
+export interface MarketForecast {
+  nextMonth: ForecastData;
+  nextQuarter: ForecastData;
+  nextYear: ForecastData;
+  method?: ForecastMethod;
+  backtest?: ForecastBacktest | null;
+}
+
+// Body of a successful POST /api/forecast
+export interface ForecastResponse {
+  success: true;
+  forecast: MarketForecast;
 }
 
 export interface MarketTrends {
   priceHistory: PricePoint[];
   seasonality: SeasonalityData[];
-  forecast: {
-    nextMonth: ForecastData;
-    nextQuarter: ForecastData;
-    nextYear: ForecastData;
-  };
+  forecast: MarketForecast;
 }
 
+// Period the time-based statistics (new listings, closings, absorption,
+// supply) were measured over
+export interface ReportingWindow {
+  start: string;  // YYYY-MM-DD
+  end: string;    // YYYY-MM-DD
+  months: number;
+}
+
+// Values that cannot be derived from the report's listings are null (unknown)
+// rather than estimated
 export interface Statistics {
-  averageDaysOnMarket: number;
-  medianDaysOnMarket: number;
+  averageDaysOnMarket: number | null;
+  medianDaysOnMarket: number | null;
   totalActiveListings: number;
   totalClosedSales: number;
-  averagePrice: number;
-  medianPrice: number;
-  pricePerSquareFoot: number;
+  averagePrice: number | null;
+  medianPrice: number | null;
+  pricePerSquareFoot: number | null;
   inventoryLevel: number;
-  daysOfInventory: number;
-  absorptionRate: number;
-  newListings: number;
-  closedListings: number;
-  pendingListings: number;
-  canceledListings: number;
-  averageListPrice: number;
-  medianListPrice: number;
-  averageSoldPrice: number;
-  medianSoldPrice: number;
-  listToSoldRatio: number;
-  monthsOfSupply: number;
+  daysOfInventory: number | null;
+  absorptionRate: number | null;  // % of active inventory sold per month
+  newListings: number | null;     // Listed within the reporting window
+  closedListings: number | null;  // Closed within the reporting window
+  pendingListings: number | null;
+  canceledListings: number | null;
+  averageListPrice: number | null;
+  medianListPrice: number | null;
+  averageSoldPrice: number | null;
+  medianSoldPrice: number | null;
+  listToSoldRatio: number | null;
+  monthsOfSupply: number | null;
+  reportingWindow?: ReportingWindow | null;
+  outliersExcluded?: number;      // Listings left out of the price figures as outliers
+}
+
+// A listing whose price per square foot is far from its comparable cohort
+export interface ListingOutlier {
+  index: number;          // Position in the listings that were checked
+  mlsNumber: string;
+  cohort: string;         // e.g. "Plano, 4 bd, 2500-3500 sqft, built 2000-2014"
+  pricePerSqft: number;
+  cohortMedian: number;
+  cohortSize: number;
+  robustZScore: number;   // Signed; negative when priced below the cohort
 }
 
 export interface SchoolInfo {
@@ -94,6 +149,12 @@ export interface DemographicAnalysis {
   };
 }
 
+export interface ExtractionInfo {
+  extractor: string;
+  version: string;
+  confidence: number;
+}
+
 export interface MLSReport {
   mlsNumber: string;
   listPrice: number;
@@ -138,4 +199,5 @@ export interface MLSReport {
   closedListings: Property[];
   schoolDistricts: SchoolInfo[];
   demographicAnalysis: DemographicAnalysis;
+  extraction?: ExtractionInfo;  // Which extractor produced this report
 } 
\ No newline at end of file
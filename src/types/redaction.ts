@@ -0,0 +1,12 @@
+export type PIIEntityType = 'agentName' | 'ownerName' | 'phone' | 'email' | 'showingInstructions';
+
+export const PII_ENTITY_TYPES: PIIEntityType[] = ['agentName', 'ownerName', 'phone', 'email', 'showingInstructions'];
+
+// Which entity types are masked before text leaves the server (LLM prompts,
+// Airtable). Types set to false pass through unchanged.
+export type RedactionPolicy = Record<PIIEntityType, boolean>;
+
+export interface RedactedEntity {
+  type: PIIEntityType;
+  token: string;  // Placeholder that replaced the value, e.g. [PHONE_1]
+}
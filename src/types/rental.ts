@@ -0,0 +1,36 @@
+// Monthly rent estimates for listings, from uploaded lease comps or the
+// rent-per-sqft table in the Airtable Configuration table
+
+export interface LeaseComp {
+  address: string;
+  city: string;
+  bedrooms: number;
+  sqft: number;
+  monthlyRent: number;
+  leaseDate?: string;  // YYYY-MM-DD
+}
+
+export type RentalEstimateSource = 'lease-comps' | 'rent-table';
+
+export interface RentalEstimate {
+  mlsNumber: string;
+  monthlyRent: number;
+  rentPerSqft: number;
+  source: RentalEstimateSource;
+  leaseCompCount: number;      // Lease comps the estimate is based on; 0 for the rent table
+  grossYield: number | null;   // Annual rent / price, e.g. 0.065 for 6.5%; null without a price
+  priceToRent: number | null;  // Price / annual rent
+}
+
+export interface RentalEstimateResponse {
+  success: true;
+  estimates: RentalEstimate[];
+  // Insights written to Airtable when a saved report ID was sent
+  savedInsights: number;
+}
+
+export interface LeaseCompImportResponse {
+  success: true;
+  leaseComps: LeaseComp[];
+  skippedRows: number[];
+}
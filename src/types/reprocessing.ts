@@ -0,0 +1,64 @@
+import type { ExtractionInfo, MLSReport, Property, Statistics } from './property';
+import type { PositionedPage } from '@/utils/pdf-layout';
+
+// Everything the extractors read from an uploaded PDF, kept with the stored
+// report so it can be extracted again when the extractors improve
+export interface ReportSource {
+  fileHash: string;        // SHA-256 of the uploaded file, hex encoded
+  rawText: string;
+  pages: PositionedPage[]; // Positioned text items used by grid layouts
+}
+
+export interface StoredMLSReport {
+  reportId: string;        // Airtable record ID
+  uploadDate: string;
+  report: MLSReport;
+  source: ReportSource | null;  // Null for reports saved before sources were kept
+}
+
+export interface StoredReportSummary {
+  reportId: string;
+  uploadDate: string;
+  fileHash: string | null;
+  extraction: ExtractionInfo | null;
+  // Version of the same extractor that would run today
+  currentVersion: string | null;
+  reprocessable: boolean;
+  outdated: boolean;
+}
+
+export interface ListingFieldChange {
+  mlsNumber: string;
+  field: keyof Property;
+  previous: Property[keyof Property] | null;
+  current: Property[keyof Property] | null;
+}
+
+export interface StatisticChange {
+  field: keyof Statistics;
+  previous: Statistics[keyof Statistics] | null;
+  current: Statistics[keyof Statistics] | null;
+}
+
+export interface ReportDiff {
+  previousExtraction: ExtractionInfo | null;
+  currentExtraction: ExtractionInfo | null;
+  addedListings: string[];    // MLS numbers
+  removedListings: string[];
+  changedFields: ListingFieldChange[];
+  changedStatistics: StatisticChange[];
+  hasChanges: boolean;
+}
+
+export interface ReprocessResponse {
+  success: true;
+  reportId: string;
+  accepted: boolean;
+  diff: ReportDiff;
+  mlsData: MLSReport;
+}
+
+export interface StoredReportsResponse {
+  success: true;
+  reports: StoredReportSummary[];
+}
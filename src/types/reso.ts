@@ -0,0 +1,52 @@
+// Subset of the RESO Data Dictionary 2.0 Property resource used for import and
+// export. Field names and enumerations follow the dictionary exactly.
+
+export type ResoStandardStatus =
+  | 'Active'
+  | 'Active Under Contract'
+  | 'Canceled'
+  | 'Closed'
+  | 'Coming Soon'
+  | 'Delete'
+  | 'Expired'
+  | 'Hold'
+  | 'Incomplete'
+  | 'Pending'
+  | 'Withdrawn';
+
+export interface ResoProperty {
+  ListingId: string;
+  ListingKey?: string;
+  StandardStatus?: ResoStandardStatus;
+  UnparsedAddress?: string;
+  StreetNumber?: string;
+  StreetName?: string;
+  StreetSuffix?: string;
+  UnitNumber?: string;
+  City?: string;
+  StateOrProvince?: string;
+  PostalCode?: string;
+  ListPrice?: number;
+  ClosePrice?: number;
+  CloseDate?: string;            // YYYY-MM-DD
+  ListingContractDate?: string;  // YYYY-MM-DD
+  DaysOnMarket?: number;
+  BedroomsTotal?: number;
+  BathroomsFull?: number;
+  BathroomsHalf?: number;
+  BathroomsOneQuarter?: number;
+  BathroomsTotalInteger?: number;
+  LivingArea?: number;
+  LivingAreaUnits?: 'Square Feet';
+  YearBuilt?: number;
+  LotSizeAcres?: number;
+  GarageSpaces?: number;
+  GarageYN?: boolean;
+  PoolPrivateYN?: boolean;
+}
+
+// RESO Web API style payload
+export interface ResoFeed {
+  '@odata.context'?: string;
+  value: ResoProperty[];
+}
@@ -0,0 +1,78 @@
+import type { MLSReport } from './property';
+
+// Errors make a value unusable, warnings flag values that are possible but
+// suspicious, and info notes things worth knowing that need no action.
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+export const VALIDATION_SEVERITIES: ValidationSeverity[] = ['error', 'warning', 'info'];
+
+export interface ValidationIssue {
+  field: string;      // Path into the report, e.g. activeListings[2].sqft
+  severity: ValidationSeverity;
+  ruleId: string;     // Stable kebab-case identifier of the check that fired
+  message: string;
+}
+
+// Limits the market data rules compare against. Defaults live in
+// market-data-validator.ts and can be overridden per city and price band in
+// the Airtable Configuration table.
+export interface ValidationThresholds {
+  PRICE_VOLATILITY: number;            // Max monthly price change
+  MAX_PRICE_DROP: number;
+  MIN_CONFIDENCE: number;              // Forecasts below this are noted as low confidence
+  MAX_CONFIDENCE: number;
+  MAX_SCHOOL_DISTANCE: number;         // Miles
+  MIN_STUDENT_TEACHER_RATIO: number;
+  MAX_STUDENT_TEACHER_RATIO: number;
+  MAX_ABSORPTION_RATE: number;
+  MAX_PRICE_TO_INCOME_RATIO: number;
+  MAX_PRICE_TO_RENT_RATIO: number;
+  MAX_SEASONAL_VOLUME_CHANGE: number;
+  MAX_YOY_GROWTH: number;
+  MAX_PRICE_DEVIATION: number;         // Average price vs. median
+  MIN_DAYS_ON_MARKET: number;
+  MAX_POPULATION_DENSITY: number;      // Per square mile
+  BUYERS_MARKET_MIN_MONTHS_SUPPLY: number;
+  BUYERS_MARKET_MIN_DAYS_ON_MARKET: number;
+  BUYERS_MARKET_MAX_ABSORPTION_RATE: number;
+  BUYERS_MARKET_MAX_LIST_TO_SOLD_RATIO: number;
+  SELLERS_MARKET_MAX_MONTHS_SUPPLY: number;
+  SELLERS_MARKET_MAX_DAYS_ON_MARKET: number;
+  SELLERS_MARKET_MIN_ABSORPTION_RATE: number;
+  SELLERS_MARKET_MIN_LIST_TO_SOLD_RATIO: number;
+}
+
+export type ValidationThresholdName = keyof ValidationThresholds;
+
+// Which overrides apply to a report: its main city and the price band of its
+// median list price, e.g. { city: 'Frisco', priceBand: '750k-1.5m' }
+export interface ThresholdScope {
+  city?: string;
+  priceBand?: string;
+}
+
+export interface ValidationRule {
+  id: string;
+  description: string;
+  check: (report: MLSReport, thresholds: ValidationThresholds) => ValidationIssue[];
+}
+
+// ingest: lenient checks on a raw extraction, only rejecting reports with
+//   nothing usable in them
+// persist: what a report needs before it is written to Airtable
+// display: what the property analysis view needs to render the report
+export type ValidationProfile = 'ingest' | 'persist' | 'display';
+
+export const VALIDATION_PROFILES: ValidationProfile[] = ['ingest', 'persist', 'display'];
+
+export interface ValidationResult {
+  profile: ValidationProfile;
+  valid: boolean;  // False when any issue is an error
+  issues: ValidationIssue[];
+}
+
+export interface ValidationThresholdsResponse {
+  success: true;
+  scope: ThresholdScope;
+  thresholds: ValidationThresholds;
+}
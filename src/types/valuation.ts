@@ -0,0 +1,49 @@
+// Automated valuation from a hedonic regression of sold prices on listing
+// features, trained on stored closed sales
+
+export type NumericValuationFeature = 'sqft' | 'bedrooms' | 'bathrooms' | 'yearBuilt' | 'acres' | 'pool';
+
+export type ValuationFeature = NumericValuationFeature | 'city';
+
+export interface ValuationModel {
+  trainedAt: string;
+  sampleSize: number;
+  rSquared: number;
+  residualStandardError: number;
+  // Estimated price of a sale with average features in the baseline city
+  baseline: number;
+  baselineCity: string;
+  // Dollars per unit above the training average (per sqft, per bedroom, ...);
+  // 0 for features that did not vary across the sales
+  coefficients: Record<NumericValuationFeature, number>;
+  means: Record<NumericValuationFeature, number>;
+  // Dollars relative to the baseline city; cities with too few sales share
+  // the baseline
+  cityEffects: Record<string, number>;
+  // Regression columns and inverse of X'X, used for prediction intervals
+  columns: string[];
+  inverseGram: number[][];
+}
+
+export interface FeatureContribution {
+  feature: ValuationFeature;
+  value: number | string;
+  amount: number;         // Dollars added to the baseline
+}
+
+export interface ListingValuation {
+  mlsNumber: string;
+  listPrice: number;
+  estimatedValue: number;
+  confidenceInterval: { low: number; high: number };  // 95% prediction interval
+  contributions: FeatureContribution[];
+  priceGap: number | null;  // (list price - estimate) / estimate; null without a list price
+  // Set when the list price is outside the prediction interval
+  flag: 'above-estimate' | 'below-estimate' | null;
+}
+
+export interface ValuationResponse {
+  success: true;
+  model: ValuationModel;
+  valuations: ListingValuation[];
+}
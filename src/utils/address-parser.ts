@@ -0,0 +1,229 @@
+// US street address parsing tuned for Collin County, TX listings. Splits a
+// one-line address such as "4500 Legacy Dr Ste 210, Plano, TX 75024-3106" into
+// its parts and checks the city against the county's municipalities.
+
+export interface ParsedAddress {
+  streetNumber: string;
+  streetName: string;
+  streetSuffix?: string;  // Canonical USPS abbreviation, e.g. "Trl"
+  unit?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  street: string;         // Street line as written, without unit, city, state or ZIP
+  cityValidated: boolean; // City is a known Collin County municipality
+}
+
+// Street suffixes and their common spellings, keyed by lowercase spelling
+export const STREET_SUFFIXES: Record<string, string> = {
+  'alley': 'Aly', 'aly': 'Aly',
+  'avenue': 'Ave', 'ave': 'Ave', 'av': 'Ave',
+  'bend': 'Bnd', 'bnd': 'Bnd',
+  'boulevard': 'Blvd', 'blvd': 'Blvd', 'blv': 'Blvd',
+  'circle': 'Cir', 'cir': 'Cir', 'circ': 'Cir',
+  'cove': 'Cv', 'cv': 'Cv',
+  'court': 'Ct', 'ct': 'Ct',
+  'creek': 'Crk', 'crk': 'Crk',
+  'crossing': 'Xing', 'xing': 'Xing', 'crossroad': 'Xrd',
+  'drive': 'Dr', 'dr': 'Dr', 'drv': 'Dr',
+  'expressway': 'Expy', 'expy': 'Expy',
+  'freeway': 'Fwy', 'fwy': 'Fwy',
+  'glen': 'Gln', 'gln': 'Gln',
+  'grove': 'Grv', 'grv': 'Grv',
+  'heights': 'Hts', 'hts': 'Hts',
+  'highway': 'Hwy', 'hwy': 'Hwy',
+  'hollow': 'Holw', 'holw': 'Holw',
+  'lane': 'Ln', 'ln': 'Ln',
+  'loop': 'Loop',
+  'meadow': 'Mdw', 'meadows': 'Mdws', 'mdw': 'Mdw', 'mdws': 'Mdws',
+  'parkway': 'Pkwy', 'pkwy': 'Pkwy', 'pky': 'Pkwy',
+  'pass': 'Pass',
+  'path': 'Path',
+  'pike': 'Pike',
+  'place': 'Pl', 'pl': 'Pl',
+  'plaza': 'Plz', 'plz': 'Plz',
+  'point': 'Pt', 'pt': 'Pt',
+  'ridge': 'Rdg', 'rdg': 'Rdg',
+  'road': 'Rd', 'rd': 'Rd',
+  'row': 'Row',
+  'run': 'Run',
+  'square': 'Sq', 'sq': 'Sq',
+  'street': 'St', 'st': 'St', 'str': 'St',
+  'terrace': 'Ter', 'ter': 'Ter', 'terr': 'Ter',
+  'trace': 'Trce', 'trce': 'Trce',
+  'trail': 'Trl', 'trl': 'Trl',
+  'view': 'Vw', 'vw': 'Vw',
+  'vista': 'Vis', 'vis': 'Vis',
+  'walk': 'Walk',
+  'way': 'Way', 'wy': 'Way'
+};
+
+// Incorporated municipalities in (or partly in) Collin County
+export const COLLIN_COUNTY_CITIES = [
+  'Allen',
+  'Anna',
+  'Blue Ridge',
+  'Celina',
+  'Dallas',
+  'Fairview',
+  'Farmersville',
+  'Frisco',
+  'Garland',
+  'Josephine',
+  'Lavon',
+  'Lowry Crossing',
+  'Lucas',
+  'McKinney',
+  'Melissa',
+  'Murphy',
+  'Nevada',
+  'New Hope',
+  'Parker',
+  'Plano',
+  'Princeton',
+  'Prosper',
+  'Richardson',
+  'Royse City',
+  'Sachse',
+  'St. Paul',
+  'Van Alstyne',
+  'Weston',
+  'Wylie'
+];
+
+const CITY_ALIASES: Record<string, string> = {
+  'saint paul': 'St. Paul',
+  'st paul': 'St. Paul',
+  'mckinny': 'McKinney'
+};
+
+const STATE_PATTERN = /(?:^|[\s,])(TX|Texas)\.?$/i;
+const ZIP_PATTERN = /(?:^|[\s,])(\d{5})(?:-\d{4})?$/;
+const UNIT_PATTERN = /[\s,]+(?:#\s*|(?:apt|apartment|unit|ste|suite|bldg|building)\.?\s+#?\s*)([\w-]+)$/i;
+const STREET_NUMBER_PATTERN = /^(\d+[A-Z]?)\s+(.+)$/i;
+const ADDRESS_LABEL_PATTERN = /^(?:property\s+)?(?:address|addr)\s*:\s*/i;
+
+function cityKey(city: string): string {
+  return city.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+const CITY_LOOKUP = new Map<string, string>([
+  ...COLLIN_COUNTY_CITIES.map(city => [cityKey(city), city] as [string, string]),
+  ...Object.entries(CITY_ALIASES)
+]);
+
+// Longest first so "Royse City" wins over a shorter trailing match
+const CITIES_BY_LENGTH = Array.from(CITY_LOOKUP.keys()).sort((a, b) => b.length - a.length);
+
+/**
+ * Returns the canonical spelling of a Collin County city, or null when the
+ * city is not in the bundled municipality list.
+ */
+export function normalizeCity(city: string): string | null {
+  return CITY_LOOKUP.get(cityKey(city).replace(/[.,]+$/, '')) || null;
+}
+
+export function isCollinCountyCity(city: string): boolean {
+  return normalizeCity(city) !== null;
+}
+
+export function normalizeStreetSuffix(suffix: string): string | undefined {
+  return STREET_SUFFIXES[suffix.toLowerCase().replace(/\.$/, '')];
+}
+
+function toTitleCase(text: string): string {
+  return text.toLowerCase().replace(/\b[a-z]/g, letter => letter.toUpperCase());
+}
+
+/**
+ * Splits a "City, TX 75024" fragment into city, state and ZIP. Missing parts
+ * are left undefined.
+ */
+export function parseCityStateZip(text: string): Pick<ParsedAddress, 'city' | 'state' | 'zipCode' | 'cityValidated'> {
+  let rest = text.replace(/\s+/g, ' ').trim();
+  let state: string | undefined;
+  let zipCode: string | undefined;
+
+  const zipMatch = rest.match(ZIP_PATTERN);
+  if (zipMatch) {
+    zipCode = zipMatch[1];
+    rest = rest.slice(0, zipMatch.index).trim();
+  }
+
+  const stateMatch = rest.match(STATE_PATTERN);
+  if (stateMatch) {
+    state = 'TX';
+    rest = rest.slice(0, stateMatch.index).trim();
+  }
+
+  rest = rest.replace(/[,\s]+$/, '');
+  const normalized = rest ? normalizeCity(rest) : null;
+
+  return {
+    city: normalized || (rest ? toTitleCase(rest) : undefined),
+    state,
+    zipCode,
+    cityValidated: normalized !== null
+  };
+}
+
+/**
+ * Parses a one-line US street address. Returns null when the text does not
+ * start with a street number followed by a recognizable street: either a known
+ * suffix (Trail, Parkway, Crossing, ...) or a trailing city, state or ZIP.
+ */
+export function parseAddress(text: string): ParsedAddress | null {
+  const line = text.replace(ADDRESS_LABEL_PATTERN, '').replace(/\s+/g, ' ').trim();
+  const [streetPart, ...localityParts] = line.split(',').map(part => part.trim());
+
+  let street = streetPart;
+  let locality = localityParts.filter(Boolean).join(', ');
+
+  // Without commas, peel a known city, state and ZIP off the end of the line
+  if (!localityParts.length) {
+    const { state, zipCode } = parseCityStateZip(line);
+    let trimmed = line;
+    if (zipCode) trimmed = trimmed.replace(ZIP_PATTERN, '').trim();
+    if (state) trimmed = trimmed.replace(STATE_PATTERN, '').trim();
+    const lower = trimmed.toLowerCase();
+    const city = CITIES_BY_LENGTH.find(key => lower.endsWith(` ${key}`));
+    if (city) trimmed = trimmed.slice(0, trimmed.length - city.length).trim();
+    street = trimmed;
+    locality = line.slice(trimmed.length).trim();
+  }
+
+  let unit: string | undefined;
+  const unitMatch = street.match(UNIT_PATTERN);
+  if (unitMatch) {
+    unit = unitMatch[1];
+    street = street.slice(0, unitMatch.index).trim();
+  } else if (localityParts.length && UNIT_PATTERN.test(`, ${localityParts[0]}`)) {
+    // "123 Main St, Apt 4, Plano"
+    unit = `, ${localityParts[0]}`.match(UNIT_PATTERN)![1];
+    locality = localityParts.slice(1).join(', ');
+  }
+
+  const numberMatch = street.match(STREET_NUMBER_PATTERN);
+  if (!numberMatch) return null;
+
+  const words = numberMatch[2].split(' ');
+  // Suffixes may be followed by a post-directional, e.g. "Main St N"
+  const suffixIndex = words.length > 1 && /^[NSEW]$/i.test(words[words.length - 1])
+    ? words.length - 2
+    : words.length - 1;
+  const streetSuffix = suffixIndex > 0 ? normalizeStreetSuffix(words[suffixIndex]) : undefined;
+  const locale = parseCityStateZip(locality);
+
+  if (!streetSuffix && !locale.cityValidated && !locale.zipCode) {
+    return null;
+  }
+
+  return {
+    streetNumber: numberMatch[1],
+    streetName: (streetSuffix ? words.filter((_, i) => i !== suffixIndex) : words).join(' '),
+    streetSuffix,
+    unit,
+    street,
+    ...locale
+  };
+}
@@ -1,16 +1,69 @@
 import Airtable from 'airtable';
 import type { Property, MLSReport } from '@/types/property';
 import type { MLSReportRecord, ListingRecord, InsightRecord, ConfigurationRecord } from '@/types/airtable';
+import type { ReportSource, StoredMLSReport } from '@/types/reprocessing';
+import type { RentalEstimate } from '@/types/rental';
+import type { InvestmentAnalysis, InvestmentAssumptions } from '@/types/investment';
 import { AIRTABLE_TABLES } from '@/types/airtable';
+import { createRedactionSession } from './pii-redaction';
+import { assertValidReport, validateReport } from './validation-profiles';
 
 const base = new Airtable({ apiKey: process.env.AIRTABLE_API_KEY }).base(process.env.AIRTABLE_BASE_ID || '');
 
-export async function createMLSReport(mlsData: MLSReport): Promise<string> {
+// Airtable rejects long text values over 100,000 characters
+const LONG_TEXT_LIMIT = 100000;
+
+// Airtable accepts at most 10 records per create, update or destroy request
+const BATCH_SIZE = 10;
+
+function batches<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    chunks.push(items.slice(i, i + BATCH_SIZE));
+  }
+  return chunks;
+}
+
+// Report data too large for Airtable is cleared, with a note on the record;
+// those reports cannot be reprocessed or used to train valuations. Listings
+// missing an MLS number, address or price are noted as well.
+function reportFields(mlsData: MLSReport): Partial<MLSReportRecord['fields']> {
+  const { extraction } = mlsData;
+  const extractor = extraction ? `${extraction.extractor}@${extraction.version}` : undefined;
+  const notes = validateReport(mlsData, 'persist').issues
+    .filter(issue => issue.ruleId === 'listing-identity')
+    .map(issue => `${issue.field}: ${issue.message}`);
+  let reportData = JSON.stringify(mlsData);
+  if (reportData.length > LONG_TEXT_LIMIT) {
+    const note = `Report data is ${reportData.length} characters, over the ${LONG_TEXT_LIMIT} Airtable allows; only the listings were stored`;
+    console.warn(note);
+    notes.unshift(note);
+    reportData = '';
+  }
+  return { 'Report Data': reportData, 'Extractor': extractor, 'Error Notes': notes.join('\n') };
+}
+
+// Sources too large for Airtable are left out; those reports cannot be reprocessed
+function sourceFields(source?: ReportSource): Partial<MLSReportRecord['fields']> {
+  if (!source) return {};
+  // Spreadsheet imports have no text to extract again
+  if (!source.rawText) return { 'File Hash': source.fileHash };
+  const layout = JSON.stringify(source.pages);
+  if (source.rawText.length > LONG_TEXT_LIMIT || layout.length > LONG_TEXT_LIMIT) {
+    console.warn(`Source text for file ${source.fileHash} is too large to store; it cannot be reprocessed`);
+    return { 'File Hash': source.fileHash };
+  }
+  return { 'File Hash': source.fileHash, 'Raw Text': source.rawText, 'Source Layout': layout };
+}
+
+export async function createMLSReport(mlsData: MLSReport, source?: ReportSource): Promise<string> {
   const reportRecord = await base(AIRTABLE_TABLES.MLS_REPORTS).create({
     'Report ID': `RPT${Date.now()}`,
     'Upload Date': new Date().toISOString(),
     'Uploaded By': 'System',
-    'Processing Status': 'Pending'
+    'Processing Status': 'Pending',
+    ...reportFields(mlsData),
+    ...sourceFields(source)
   });
 
   return reportRecord.id;
@@ -32,8 +85,12 @@ export async function createListings(reportId: string, properties: Property[]):
     }
   }));
 
-  const records = await base(AIRTABLE_TABLES.LISTINGS).create(listingRecords);
-  return records.map(record => record.id);
+  const ids: string[] = [];
+  for (const batch of batches(listingRecords)) {
+    const records = await base(AIRTABLE_TABLES.LISTINGS).create(batch);
+    ids.push(...records.map(record => record.id));
+  }
+  return ids;
 }
 
 export async function createInsight(
@@ -43,7 +100,7 @@ export async function createInsight(
   data: string
 ): Promise<string> {
   const insightRecord = await base(AIRTABLE_TABLES.INSIGHTS).create({
-    'Insight ID': `INS${Date.now()}`,
+    'Insight ID': `INS${Date.now()}-${listingId}`,
     'Report ID': [reportId],
     'Listing ID': [listingId],
     'Insight Type': type,
@@ -54,6 +111,61 @@ export async function createInsight(
   return insightRecord.id;
 }
 
+// Listing record IDs of a saved report by MLS number
+async function getReportListingRecordIds(reportId: string): Promise<Map<string, string>> {
+  const report = await base(AIRTABLE_TABLES.MLS_REPORTS).find(reportId);
+  const listingIds = (report.fields['Extracted Data'] as string[] | undefined) || [];
+  if (!listingIds.length) return new Map();
+
+  const listings = await base(AIRTABLE_TABLES.LISTINGS)
+    .select({ filterByFormula: `OR(${listingIds.map(id => `RECORD_ID() = '${id}'`).join(', ')})` })
+    .all();
+  // Listing IDs are "LST<timestamp>-<MLS number>" (see createListings)
+  return listings.reduce((ids, listing) => {
+    const listingId = String(listing.fields['Listing ID'] || '');
+    return ids.set(listingId.slice(listingId.indexOf('-') + 1), listing.id);
+  }, new Map<string, string>());
+}
+
+/**
+ * Records rental estimates against a saved report's listings: a Rental
+ * Estimate insight per listing and the monthly rent on the listing record.
+ * Estimates for listings that are not in the report are skipped. Returns the
+ * number of insights created.
+ */
+export async function saveRentalEstimates(reportId: string, estimates: RentalEstimate[]): Promise<number> {
+  if (!estimates.length) return 0;
+  const recordIds = await getReportListingRecordIds(reportId);
+
+  const saved = estimates.filter(estimate => recordIds.has(estimate.mlsNumber));
+  for (const batch of batches(saved)) {
+    await Promise.all(batch.map(estimate =>
+      createInsight(reportId, recordIds.get(estimate.mlsNumber) as string, 'Rental Estimate', JSON.stringify(estimate))));
+    await base(AIRTABLE_TABLES.LISTINGS).update(batch.map(estimate => ({
+      id: recordIds.get(estimate.mlsNumber) as string,
+      fields: { 'Rental Estimate': estimate.monthlyRent }
+    })));
+  }
+
+  return saved.length;
+}
+
+/**
+ * Saves an investment analysis of one of a saved report's listings as a
+ * Comparison insight. Returns the insight's record ID, or null when the
+ * listing is not in the report.
+ */
+export async function saveInvestmentAnalysis(
+  reportId: string,
+  mlsNumber: string,
+  assumptions: InvestmentAssumptions,
+  analysis: InvestmentAnalysis
+): Promise<string | null> {
+  const recordId = (await getReportListingRecordIds(reportId)).get(mlsNumber);
+  if (!recordId) return null;
+  return createInsight(reportId, recordId, 'Comparison', JSON.stringify({ kind: 'investment', assumptions, analysis }));
+}
+
 export async function getConfiguration(configName: string): Promise<number | null> {
   const records = await base(AIRTABLE_TABLES.CONFIGURATION)
     .select({
@@ -68,6 +180,28 @@ export async function getConfiguration(configName: string): Promise<number | nul
   return null;
 }
 
+/**
+ * Looks up several configuration values in one request. Names without a
+ * record are left out of the result.
+ */
+export async function getConfigurations(configNames: string[]): Promise<Record<string, number>> {
+  if (!configNames.length) return {};
+
+  const formula = `OR(${configNames.map(name => `{Config Name} = '${name.replace(/'/g, "\\'")}'`).join(', ')})`;
+  const records = await base(AIRTABLE_TABLES.CONFIGURATION)
+    .select({ filterByFormula: formula })
+    .all();
+
+  return records.reduce<Record<string, number>>((values, record) => {
+    const name = record.fields['Config Name'] as string;
+    const value = record.fields['Value'];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      values[name] = value;
+    }
+    return values;
+  }, {});
+}
+
 export async function updateMLSReportStatus(
   reportId: string, 
   status: 'Completed' | 'Error',
@@ -79,10 +213,20 @@ export async function updateMLSReportStatus(
   });
 }
 
-export async function saveMLSData(mlsData: MLSReport): Promise<void> {
+/**
+ * Saves a report and its listings, returning the report's record ID. Passing
+ * the source the report was extracted from allows it to be reprocessed later.
+ * Personal information in the source text and free-text report fields is
+ * redacted according to the PII redaction policy before it is sent. Reports
+ * that fail the persist validation profile are rejected before any write.
+ */
+export async function saveMLSData(mlsData: MLSReport, source?: ReportSource): Promise<string> {
   try {
+    assertValidReport(mlsData, 'persist');
+    const redaction = createRedactionSession();
+
     // Create MLS Report
-    const reportId = await createMLSReport(mlsData);
+    const reportId = await createMLSReport(redaction.redactReport(mlsData), source && redaction.redactSource(source));
 
     // Create Listings
     const allProperties = [...mlsData.activeListings, ...mlsData.closedListings];
@@ -94,8 +238,75 @@ export async function saveMLSData(mlsData: MLSReport): Promise<void> {
       'Processing Status': 'Completed'
     });
 
+    return reportId;
   } catch (error) {
     console.error('Error saving MLS data:', error);
     throw error;
   }
+}
+
+function toStoredReport(id: string, fields: Partial<MLSReportRecord['fields']>): StoredMLSReport | null {
+  if (!fields['Report Data']) return null;
+  const source: ReportSource | null = fields['File Hash'] && fields['Raw Text']
+    ? {
+      fileHash: fields['File Hash'],
+      rawText: fields['Raw Text'],
+      pages: fields['Source Layout'] ? JSON.parse(fields['Source Layout']) : []
+    }
+    : null;
+
+  return {
+    reportId: id,
+    uploadDate: fields['Upload Date'] || '',
+    report: JSON.parse(fields['Report Data']) as MLSReport,
+    source
+  };
+}
+
+/**
+ * Loads a saved report with its stored source. Null when the record does not
+ * exist or was saved before report data was kept.
+ */
+export async function getStoredMLSReport(reportId: string): Promise<StoredMLSReport | null> {
+  try {
+    const record = await base(AIRTABLE_TABLES.MLS_REPORTS).find(reportId);
+    return toStoredReport(record.id, record.fields as Partial<MLSReportRecord['fields']>);
+  } catch (error) {
+    if ((error as { statusCode?: number }).statusCode === 404) return null;
+    throw error;
+  }
+}
+
+export async function listStoredMLSReports(): Promise<StoredMLSReport[]> {
+  const records = await base(AIRTABLE_TABLES.MLS_REPORTS)
+    .select({ sort: [{ field: 'Upload Date', direction: 'desc' }] })
+    .all();
+
+  return records
+    .map(record => toStoredReport(record.id, record.fields as Partial<MLSReportRecord['fields']>))
+    .filter((stored): stored is StoredMLSReport => stored !== null);
+}
+
+/**
+ * Replaces a saved report's data and listings with a reprocessed extraction.
+ * The stored source is kept so the report can be reprocessed again. The
+ * previous listings are only deleted once the new ones are created and linked,
+ * so a failed write leaves the report as it was.
+ */
+export async function acceptReprocessedReport(reportId: string, mlsData: MLSReport): Promise<void> {
+  assertValidReport(mlsData, 'persist');
+  const record = await base(AIRTABLE_TABLES.MLS_REPORTS).find(reportId);
+  const previousListingIds = (record.fields['Extracted Data'] as string[] | undefined) || [];
+
+  const listingIds = await createListings(reportId, [...mlsData.activeListings, ...mlsData.closedListings]);
+  await base(AIRTABLE_TABLES.MLS_REPORTS).update(reportId, {
+    ...reportFields(createRedactionSession().redactReport(mlsData)),
+    'Extracted Data': listingIds,
+    'Processing Status': 'Completed',
+    'Reprocessed Date': new Date().toISOString()
+  });
+
+  for (const batch of batches(previousListingIds)) {
+    await base(AIRTABLE_TABLES.LISTINGS).destroy(batch);
+  }
 } 
\ No newline at end of file
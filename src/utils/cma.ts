@@ -0,0 +1,208 @@
+import type { Property } from '@/types/property';
+import type {
+  CMAAdjustmentLine,
+  CMAAdjustments,
+  CMAComp,
+  CMACriteria,
+  CMAFeature,
+  CMAResult
+} from '@/types/cma';
+
+// Comparative market analysis: prices a subject property from closed sales
+// of similar homes, adjusting each sale for the ways it differs from the
+// subject (an adjustment grid) the way an appraiser would.
+
+// Typical Collin County contributions to a sale price
+export const DEFAULT_CMA_ADJUSTMENTS: CMAAdjustments = {
+  perSqft: 120,
+  perBedroom: 10000,
+  pool: 25000,
+  perGarageSpace: 8000,
+  perAcre: 50000,
+  perYearBuilt: 1500
+};
+
+// Comps always share the subject's city. The criteria widen until at least
+// MIN_COMPS sales match.
+export const CMA_CRITERIA: CMACriteria[] = [
+  {
+    label: 'same city, size within 15%, within 1 bedroom, built within 10 years, sold within 6 months',
+    maxSqftDifference: 0.15,
+    maxBedroomDifference: 1,
+    maxAgeDifference: 10,
+    maxMonthsSinceSale: 6
+  },
+  {
+    label: 'same city, size within 25%, within 1 bedroom, built within 20 years, sold within 12 months',
+    maxSqftDifference: 0.25,
+    maxBedroomDifference: 1,
+    maxAgeDifference: 20,
+    maxMonthsSinceSale: 12
+  }
+];
+
+export const MIN_COMPS = 3;
+export const MAX_COMPS = 6;
+
+const DAYS_PER_MONTH = 365.25 / 12;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// The suggested price and range are rounded to this
+const PRICE_ROUNDING = 1000;
+
+export class CMAError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CMAError';
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, CMAError.prototype);
+  }
+}
+
+function garageSpaces(garage: string): number {
+  const match = (garage || '').match(/\d+/);
+  return match ? parseInt(match[0], 10) : 0;
+}
+
+function monthsBetween(start: string, end: string): number {
+  return (Date.parse(end) - Date.parse(start)) / MS_PER_DAY / DAYS_PER_MONTH;
+}
+
+function sameCity(a: string, b: string): boolean {
+  return Boolean(a) && a.trim().toLowerCase() === (b || '').trim().toLowerCase();
+}
+
+// Sales without a close date cannot be checked for recency; they are kept
+// but ranked after dated sales
+function monthsSinceSale(comp: Property, asOf: string): number | null {
+  return comp.soldDate ? monthsBetween(comp.soldDate, asOf) : null;
+}
+
+function matchesCriteria(subject: Property, comp: Property, criteria: CMACriteria, asOf: string): boolean {
+  const months = monthsSinceSale(comp, asOf);
+  const bothDated = subject.yearBuilt > 0 && comp.yearBuilt > 0;
+  return sameCity(subject.city, comp.city) &&
+    Math.abs(comp.sqft - subject.sqft) <= subject.sqft * criteria.maxSqftDifference &&
+    Math.abs(comp.bedrooms - subject.bedrooms) <= criteria.maxBedroomDifference &&
+    (!bothDated || Math.abs(comp.yearBuilt - subject.yearBuilt) <= criteria.maxAgeDifference) &&
+    (months === null || months <= criteria.maxMonthsSinceSale);
+}
+
+// Lower is more similar: size matters most, then bedrooms, age and recency
+function dissimilarity(subject: Property, comp: Property, asOf: string): number {
+  const months = monthsSinceSale(comp, asOf);
+  const ageDifference = subject.yearBuilt > 0 && comp.yearBuilt > 0 ? Math.abs(comp.yearBuilt - subject.yearBuilt) : 0;
+  return Math.abs(comp.sqft - subject.sqft) / subject.sqft +
+    Math.abs(comp.bedrooms - subject.bedrooms) * 0.1 +
+    ageDifference / 100 +
+    (months === null ? 1 : months / 24);
+}
+
+function featureValues(listing: Property): Record<CMAFeature, number> {
+  return {
+    perSqft: listing.sqft,
+    perBedroom: listing.bedrooms,
+    pool: listing.pool ? 1 : 0,
+    perGarageSpace: garageSpaces(listing.garage),
+    perAcre: listing.acres,
+    perYearBuilt: listing.yearBuilt
+  };
+}
+
+/**
+ * Adjusts a comp's sold price to the subject: each feature that differs adds
+ * (subject value - comp value) x the feature's dollar rate. Age is skipped
+ * when either year built is unknown.
+ */
+export function adjustComp(subject: Property, comp: Property, adjustments: CMAAdjustments): CMAComp {
+  const subjectValues = featureValues(subject);
+  const compValues = featureValues(comp);
+
+  const lines = (Object.keys(adjustments) as CMAFeature[])
+    .filter(feature => feature !== 'perYearBuilt' || (subjectValues.perYearBuilt > 0 && compValues.perYearBuilt > 0))
+    .filter(feature => subjectValues[feature] !== compValues[feature])
+    .map<CMAAdjustmentLine>(feature => ({
+      feature,
+      subjectValue: subjectValues[feature],
+      compValue: compValues[feature],
+      amount: Math.round((subjectValues[feature] - compValues[feature]) * adjustments[feature])
+    }));
+  const netAdjustment = lines.reduce((total, line) => total + line.amount, 0);
+
+  return {
+    listing: comp,
+    adjustments: lines,
+    netAdjustment,
+    adjustedPrice: (comp.soldPrice || 0) + netAdjustment
+  };
+}
+
+/**
+ * Picks up to MAX_COMPS closed sales most similar to the subject under the
+ * narrowest criteria that match MIN_COMPS sales, falling back to the widest
+ * criteria when fewer match. Null when no sale matches at all.
+ */
+export function selectComps(
+  subject: Property,
+  closedListings: Property[],
+  asOf: string
+): { criteria: CMACriteria; comps: Property[] } | null {
+  const candidates = closedListings.filter(listing =>
+    (listing.soldPrice || 0) > 0 && listing.sqft > 0 && listing.mlsNumber !== subject.mlsNumber);
+
+  for (let i = 0; i < CMA_CRITERIA.length; i++) {
+    const criteria = CMA_CRITERIA[i];
+    const matches = candidates.filter(comp => matchesCriteria(subject, comp, criteria, asOf));
+    if (matches.length >= MIN_COMPS || (i === CMA_CRITERIA.length - 1 && matches.length > 0)) {
+      const comps = matches
+        .sort((a, b) => dissimilarity(subject, a, asOf) - dissimilarity(subject, b, asOf))
+        .slice(0, MAX_COMPS);
+      return { criteria, comps };
+    }
+  }
+  return null;
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+const roundPrice = (price: number) => Math.round(price / PRICE_ROUNDING) * PRICE_ROUNDING;
+
+/**
+ * Prices the subject from the adjusted comps: the suggested list price is the
+ * median adjusted price, and the range spans the middle half of them.
+ * Adjustment rates not given use DEFAULT_CMA_ADJUSTMENTS; sale recency is
+ * measured from `asOf` (YYYY-MM-DD), today by default.
+ */
+export function runCMA(
+  subject: Property,
+  closedListings: Property[],
+  options: { adjustments?: Partial<CMAAdjustments>; asOf?: string } = {}
+): CMAResult {
+  if (!(subject.sqft > 0)) {
+    throw new CMAError('The subject property needs its square footage');
+  }
+
+  const asOf = options.asOf || new Date().toISOString().slice(0, 10);
+  const adjustments = { ...DEFAULT_CMA_ADJUSTMENTS, ...options.adjustments };
+  const selection = selectComps(subject, closedListings, asOf);
+  if (!selection) {
+    throw new CMAError(`No comparable sales found in ${subject.city || 'the subject\'s city'}`);
+  }
+
+  const comps = selection.comps.map(comp => adjustComp(subject, comp, adjustments));
+  const prices = comps.map(comp => comp.adjustedPrice).sort((a, b) => a - b);
+
+  return {
+    subject,
+    asOf,
+    criteria: selection.criteria,
+    comps,
+    suggestedPrice: roundPrice(percentile(prices, 0.5)),
+    priceRange: { low: roundPrice(percentile(prices, 0.25)), high: roundPrice(percentile(prices, 0.75)) }
+  };
+}
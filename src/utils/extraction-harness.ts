@@ -0,0 +1,291 @@
+import fs from 'fs';
+import path from 'path';
+import { processPDF } from './pdf-processor';
+import type { DocumentParser, ProcessingResult } from './pdf-processor';
+import type { MLSReport, Property } from '@/types/property';
+
+// Golden-file regression harness for extraction. Each fixture is an MLS report
+// (a PDF, or its text as a .txt file) paired with `<name>.expected.json`
+// holding the listings it should produce. Listings are matched by MLS number
+// and every field is scored, so precision and recall per field show whether an
+// extractor change helped or hurt.
+
+export const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'src', 'tests', 'fixtures', 'extraction');
+
+const EXPECTED_SUFFIX = '.expected.json';
+const FIXTURE_EXTENSIONS = ['.pdf', '.txt'];
+
+export interface ExpectedReport {
+  extractor?: string;   // Extractor that should recognize the layout
+  activeListings: Property[];
+  closedListings: Property[];
+}
+
+export interface ExtractionFixture {
+  name: string;
+  file: string;
+  expected: ExpectedReport;
+}
+
+export interface FieldMismatch {
+  fixture: string;
+  mlsNumber: string;
+  field: keyof Property | 'extractor' | 'listingGroup';
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface FieldScore {
+  field: string;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface FixtureResult {
+  fixture: string;
+  error?: string;
+  mismatches: FieldMismatch[];
+  // Per-field counts for this fixture; see scoreFields for totals
+  counts: Record<string, Omit<FieldScore, 'field' | 'precision' | 'recall'>>;
+}
+
+/**
+ * Parser for fixtures stored as extracted text: the file is the text, with no
+ * positioned layout.
+ */
+export const parseTextFixture: DocumentParser = async (fileBuffer, onPage) => {
+  onPage(1, 1);
+  return { text: fileBuffer.toString('utf8'), pages: [] };
+};
+
+/**
+ * Finds every fixture in `dir` that has an expected report beside it.
+ */
+export function loadFixtures(dir: string = DEFAULT_FIXTURES_DIR): ExtractionFixture[] {
+  return fs.readdirSync(dir)
+    .filter(file => FIXTURE_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+    .sort()
+    .map(file => {
+      const name = path.basename(file, path.extname(file));
+      const expectedFile = expectedFilePath(path.join(dir, file));
+      if (!fs.existsSync(expectedFile)) return null;
+      return {
+        name,
+        file: path.join(dir, file),
+        expected: JSON.parse(fs.readFileSync(expectedFile, 'utf8')) as ExpectedReport
+      };
+    })
+    .filter((fixture): fixture is ExtractionFixture => fixture !== null);
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '';
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function listingGroups(report: Pick<MLSReport, 'activeListings' | 'closedListings'>): Map<string, { group: string; listing: Property }> {
+  const listings = new Map<string, { group: string; listing: Property }>();
+  report.activeListings.forEach(listing => listings.set(listing.mlsNumber, { group: 'active', listing }));
+  report.closedListings.forEach(listing => listings.set(listing.mlsNumber, { group: 'closed', listing }));
+  return listings;
+}
+
+/**
+ * Scores an extracted report against the expected one. A field counts as a
+ * true positive when both hold the same value, a false negative when an
+ * expected value is missing or wrong, and a false positive when an extracted
+ * value is not expected or wrong. Listings missing from either side count all
+ * of their fields.
+ */
+export function compareReports(fixture: string, expected: ExpectedReport, actual: MLSReport): FixtureResult {
+  const result: FixtureResult = { fixture, mismatches: [], counts: {} };
+  const count = (field: string, outcome: 'truePositives' | 'falsePositives' | 'falseNegatives') => {
+    result.counts[field] = result.counts[field] || { truePositives: 0, falsePositives: 0, falseNegatives: 0 };
+    result.counts[field][outcome]++;
+  };
+
+  if (expected.extractor && expected.extractor !== actual.extraction?.extractor) {
+    result.mismatches.push({
+      fixture,
+      mlsNumber: '',
+      field: 'extractor',
+      expected: expected.extractor,
+      actual: actual.extraction?.extractor ?? null
+    });
+  }
+
+  const expectedListings = listingGroups(expected);
+  const actualListings = listingGroups(actual);
+  const mlsNumbers = Array.from(new Set([...Array.from(expectedListings.keys()), ...Array.from(actualListings.keys())]));
+
+  mlsNumbers.forEach(mlsNumber => {
+    const expectedEntry = expectedListings.get(mlsNumber);
+    const actualEntry = actualListings.get(mlsNumber);
+
+    if (expectedEntry && actualEntry && expectedEntry.group !== actualEntry.group) {
+      result.mismatches.push({
+        fixture,
+        mlsNumber,
+        field: 'listingGroup',
+        expected: expectedEntry.group,
+        actual: actualEntry.group
+      });
+    }
+
+    const expectedListing = (expectedEntry?.listing || {}) as Partial<Property>;
+    const actualListing = (actualEntry?.listing || {}) as Partial<Property>;
+    const fields = Array.from(new Set([...Object.keys(expectedListing), ...Object.keys(actualListing)])) as Array<keyof Property>;
+
+    fields.forEach(field => {
+      const expectedValue = expectedListing[field];
+      const actualValue = actualListing[field];
+      const hasExpected = isPresent(expectedValue);
+      const hasActual = isPresent(actualValue);
+
+      if (hasExpected && hasActual && isSame(expectedValue, actualValue)) {
+        count(field, 'truePositives');
+        return;
+      }
+      if (!hasExpected && !hasActual) return;
+
+      if (hasExpected) count(field, 'falseNegatives');
+      if (hasActual) count(field, 'falsePositives');
+      result.mismatches.push({
+        fixture,
+        mlsNumber,
+        field,
+        expected: hasExpected ? expectedValue : null,
+        actual: hasActual ? actualValue : null
+      });
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Runs a fixture file through processPDF; text fixtures skip PDF parsing.
+ */
+export function extractFixture(file: string): Promise<ProcessingResult> {
+  const isText = path.extname(file).toLowerCase() === '.txt';
+  return processPDF(fs.readFileSync(file), isText ? { parse: parseTextFixture } : {});
+}
+
+export async function runFixture(fixture: ExtractionFixture): Promise<FixtureResult> {
+  const result = await extractFixture(fixture.file);
+  if (!result.success || !result.data) {
+    const nothing: ExpectedReport = { activeListings: [], closedListings: [] };
+    return {
+      ...compareReports(fixture.name, fixture.expected, nothing as MLSReport),
+      error: result.error || 'Processing failed'
+    };
+  }
+  return compareReports(fixture.name, fixture.expected, result.data);
+}
+
+/**
+ * The expected-report form of an extraction, for writing golden files. Review
+ * the written file by hand before committing it.
+ */
+export function toExpectedReport(report: MLSReport): ExpectedReport {
+  return {
+    extractor: report.extraction?.extractor,
+    activeListings: report.activeListings,
+    closedListings: report.closedListings
+  };
+}
+
+export function expectedFilePath(fixtureFile: string): string {
+  return path.join(path.dirname(fixtureFile), `${path.basename(fixtureFile, path.extname(fixtureFile))}${EXPECTED_SUFFIX}`);
+}
+
+export async function runFixtures(fixtures: ExtractionFixture[]): Promise<FixtureResult[]> {
+  const results: FixtureResult[] = [];
+  for (const fixture of fixtures) {
+    results.push(await runFixture(fixture));
+  }
+  return results;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+}
+
+/**
+ * Totals the per-field counts across fixtures, sorted by field name.
+ */
+export function scoreFields(results: FixtureResult[]): FieldScore[] {
+  const totals = new Map<string, Omit<FieldScore, 'field' | 'precision' | 'recall'>>();
+  results.forEach(result => {
+    Object.entries(result.counts).forEach(([field, counts]) => {
+      const total = totals.get(field) || { truePositives: 0, falsePositives: 0, falseNegatives: 0 };
+      totals.set(field, {
+        truePositives: total.truePositives + counts.truePositives,
+        falsePositives: total.falsePositives + counts.falsePositives,
+        falseNegatives: total.falseNegatives + counts.falseNegatives
+      });
+    });
+  });
+
+  return Array.from(totals.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([field, counts]) => ({
+      field,
+      ...counts,
+      precision: ratio(counts.truePositives, counts.truePositives + counts.falsePositives),
+      recall: ratio(counts.truePositives, counts.truePositives + counts.falseNegatives)
+    }));
+}
+
+function formatValue(value: unknown): string {
+  return value === null || value === undefined ? '(missing)' : JSON.stringify(value);
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? '-' : value.toFixed(3);
+}
+
+function formatScoreRow(width: number, cells: string[]): string {
+  const [field, precision, recall, ...counts] = cells;
+  return [field.padEnd(width), precision.padStart(9), recall.padStart(6), ...counts.map(count => count.padStart(3))].join('  ');
+}
+
+/**
+ * Renders the field-level diff of every fixture and the precision/recall table
+ * as plain text for the command line.
+ */
+export function formatHarnessReport(results: FixtureResult[]): string {
+  const lines: string[] = [];
+
+  results.forEach(result => {
+    const status = result.error ? `ERROR: ${result.error}` : result.mismatches.length ? `${result.mismatches.length} differences` : 'ok';
+    lines.push(`${result.fixture}: ${status}`);
+    result.mismatches.forEach(mismatch => {
+      const listing = mismatch.mlsNumber ? `MLS#${mismatch.mlsNumber} ` : '';
+      lines.push(`  ${listing}${mismatch.field}: expected ${formatValue(mismatch.expected)}, got ${formatValue(mismatch.actual)}`);
+    });
+  });
+
+  const scores = scoreFields(results);
+  const width = Math.max(5, ...scores.map(score => score.field.length));
+  lines.push('');
+  lines.push(formatScoreRow(width, ['Field', 'Precision', 'Recall', 'TP', 'FP', 'FN']));
+  scores.forEach(score => {
+    lines.push(formatScoreRow(width, [
+      score.field,
+      formatRatio(score.precision),
+      formatRatio(score.recall),
+      String(score.truePositives),
+      String(score.falsePositives),
+      String(score.falseNegatives)
+    ]));
+  });
+
+  return lines.join('\n');
+}
@@ -0,0 +1,22 @@
+import { buildMLSReport } from '../mlsDataExtractor';
+import { extractTableListings, extractTableListingsWithProvenance } from '../table-extractor';
+import type { MLSExtractor } from './registry';
+
+// CMA summary reports lay listings out as grids with one row per property.
+export const cmaSummaryExtractor: MLSExtractor = {
+  name: 'cma-summary',
+  version: '1.0.0',
+  description: 'CMA summary grid with MLS#, address, beds, baths, sqft and price columns',
+
+  detect: ({ text, pages }) => {
+    if (!pages.length) return 0;
+    const rows = extractTableListings(pages).length;
+    if (!rows) return 0;
+    return /\b(?:CMA|comparative market analysis)\b/i.test(text) ? 0.95 : 0.85;
+  },
+
+  extract: ({ pages }) => {
+    const { listings, provenance } = extractTableListingsWithProvenance(pages);
+    return { report: buildMLSReport(listings), provenance };
+  }
+};
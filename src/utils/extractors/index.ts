@@ -0,0 +1,11 @@
+import { registerExtractor } from './registry';
+import { cmaSummaryExtractor } from './cma-summary';
+import { listingFlyerExtractor } from './listing-flyer';
+import { ntreisAgentFullExtractor } from './ntreis-agent-full';
+
+// Built-in layouts. Additional layouts can be added with registerExtractor()
+// without changing the processing pipeline.
+[ntreisAgentFullExtractor, cmaSummaryExtractor, listingFlyerExtractor].forEach(registerExtractor);
+
+export * from './registry';
+export { cmaSummaryExtractor, listingFlyerExtractor, ntreisAgentFullExtractor };
@@ -0,0 +1,25 @@
+import { extractMLSDataWithProvenance } from '../mlsDataExtractor';
+import type { MLSExtractor } from './registry';
+
+const FLYER_MARKERS = /\b(?:offered at|open house|just listed|property highlights)\b/i;
+
+// One-page marketing flyers describe a single listing and usually advertise the
+// price as "Offered at $X" instead of a labelled list price.
+export const listingFlyerExtractor: MLSExtractor = {
+  name: 'listing-flyer',
+  version: '1.0.0',
+  description: 'One-page listing flyer describing a single property',
+
+  detect: ({ text }) => {
+    const listingBlocks = (text.match(/MLS\s*#?\s*\d{5,}/gi) || []).length;
+    return listingBlocks === 1 && FLYER_MARKERS.test(text) ? 0.8 : 0;
+  },
+
+  extract: ({ text, pages }) => {
+    const toLabelledPrice = (value: string) => value.replace(/offered at\s*:?\s*/gi, 'List Price: ');
+    return extractMLSDataWithProvenance(
+      toLabelledPrice(text),
+      pages.map(page => ({ ...page, text: toLabelledPrice(page.text) }))
+    );
+  }
+};
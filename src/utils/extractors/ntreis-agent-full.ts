@@ -0,0 +1,20 @@
+import { extractMLSDataWithProvenance } from '../mlsDataExtractor';
+import type { MLSExtractor } from './registry';
+
+// NTREIS Matrix "Agent Full" reports list one property per block, each block
+// starting with its MLS number followed by labelled lines.
+export const ntreisAgentFullExtractor: MLSExtractor = {
+  name: 'ntreis-agent-full',
+  version: '1.0.0',
+  description: 'NTREIS Matrix "Agent Full" report with one labelled block per listing',
+
+  detect: ({ text }) => {
+    const listingBlocks = (text.match(/MLS\s*#?\s*\d{5,}/gi) || []).length;
+    if (/agent\s+full/i.test(text) && listingBlocks > 0) return 0.9;
+    if (listingBlocks > 0) return 0.6;
+    // Generic fallback so unrecognized documents still go through line parsing
+    return 0.1;
+  },
+
+  extract: ({ text, pages }) => extractMLSDataWithProvenance(text, pages)
+};
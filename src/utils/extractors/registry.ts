@@ -0,0 +1,86 @@
+import type { ExtractionOutput } from '@/types/extraction';
+import type { PositionedPage } from '../pdf-layout';
+
+export interface ExtractorInput {
+  text: string;
+  pages: PositionedPage[];
+}
+
+/**
+ * A named MLS report layout. `detect` scores how confidently the extractor
+ * recognizes the document (0 = not at all, 1 = certain); the registry runs the
+ * highest-scoring extractor.
+ */
+export interface MLSExtractor {
+  name: string;
+  version: string;
+  description: string;
+  detect: (input: ExtractorInput) => number;
+  extract: (input: ExtractorInput) => ExtractionOutput;
+}
+
+export interface ExtractorMatch {
+  extractor: MLSExtractor;
+  confidence: number;
+}
+
+const extractors = new Map<string, MLSExtractor>();
+
+export function registerExtractor(extractor: MLSExtractor): void {
+  extractors.set(extractor.name, extractor);
+}
+
+export function unregisterExtractor(name: string): boolean {
+  return extractors.delete(name);
+}
+
+export function getRegisteredExtractors(): MLSExtractor[] {
+  return Array.from(extractors.values());
+}
+
+/**
+ * Scores every registered extractor against the input, best match first.
+ * Extractors that throw during detection are treated as non-matching.
+ */
+export function rankExtractors(input: ExtractorInput): ExtractorMatch[] {
+  return getRegisteredExtractors()
+    .map(extractor => {
+      let confidence = 0;
+      try {
+        confidence = Math.min(1, Math.max(0, extractor.detect(input)));
+      } catch (error) {
+        console.error(`Extractor ${extractor.name} failed during detection:`, error);
+      }
+      return { extractor, confidence };
+    })
+    .filter(match => match.confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+export function selectExtractor(input: ExtractorInput): ExtractorMatch | null {
+  return rankExtractors(input)[0] || null;
+}
+
+/**
+ * Runs the best matching extractor and records which extractor and version
+ * produced the report.
+ */
+export function runExtraction(input: ExtractorInput): ExtractionOutput {
+  const match = selectExtractor(input);
+  if (!match) {
+    throw new Error('No extractor recognizes this document');
+  }
+
+  const { report, provenance } = match.extractor.extract(input);
+  return {
+    report: {
+      ...report,
+      extraction: {
+        extractor: match.extractor.name,
+        version: match.extractor.version,
+        confidence: match.confidence
+      }
+    },
+    provenance
+  };
+}
@@ -0,0 +1,136 @@
+import type { ListingStatus } from '@/types/property';
+
+// Shared value parsers for MLS report text. Each parser returns undefined when
+// the raw value cannot be interpreted, so callers can decide on a default.
+
+const PRICE_MULTIPLIERS: Record<string, number> = { k: 1000, m: 1000000 };
+
+// Dollar amounts such as "$1,234,567.00", "$450K" or "$1.2M"; cents are dropped
+export function parsePrice(raw: string): number | undefined {
+  const cleaned = raw.replace(/[$,\s]/g, '');
+  let value: number;
+  const abbreviated = cleaned.match(/^(\d+(?:\.\d+)?)([km])$/i);
+  if (abbreviated) {
+    value = Math.round(parseFloat(abbreviated[1]) * PRICE_MULTIPLIERS[abbreviated[2].toLowerCase()]);
+  } else if (/^\d+(?:\.\d{1,2})?$/.test(cleaned)) {
+    value = parseInt(cleaned, 10);
+  } else {
+    return undefined;
+  }
+  return value > 0 ? value : undefined;
+}
+
+export function parseInteger(raw: string): number | undefined {
+  const cleaned = raw.replace(/[,\s]/g, '');
+  if (!/^\d+(?:\.0+)?$/.test(cleaned)) return undefined;
+  return parseInt(cleaned, 10);
+}
+
+export function parseDecimal(raw: string): number | undefined {
+  const cleaned = raw.replace(/[,\s]/g, '');
+  if (!/^\d*\.?\d+$/.test(cleaned)) return undefined;
+  return parseFloat(cleaned);
+}
+
+// Converts bath notation into the "full/half/quarter" format used by Property.
+// Accepts "2/1", "2/1/0" and decimal counts such as "2.5".
+export function parseBathrooms(raw: string): string | undefined {
+  const value = raw.trim();
+
+  const slashMatch = value.match(/^(\d+)\/(\d+)(?:\/(\d+))?$/);
+  if (slashMatch) {
+    return `${parseInt(slashMatch[1], 10)}/${parseInt(slashMatch[2], 10)}/${parseInt(slashMatch[3] || '0', 10)}`;
+  }
+
+  const decimalMatch = value.match(/^(\d+)(?:\.(\d+))?$/);
+  if (decimalMatch) {
+    const full = parseInt(decimalMatch[1], 10);
+    const fraction = decimalMatch[2] ? parseFloat(`0.${decimalMatch[2]}`) : 0;
+    if (fraction === 0) return `${full}/0/0`;
+    if (fraction === 0.5) return `${full}/1/0`;
+    if (fraction === 0.25) return `${full}/0/1`;
+    if (fraction === 0.75) return `${full}/1/1`;
+    return undefined;
+  }
+
+  return undefined;
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function toISODate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// Converts MLS date formats ("2024-02-15", "2/15/2024", "02/15/24",
+// "Feb 15, 2024", "15-Feb-2024") into YYYY-MM-DD.
+export function parseDate(raw: string): string | undefined {
+  const value = raw.trim();
+
+  const isoMatch = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (isoMatch) {
+    return toISODate(parseInt(isoMatch[1], 10), parseInt(isoMatch[2], 10), parseInt(isoMatch[3], 10));
+  }
+
+  const usMatch = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4}|\d{2})\b/);
+  if (usMatch) {
+    let year = parseInt(usMatch[3], 10);
+    if (usMatch[3].length === 2) {
+      // Two-digit years roll over to the previous century once they are in the future
+      const currentYear = new Date().getFullYear() % 100;
+      year += year <= currentYear + 1 ? 2000 : 1900;
+    }
+    return toISODate(year, parseInt(usMatch[1], 10), parseInt(usMatch[2], 10));
+  }
+
+  const namedMatch = value.match(/^([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/);
+  if (namedMatch) {
+    const month = MONTH_NAMES.indexOf(namedMatch[1].slice(0, 3).toLowerCase()) + 1;
+    return month ? toISODate(parseInt(namedMatch[3], 10), month, parseInt(namedMatch[2], 10)) : undefined;
+  }
+
+  const dayFirstMatch = value.match(/^(\d{1,2})[-\s]([A-Za-z]{3,9})[-\s,]+(\d{4})\b/);
+  if (dayFirstMatch) {
+    const month = MONTH_NAMES.indexOf(dayFirstMatch[2].slice(0, 3).toLowerCase()) + 1;
+    return month ? toISODate(parseInt(dayFirstMatch[3], 10), month, parseInt(dayFirstMatch[1], 10)) : undefined;
+  }
+
+  return undefined;
+}
+
+// Garage capacity as "<n> Car"; accepts "2", "2 Car", "2-car attached"
+export function parseGarage(raw: string): string | undefined {
+  const match = raw.trim().match(/^(\d+)(?:\s*-?\s*car\b.*)?$/i);
+  if (!match) return undefined;
+  const spaces = parseInt(match[1], 10);
+  return spaces > 0 ? `${spaces} Car` : '';
+}
+
+// Yes/No style flags such as "Y", "Yes", "Private", "None"
+export function parseYesNo(raw: string): boolean | undefined {
+  const value = raw.trim().toLowerCase();
+  if (/^(?:y|yes|true|private|in-?ground|pool)\b/.test(value)) return true;
+  if (/^(?:n|no|none|false)\b/.test(value)) return false;
+  return undefined;
+}
+
+// MLS status names and the abbreviations used by Matrix/NTREIS exports,
+// e.g. "ACT", "PND", "Active Under Contract", "Sold", "CAN"
+const LISTING_STATUS_PATTERNS: Array<[RegExp, ListingStatus]> = [
+  [/^(?:active\s+(?:under\s+contract|option|contingent|kick\s*out)|auc|ao|ako|pnd|pend(?:ing)?|option\s+pending|contingent|under\s+contract)\b/, 'Pending'],
+  [/^(?:act(?:ive)?|a|new)\b/, 'Active'],
+  [/^(?:sold|closed|cls|s|leased)\b/, 'Closed'],
+  [/^(?:cancel+ed|can|c)\b/, 'Canceled'],
+  [/^(?:withdrawn|wdn|w|temp(?:orarily)?\s+off\s+market|tom)\b/, 'Withdrawn'],
+  [/^(?:expired|exp|x)\b/, 'Expired']
+];
+
+export function parseListingStatus(raw: string): ListingStatus | undefined {
+  const value = raw.trim().toLowerCase();
+  const match = LISTING_STATUS_PATTERNS.find(([pattern]) => pattern.test(value));
+  return match ? match[1] : undefined;
+}
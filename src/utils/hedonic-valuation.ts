@@ -0,0 +1,251 @@
+import type { Property } from '@/types/property';
+import type {
+  FeatureContribution,
+  ListingValuation,
+  NumericValuationFeature,
+  ValuationModel
+} from '@/types/valuation';
+import { listStoredMLSReports } from './airtable';
+import { tCritical } from './market-forecast';
+
+// Hedonic automated valuation: an ordinary least squares regression of sold
+// price on square footage, bedrooms, bathrooms, year built, lot acres, pool
+// and city across stored closed sales. Numeric features are centered on the
+// training averages, so each feature's contribution to an estimate reads as
+// "compared with an average sale".
+
+export const NUMERIC_FEATURES: NumericValuationFeature[] = ['sqft', 'bedrooms', 'bathrooms', 'yearBuilt', 'acres', 'pool'];
+
+// Fewest usable sales to fit a model; more are needed when there are many
+// cities to estimate
+export const MIN_TRAINING_SALES = 10;
+// Cities with fewer sales have no effect of their own
+export const MIN_CITY_SALES = 3;
+
+// Stored sales change only when a report is uploaded or reprocessed
+export const STORED_SALES_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Estimates and intervals are rounded to this
+const PRICE_ROUNDING = 1000;
+
+export class ValuationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValuationError';
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, ValuationError.prototype);
+  }
+}
+
+// "full/half/quarter" as a count, e.g. "2/1/0" is 2.5
+export function bathroomCount(bathrooms: string): number {
+  const [full = 0, half = 0, quarter = 0] = (bathrooms || '').split('/').map(part => parseInt(part, 10) || 0);
+  return full + half * 0.5 + quarter * 0.25;
+}
+
+function featureValue(listing: Property, feature: NumericValuationFeature): number {
+  if (feature === 'bathrooms') return bathroomCount(listing.bathrooms);
+  if (feature === 'pool') return listing.pool ? 1 : 0;
+  return listing[feature] || 0;
+}
+
+// Sales the model can learn from: a price and the features a buyer pays for
+function isTrainingSale(listing: Property): boolean {
+  return (listing.soldPrice || 0) > 0 && listing.sqft > 0 && listing.bedrooms > 0 && listing.yearBuilt > 0;
+}
+
+const normalizeCity = (city: string) => (city || '').trim();
+
+const roundPrice = (price: number) => Math.round(price / PRICE_ROUNDING) * PRICE_ROUNDING;
+
+/**
+ * Inverts a symmetric positive definite matrix by Gauss-Jordan elimination.
+ * Null when it is singular, i.e. a column is a combination of the others.
+ */
+function invert(matrix: number[][]): number[][] | null {
+  const size = matrix.length;
+  const rows = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-9 * Math.max(1, Math.abs(matrix[col][col]))) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    const divisor = rows[col][col];
+    rows[col] = rows[col].map(value => value / divisor);
+    for (let row = 0; row < size; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col];
+      rows[row] = rows[row].map((value, j) => value - factor * rows[col][j]);
+    }
+  }
+  return rows.map(row => row.slice(size));
+}
+
+// Regression inputs for a listing: 1 for the intercept, centered numeric
+// features, then a 0/1 column per city with its own effect
+function designRow(listing: Property, model: Pick<ValuationModel, 'columns' | 'means'>): number[] {
+  return model.columns.map(column => {
+    if (column === 'intercept') return 1;
+    if (column.indexOf('city:') === 0) return normalizeCity(listing.city) === column.slice(5) ? 1 : 0;
+    const feature = column as NumericValuationFeature;
+    return featureValue(listing, feature) - model.means[feature];
+  });
+}
+
+/**
+ * Fits the model to closed sales. Features that do not vary across the sales
+ * (e.g. no sale has a pool) are left out with a coefficient of 0. Throws a
+ * ValuationError when there are too few usable sales or they cannot separate
+ * the features' effects.
+ */
+export function fitValuationModel(closedListings: Property[]): ValuationModel {
+  const sales = closedListings.filter(isTrainingSale);
+
+  const cityCounts = sales.reduce((counts, sale) =>
+    counts.set(normalizeCity(sale.city), (counts.get(normalizeCity(sale.city)) || 0) + 1), new Map<string, number>());
+  const cities = Array.from(cityCounts.entries())
+    .filter(([city, count]) => city && count >= MIN_CITY_SALES)
+    .sort((a, b) => b[1] - a[1])
+    .map(([city]) => city);
+  const baselineCity = cities[0] || '';
+
+  const means = NUMERIC_FEATURES.reduce((values, feature) => ({
+    ...values,
+    [feature]: sales.length ? sales.reduce((total, sale) => total + featureValue(sale, feature), 0) / sales.length : 0
+  }), {} as Record<NumericValuationFeature, number>);
+  const varying = NUMERIC_FEATURES.filter(feature =>
+    sales.some(sale => featureValue(sale, feature) !== featureValue(sales[0], feature)));
+  const columns = ['intercept', ...varying, ...cities.slice(1).map(city => `city:${city}`)];
+
+  if (sales.length < Math.max(MIN_TRAINING_SALES, columns.length + 2)) {
+    throw new ValuationError(
+      `At least ${Math.max(MIN_TRAINING_SALES, columns.length + 2)} closed sales with price, square footage, ` +
+      `bedrooms and year built are needed; found ${sales.length}`
+    );
+  }
+
+  const rows = sales.map(sale => designRow(sale, { columns, means }));
+  const prices = sales.map(sale => sale.soldPrice as number);
+  const gram = columns.map((_, i) => columns.map((__, j) => rows.reduce((total, row) => total + row[i] * row[j], 0)));
+  const inverseGram = invert(gram);
+  if (!inverseGram) {
+    throw new ValuationError('The closed sales are too alike to separate the effect of each feature');
+  }
+
+  const xty = columns.map((_, i) => rows.reduce((total, row, n) => total + row[i] * prices[n], 0));
+  const beta = inverseGram.map(row => row.reduce((total, value, j) => total + value * xty[j], 0));
+
+  const fitted = rows.map(row => row.reduce((total, value, j) => total + value * beta[j], 0));
+  const meanPrice = prices.reduce((a, b) => a + b, 0) / prices.length;
+  const residualSquares = prices.reduce((total, price, n) => total + (price - fitted[n]) ** 2, 0);
+  const totalSquares = prices.reduce((total, price) => total + (price - meanPrice) ** 2, 0);
+
+  const coefficient = (column: string) => {
+    const index = columns.indexOf(column);
+    return index === -1 ? 0 : beta[index];
+  };
+
+  return {
+    trainedAt: new Date().toISOString(),
+    sampleSize: sales.length,
+    rSquared: totalSquares > 0 ? Math.round((1 - residualSquares / totalSquares) * 1000) / 1000 : 0,
+    residualStandardError: Math.round(Math.sqrt(residualSquares / (sales.length - columns.length))),
+    baseline: coefficient('intercept'),
+    baselineCity,
+    coefficients: NUMERIC_FEATURES.reduce((values, feature) =>
+      ({ ...values, [feature]: coefficient(feature) }), {} as Record<NumericValuationFeature, number>),
+    means,
+    cityEffects: cities.reduce<Record<string, number>>((effects, city) =>
+      ({ ...effects, [city]: coefficient(`city:${city}`) }), {}),
+    columns,
+    inverseGram
+  };
+}
+
+/**
+ * Estimates a listing's value with a 95% prediction interval and the dollar
+ * contribution of each feature. The listing is flagged when its list price
+ * is outside the interval.
+ */
+export function valueListing(model: ValuationModel, listing: Property): ListingValuation {
+  const city = normalizeCity(listing.city);
+  const contributions: FeatureContribution[] = [
+    ...NUMERIC_FEATURES.map(feature => ({
+      feature,
+      value: featureValue(listing, feature),
+      amount: Math.round(model.coefficients[feature] * (featureValue(listing, feature) - model.means[feature]))
+    })),
+    { feature: 'city', value: city, amount: Math.round(model.cityEffects[city] || 0) }
+  ];
+  const estimate = contributions.reduce((total, contribution) => total + contribution.amount, model.baseline);
+
+  const row = designRow(listing, model);
+  const leverage = row.reduce((total, value, i) =>
+    total + value * model.inverseGram[i].reduce((sum, inverse, j) => sum + inverse * row[j], 0), 0);
+  const margin = tCritical(model.sampleSize - model.columns.length) *
+    model.residualStandardError * Math.sqrt(1 + leverage);
+
+  const estimatedValue = roundPrice(estimate);
+  const confidenceInterval = { low: roundPrice(estimate - margin), high: roundPrice(estimate + margin) };
+  const listPrice = listing.listPrice || 0;
+
+  return {
+    mlsNumber: listing.mlsNumber,
+    listPrice,
+    estimatedValue,
+    confidenceInterval,
+    contributions,
+    priceGap: listPrice > 0 && estimatedValue > 0
+      ? Math.round(((listPrice - estimatedValue) / estimatedValue) * 1000) / 1000
+      : null,
+    flag: listPrice <= 0 ? null
+      : listPrice > confidenceInterval.high ? 'above-estimate'
+        : listPrice < confidenceInterval.low ? 'below-estimate'
+          : null
+  };
+}
+
+const storedSalesCache: { sales: Property[]; expiresAt: number } = { sales: [], expiresAt: 0 };
+
+/**
+ * Closed sales from every report saved in Airtable, newest upload first and
+ * each MLS number once. Cached for STORED_SALES_CACHE_TTL_MS; empty when
+ * Airtable is not configured or unavailable.
+ */
+export async function loadStoredClosedSales(): Promise<Property[]> {
+  if (storedSalesCache.expiresAt > Date.now()) {
+    return storedSalesCache.sales;
+  }
+
+  let sales: Property[] = [];
+  if (process.env.AIRTABLE_API_KEY) {
+    try {
+      const reports = await listStoredMLSReports();
+      sales = mergeSales(...reports.map(stored => stored.report.closedListings || []));
+    } catch (error) {
+      console.error('Error loading stored closed sales:', error);
+    }
+  }
+
+  storedSalesCache.sales = sales;
+  storedSalesCache.expiresAt = Date.now() + STORED_SALES_CACHE_TTL_MS;
+  return sales;
+}
+
+export function clearStoredSalesCache(): void {
+  storedSalesCache.expiresAt = 0;
+}
+
+// Combines sale lists, keeping the first sale seen for each MLS number
+export function mergeSales(...lists: Property[][]): Property[] {
+  const seen = new Set<string>();
+  return lists.reduce<Property[]>((merged, list) => merged.concat(list.filter(sale => {
+    if (seen.has(sale.mlsNumber)) return false;
+    seen.add(sale.mlsNumber);
+    return true;
+  })), []);
+}
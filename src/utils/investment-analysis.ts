@@ -0,0 +1,189 @@
+import type { Property } from '@/types/property';
+import type { InvestmentAnalysis, InvestmentAssumptions, InvestmentYear } from '@/types/investment';
+
+// Buy-and-hold rental analysis: first-year NOI, cap rate, cash flow,
+// cash-on-cash return and DSCR, and the IRR of the cash flows over the hold
+// period including the sale at the appreciated value.
+
+// Starting assumptions for a listing; the price and rent come from the listing
+export const DEFAULT_INVESTMENT_ASSUMPTIONS: Omit<InvestmentAssumptions, 'purchasePrice' | 'monthlyRent'> = {
+  downPaymentRate: 0.25,
+  interestRate: 0.07,
+  loanTermYears: 30,
+  closingCostRate: 0.03,
+  vacancyRate: 0.05,
+  propertyTaxRate: 0.022,
+  annualInsurance: 2400,
+  monthlyHOA: 0,
+  maintenanceRate: 0.08,
+  managementRate: 0.08,
+  holdYears: 5,
+  appreciationRate: 0.03,
+  rentGrowthRate: 0.02,
+  sellingCostRate: 0.06
+};
+
+export const MAX_HOLD_YEARS = 30;
+
+// IRR search bounds and tolerance
+const IRR_MIN = -0.99;
+const IRR_MAX = 10;
+const IRR_TOLERANCE = 1e-7;
+
+export class InvestmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvestmentError';
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, InvestmentError.prototype);
+  }
+}
+
+const roundDollars = (value: number) => Math.round(value);
+const roundRate = (value: number) => Math.round(value * 10000) / 10000;
+
+export function monthlyMortgagePayment(principal: number, annualRate: number, termYears: number): number {
+  if (principal <= 0) return 0;
+  const months = termYears * 12;
+  const rate = annualRate / 12;
+  if (rate === 0) return principal / months;
+  return (principal * rate * Math.pow(1 + rate, months)) / (Math.pow(1 + rate, months) - 1);
+}
+
+// Principal still owed after a number of monthly payments
+export function loanBalance(principal: number, annualRate: number, termYears: number, monthsPaid: number): number {
+  if (principal <= 0) return 0;
+  const payment = monthlyMortgagePayment(principal, annualRate, termYears);
+  const months = Math.min(monthsPaid, termYears * 12);
+  const rate = annualRate / 12;
+  const balance = rate === 0
+    ? principal - payment * months
+    : principal * Math.pow(1 + rate, months) - (payment * (Math.pow(1 + rate, months) - 1)) / rate;
+  return Math.max(balance, 0);
+}
+
+const netPresentValue = (rate: number, cashFlows: number[]) =>
+  cashFlows.reduce((total, cashFlow, year) => total + cashFlow / Math.pow(1 + rate, year), 0);
+
+/**
+ * Annual internal rate of return of cash flows starting with the investment
+ * at year 0, found by bisection. Null when the cash flows do not change sign
+ * or the rate is outside -99% to 1000%.
+ */
+export function internalRateOfReturn(cashFlows: number[]): number | null {
+  let low = IRR_MIN;
+  let high = IRR_MAX;
+  let lowValue = netPresentValue(low, cashFlows);
+  if (lowValue * netPresentValue(high, cashFlows) > 0) return null;
+
+  while (high - low > IRR_TOLERANCE) {
+    const middle = (low + high) / 2;
+    const middleValue = netPresentValue(middle, cashFlows);
+    if (lowValue * middleValue <= 0) {
+      high = middle;
+    } else {
+      low = middle;
+      lowValue = middleValue;
+    }
+  }
+  return (low + high) / 2;
+}
+
+function assertValidAssumptions(assumptions: InvestmentAssumptions): void {
+  const { purchasePrice, downPaymentRate, loanTermYears, holdYears } = assumptions;
+  if (!(purchasePrice > 0)) {
+    throw new InvestmentError('The purchase price must be greater than 0');
+  }
+  if (!(downPaymentRate >= 0 && downPaymentRate <= 1)) {
+    throw new InvestmentError('The down payment must be between 0% and 100%');
+  }
+  if (downPaymentRate < 1 && !(loanTermYears > 0)) {
+    throw new InvestmentError('A financed purchase needs a loan term');
+  }
+  if (!Number.isInteger(holdYears) || holdYears < 1 || holdYears > MAX_HOLD_YEARS) {
+    throw new InvestmentError(`The hold period must be 1 to ${MAX_HOLD_YEARS} whole years`);
+  }
+  const negative = (Object.keys(assumptions) as Array<keyof InvestmentAssumptions>)
+    .filter(name => typeof assumptions[name] !== 'number' || !Number.isFinite(assumptions[name]) || assumptions[name] < 0);
+  if (negative.length) {
+    throw new InvestmentError(`Assumptions must be numbers of 0 or more: ${negative.join(', ')}`);
+  }
+}
+
+/**
+ * Analyzes buying the property as a rental. Rent and operating expenses grow
+ * by rentGrowthRate each year; the property is sold at the end of the hold at
+ * its appreciated value, less selling costs and the remaining loan. Throws an
+ * InvestmentError for assumptions that cannot be analyzed.
+ */
+export function analyzeInvestment(assumptions: InvestmentAssumptions): InvestmentAnalysis {
+  assertValidAssumptions(assumptions);
+  const {
+    purchasePrice, downPaymentRate, interestRate, loanTermYears, closingCostRate, monthlyRent,
+    vacancyRate, propertyTaxRate, annualInsurance, monthlyHOA, maintenanceRate, managementRate,
+    holdYears, appreciationRate, rentGrowthRate, sellingCostRate
+  } = assumptions;
+
+  const loanAmount = purchasePrice * (1 - downPaymentRate);
+  const cashInvested = purchasePrice * downPaymentRate + purchasePrice * closingCostRate;
+  const monthlyMortgage = monthlyMortgagePayment(loanAmount, interestRate, loanTermYears);
+
+  const operatingYear = (year: number) => {
+    const growth = Math.pow(1 + rentGrowthRate, year - 1);
+    const grossRent = monthlyRent * 12 * growth;
+    const income = grossRent * (1 - vacancyRate);
+    const expenses = (purchasePrice * propertyTaxRate + annualInsurance + monthlyHOA * 12) * growth +
+      grossRent * maintenanceRate + income * managementRate;
+    return { income, expenses, netOperatingIncome: income - expenses };
+  };
+
+  const years: InvestmentYear[] = Array.from({ length: holdYears }, (_, index) => {
+    const year = index + 1;
+    const { netOperatingIncome } = operatingYear(year);
+    const debtService = year <= loanTermYears ? monthlyMortgage * 12 : 0;
+    const saleProceeds = year === holdYears
+      ? purchasePrice * Math.pow(1 + appreciationRate, holdYears) * (1 - sellingCostRate) -
+        loanBalance(loanAmount, interestRate, loanTermYears, holdYears * 12)
+      : 0;
+    return { year, netOperatingIncome, debtService, cashFlow: netOperatingIncome - debtService, saleProceeds };
+  });
+
+  const firstYear = operatingYear(1);
+  const annualDebtService = years[0].debtService;
+  const irr = cashInvested > 0
+    ? internalRateOfReturn([-cashInvested, ...years.map(year => year.cashFlow + year.saleProceeds)])
+    : null;
+
+  return {
+    loanAmount: roundDollars(loanAmount),
+    cashInvested: roundDollars(cashInvested),
+    monthlyMortgage: roundDollars(monthlyMortgage),
+    effectiveGrossIncome: roundDollars(firstYear.income),
+    operatingExpenses: roundDollars(firstYear.expenses),
+    netOperatingIncome: roundDollars(firstYear.netOperatingIncome),
+    capRate: roundRate(firstYear.netOperatingIncome / purchasePrice),
+    monthlyCashFlow: roundDollars(years[0].cashFlow / 12),
+    cashOnCashReturn: cashInvested > 0 ? roundRate(years[0].cashFlow / cashInvested) : null,
+    dscr: annualDebtService > 0 ? Math.round((firstYear.netOperatingIncome / annualDebtService) * 100) / 100 : null,
+    irr: irr === null ? null : roundRate(irr),
+    years: years.map(year => ({
+      year: year.year,
+      netOperatingIncome: roundDollars(year.netOperatingIncome),
+      debtService: roundDollars(year.debtService),
+      cashFlow: roundDollars(year.cashFlow),
+      saleProceeds: roundDollars(year.saleProceeds)
+    }))
+  };
+}
+
+/**
+ * The default assumptions for a listing at its list price (sold price for
+ * closed listings) and the given rent.
+ */
+export function investmentAssumptionsFor(listing: Property, monthlyRent: number): InvestmentAssumptions {
+  return {
+    ...DEFAULT_INVESTMENT_ASSUMPTIONS,
+    purchasePrice: listing.listPrice || listing.soldPrice || 0,
+    monthlyRent
+  };
+}
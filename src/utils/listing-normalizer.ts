@@ -0,0 +1,148 @@
+import type { MLSReport, Property } from '@/types/property';
+import type { ListingRepair, PropertyField, RepairChange, RepairRuleId } from '@/types/extraction';
+import { parseBathrooms } from './field-parsers';
+import { buildMLSReport, deriveComputedFields } from './mlsDataExtractor';
+
+// Repairs mechanical extraction errors between extraction and validation.
+// Every repair records the values it replaced, so a reviewer can see what was
+// changed automatically and put the extracted values back.
+
+const SQFT_PER_ACRE = 43560;
+
+// No home has this much living area and sells for less than it
+const SWAPPED_SQFT_MIN = 20000;
+// Lots larger than this were stated in square feet
+const MAX_ACRES = 1000;
+
+// Fields recomputed from the repaired values
+const DERIVED_FIELDS: PropertyField[] = ['pricePerSqft', 'saleToListRatio'];
+
+interface NormalizationRule {
+  id: RepairRuleId;
+  description: string;
+  // The corrected values, or null when the listing needs no repair
+  repair: (listing: Property) => { values: Partial<Property>; message: string } | null;
+}
+
+const formatDollars = (value: number) => `$${value.toLocaleString()}`;
+
+export const NORMALIZATION_RULES: NormalizationRule[] = [
+  {
+    id: 'decimal-bathrooms',
+    description: 'Bathrooms written as a count ("2.5") are converted to full/half/quarter',
+    repair: listing => {
+      if (/^\d+\/\d+\/\d+$/.test(listing.bathrooms)) return null;
+      const bathrooms = parseBathrooms(listing.bathrooms || '');
+      return bathrooms
+        ? { values: { bathrooms }, message: `Converted ${listing.bathrooms} baths to ${bathrooms}` }
+        : null;
+    }
+  },
+  {
+    id: 'swapped-sqft-price',
+    description: 'A list price that looks like square footage and square footage that looks like a price are swapped',
+    repair: listing => (listing.sqft >= SWAPPED_SQFT_MIN && listing.listPrice > 0 && listing.listPrice < SWAPPED_SQFT_MIN
+      ? {
+        values: { sqft: listing.listPrice, listPrice: listing.sqft },
+        message: `Swapped square footage (${listing.sqft.toLocaleString()}) and list price ` +
+          `(${formatDollars(listing.listPrice)})`
+      }
+      : null)
+  },
+  {
+    id: 'acres-in-sqft',
+    description: 'Lot sizes over 1,000 acres were stated in square feet and are converted to acres',
+    repair: listing => {
+      if (!(listing.acres > MAX_ACRES)) return null;
+      const acres = Math.round((listing.acres / SQFT_PER_ACRE) * 100) / 100;
+      return {
+        values: { acres },
+        message: `Converted lot size ${listing.acres.toLocaleString()} sq ft to ${acres} acres`
+      };
+    }
+  }
+];
+
+function changesBetween(before: Property, after: Property, fields: PropertyField[]): RepairChange[] {
+  return fields
+    .filter(field => before[field] !== after[field])
+    .map(field => ({ field, from: before[field] ?? null, to: after[field] ?? null }));
+}
+
+/**
+ * Applies every normalization rule to a listing in order, each rule seeing
+ * the result of the previous ones.
+ */
+export function normalizeListing(listing: Property): { listing: Property; repairs: ListingRepair[] } {
+  return NORMALIZATION_RULES.reduce<{ listing: Property; repairs: ListingRepair[] }>((result, rule) => {
+    const repair = rule.repair(result.listing);
+    if (!repair) return result;
+
+    const repaired = deriveComputedFields({ ...result.listing, ...repair.values });
+    const fields = (Object.keys(repair.values) as PropertyField[]).concat(DERIVED_FIELDS);
+    const changes = changesBetween(result.listing, repaired, fields);
+    if (!changes.length) return result;
+
+    return {
+      listing: repaired,
+      repairs: result.repairs.concat({
+        id: `${listing.mlsNumber}:${rule.id}`,
+        mlsNumber: listing.mlsNumber,
+        rule: rule.id,
+        message: repair.message,
+        changes
+      })
+    };
+  }, { listing, repairs: [] });
+}
+
+// Rebuilds the listing groups, statistics and trends from corrected listings
+function withListings(report: MLSReport, activeListings: Property[], closedListings: Property[]): MLSReport {
+  const rebuilt = buildMLSReport([...activeListings, ...closedListings], {
+    reportingWindow: report.statistics?.reportingWindow || undefined
+  });
+  return {
+    ...report,
+    activeListings: rebuilt.activeListings,
+    closedListings: rebuilt.closedListings,
+    marketTrends: rebuilt.marketTrends,
+    statistics: rebuilt.statistics
+  };
+}
+
+/**
+ * Normalizes every listing of an extracted report. The report is returned
+ * unchanged when nothing needed repair.
+ */
+export function normalizeReport(report: MLSReport): { report: MLSReport; repairs: ListingRepair[] } {
+  const repairs: ListingRepair[] = [];
+  const normalize = (listings: Property[]) => listings.map(listing => {
+    const result = normalizeListing(listing);
+    repairs.push(...result.repairs);
+    return result.listing;
+  });
+
+  const activeListings = normalize(report.activeListings || []);
+  const closedListings = normalize(report.closedListings || []);
+  return repairs.length
+    ? { report: withListings(report, activeListings, closedListings), repairs }
+    : { report, repairs };
+}
+
+/**
+ * Puts back the values a repair replaced. Fields changed again since the
+ * repair, by the reviewer or a later repair, are left as they are.
+ */
+export function revertRepair(report: MLSReport, repair: ListingRepair): MLSReport {
+  const revert = (listing: Property): Property => {
+    if (listing.mlsNumber !== repair.mlsNumber) return listing;
+    return repair.changes.reduce<Property>((reverted, change) => {
+      if ((reverted[change.field] ?? null) !== change.to) return reverted;
+      const restored = { ...reverted, [change.field]: change.from };
+      if (change.from === null) delete restored[change.field];
+      return restored as Property;
+    }, listing);
+  };
+
+  return withListings(report, report.activeListings.map(revert), report.closedListings.map(revert));
+}
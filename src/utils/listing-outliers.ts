@@ -0,0 +1,134 @@
+import type { ListingOutlier, Property } from '@/types/property';
+
+// Flags listings whose price per square foot is far from comparable listings:
+// typos in the price, land-only sales and misread square footage. Listings
+// are compared within a cohort (city, bedrooms, size band, year-built band)
+// using the median absolute deviation, which a few bad values cannot skew the
+// way they skew a mean and standard deviation.
+
+// Iglewicz and Hoaglin's cut-off for the modified z-score
+export const OUTLIER_Z_SCORE = 3.5;
+
+// In a tight cohort a modest difference has a large z-score; an outlier must
+// also be at least this far from the cohort median, as a fraction of it
+export const MIN_RELATIVE_DEVIATION = 0.5;
+
+// Smaller cohorts have no stable median; their listings are compared within
+// a broader cohort instead
+export const MIN_COHORT_SIZE = 5;
+
+// Scales the MAD to a standard deviation for normally distributed values
+const MAD_SCALE = 0.6745;
+// Same for the mean absolute deviation, used when more than half the cohort
+// shares one value and the MAD is 0
+const MEAN_AD_SCALE = 1.253314;
+
+const SIZE_BANDS = [
+  { label: 'under 1500 sqft', max: 1500 },
+  { label: '1500-2500 sqft', max: 2500 },
+  { label: '2500-3500 sqft', max: 3500 },
+  { label: '3500+ sqft', max: Infinity }
+];
+
+const YEAR_BANDS = [
+  { label: 'built before 1980', max: 1980 },
+  { label: 'built 1980-1999', max: 2000 },
+  { label: 'built 2000-2014', max: 2015 },
+  { label: 'built 2015 or later', max: Infinity }
+];
+
+function sizeBand(sqft: number): string {
+  return sqft > 0 ? SIZE_BANDS.find(band => sqft < band.max)!.label : 'size unknown';
+}
+
+function yearBand(yearBuilt: number): string {
+  return yearBuilt > 0 ? YEAR_BANDS.find(band => yearBuilt < band.max)!.label : 'year built unknown';
+}
+
+// From the narrowest cohort to the broadest
+const COHORT_LEVELS: ((listing: Property) => string[])[] = [
+  listing => [listing.city || 'Unknown city', `${listing.bedrooms} bd`, sizeBand(listing.sqft), yearBand(listing.yearBuilt)],
+  listing => [listing.city || 'Unknown city', `${listing.bedrooms} bd`, sizeBand(listing.sqft)],
+  listing => [listing.city || 'Unknown city', `${listing.bedrooms} bd`],
+  listing => [listing.city || 'Unknown city']
+];
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+interface CohortStats {
+  median: number;
+  size: number;
+  score: (value: number) => number | null;
+}
+
+function cohortStats(values: number[]): CohortStats {
+  const center = median(values);
+  const deviations = values.map(value => Math.abs(value - center));
+  const mad = median(deviations);
+  const meanAD = deviations.reduce((a, b) => a + b, 0) / deviations.length;
+
+  return {
+    median: center,
+    size: values.length,
+    score: value => {
+      if (mad > 0) return (MAD_SCALE * (value - center)) / mad;
+      if (meanAD > 0) return (value - center) / (MEAN_AD_SCALE * meanAD);
+      return null;
+    }
+  };
+}
+
+/**
+ * Finds the listings whose price per square foot is an outlier, by z-score
+ * and by distance from the median, in the narrowest cohort with at least
+ * MIN_COHORT_SIZE priced listings. Listings without a price per square foot
+ * are not checked, and neither are listings whose city has fewer than
+ * MIN_COHORT_SIZE priced listings.
+ */
+export function detectListingOutliers(listings: Property[]): ListingOutlier[] {
+  const priced = listings.filter(listing => listing.pricePerSqft > 0);
+  const cohorts = COHORT_LEVELS.map(level => priced.reduce((groups, listing) => {
+    const key = level(listing).join(', ');
+    return groups.set(key, (groups.get(key) || []).concat(listing.pricePerSqft));
+  }, new Map<string, number[]>()));
+  const stats = new Map<string, CohortStats>();
+
+  return listings.reduce<ListingOutlier[]>((outliers, listing, index) => {
+    if (!(listing.pricePerSqft > 0)) return outliers;
+
+    const levelIndex = COHORT_LEVELS.findIndex((level, i) =>
+      (cohorts[i].get(level(listing).join(', ')) || []).length >= MIN_COHORT_SIZE);
+    if (levelIndex === -1) return outliers;
+
+    const cohort = COHORT_LEVELS[levelIndex](listing).join(', ');
+    if (!stats.has(cohort)) {
+      stats.set(cohort, cohortStats(cohorts[levelIndex].get(cohort) as number[]));
+    }
+    const { median: cohortMedian, size, score } = stats.get(cohort) as CohortStats;
+    const robustZScore = score(listing.pricePerSqft);
+
+    if (robustZScore !== null && Math.abs(robustZScore) > OUTLIER_Z_SCORE &&
+        Math.abs(listing.pricePerSqft - cohortMedian) > cohortMedian * MIN_RELATIVE_DEVIATION) {
+      outliers.push({
+        index,
+        mlsNumber: listing.mlsNumber,
+        cohort,
+        pricePerSqft: listing.pricePerSqft,
+        cohortMedian: Math.round(cohortMedian),
+        cohortSize: size,
+        robustZScore: Math.round(robustZScore * 10) / 10
+      });
+    }
+    return outliers;
+  }, []);
+}
+
+export function describeOutlier(outlier: ListingOutlier): string {
+  const direction = outlier.robustZScore > 0 ? 'above' : 'below';
+  return `Price per sqft $${outlier.pricePerSqft} is far ${direction} the $${outlier.cohortMedian} median ` +
+    `of ${outlier.cohortSize} comparable listings (${outlier.cohort})`;
+}
@@ -0,0 +1,194 @@
+import type { MLSReport, Property, ReportingWindow, Statistics } from '@/types/property';
+import type { ValidationThresholds } from '@/types/validation';
+import type {
+  MarketCondition,
+  MarketConditionResult,
+  MarketIndicator,
+  MarketIndicatorSignal
+} from '@/types/market-condition';
+import { DEFAULT_VALIDATION_THRESHOLDS } from './market-data-validator';
+import { calculateStatistics } from './market-statistics';
+
+// Classifies a market from months of supply, days on market, absorption and
+// the sold-to-list ratio. Each indicator scores from -1 at its buyer's market
+// threshold to 1 at its seller's market threshold, linearly in between; the
+// label comes from the weighted average of the indicators that are known.
+
+// Months of supply is the standard measure, so it counts the most
+export const MARKET_INDICATOR_WEIGHTS: Record<MarketIndicator, number> = {
+  monthsOfSupply: 0.4,
+  daysOnMarket: 0.2,
+  absorptionRate: 0.2,
+  listToSoldRatio: 0.2
+};
+
+// Scores at or beyond these are a buyer's or seller's market
+export const MARKET_CONDITION_CUTOFF = 0.33;
+
+// Fewest listings in a city to classify it on its own
+export const MIN_SEGMENT_LISTINGS = 10;
+
+const INDICATORS = Object.keys(MARKET_INDICATOR_WEIGHTS) as MarketIndicator[];
+
+export const MARKET_CONDITION_LABELS: Record<MarketCondition, string> = {
+  buyers: "Buyer's market",
+  balanced: 'Balanced market',
+  sellers: "Seller's market"
+};
+
+const INDICATOR_NAMES: Record<MarketIndicator, string> = {
+  monthsOfSupply: 'months of supply',
+  daysOnMarket: 'days on market',
+  absorptionRate: 'absorption',
+  listToSoldRatio: 'the sold-to-list ratio'
+};
+
+function indicatorValue(statistics: Statistics, indicator: MarketIndicator): number | null {
+  const value = indicator === 'daysOnMarket' ? statistics.averageDaysOnMarket : statistics[indicator];
+  return value === null || value === undefined ? null : value;
+}
+
+// The values at which the indicator reads as a buyer's and a seller's market
+function indicatorThresholds(indicator: MarketIndicator, thresholds: ValidationThresholds): [number, number] {
+  switch (indicator) {
+    case 'monthsOfSupply':
+      return [thresholds.BUYERS_MARKET_MIN_MONTHS_SUPPLY, thresholds.SELLERS_MARKET_MAX_MONTHS_SUPPLY];
+    case 'daysOnMarket':
+      return [thresholds.BUYERS_MARKET_MIN_DAYS_ON_MARKET, thresholds.SELLERS_MARKET_MAX_DAYS_ON_MARKET];
+    case 'absorptionRate':
+      return [thresholds.BUYERS_MARKET_MAX_ABSORPTION_RATE, thresholds.SELLERS_MARKET_MIN_ABSORPTION_RATE];
+    case 'listToSoldRatio':
+      return [thresholds.BUYERS_MARKET_MAX_LIST_TO_SOLD_RATIO, thresholds.SELLERS_MARKET_MIN_LIST_TO_SOLD_RATIO];
+  }
+}
+
+function scoreIndicator(value: number, [buyers, sellers]: [number, number]): number {
+  // Thresholds configured to the same value cannot tell the markets apart
+  if (buyers === sellers) return 0;
+  const score = -1 + (2 * (value - buyers)) / (sellers - buyers);
+  return Math.max(-1, Math.min(1, score));
+}
+
+function conditionOf(score: number): MarketCondition {
+  if (score >= MARKET_CONDITION_CUTOFF) return 'sellers';
+  if (score <= -MARKET_CONDITION_CUTOFF) return 'buyers';
+  return 'balanced';
+}
+
+const roundScore = (score: number) => Math.round(score * 100) / 100;
+
+function describeIndicator({ indicator, value }: MarketIndicatorSignal): string {
+  switch (indicator) {
+    case 'monthsOfSupply':
+      return `${value} months of supply`;
+    case 'daysOnMarket':
+      return `${Math.round(value)} average days on market`;
+    case 'absorptionRate':
+      return `${value}% monthly absorption`;
+    case 'listToSoldRatio':
+      return `a ${(value * 100).toFixed(1)}% sold-to-list ratio`;
+  }
+}
+
+const joinList = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+function explain(condition: MarketCondition, score: number, signals: MarketIndicatorSignal[], missing: MarketIndicator[]): string {
+  // Strongest influence on the score first
+  const byInfluence = [...signals].sort((a, b) => Math.abs(b.score * b.weight) - Math.abs(a.score * a.weight));
+  const sentences = [`${MARKET_CONDITION_LABELS[condition]} (score ${roundScore(score)}).`];
+
+  (['buyers', 'balanced', 'sellers'] as MarketCondition[])
+    .sort((a, b) => (a === condition ? -1 : b === condition ? 1 : 0))
+    .forEach(group => {
+      const members = byInfluence.filter(signal => signal.condition === group);
+      if (!members.length) return;
+      sentences.push(`${capitalize(joinList(members.map(describeIndicator)))} ` +
+        `${members.length === 1 ? 'points' : 'point'} to a ${MARKET_CONDITION_LABELS[group].toLowerCase()}` +
+        `${group === condition ? '' : ' instead'}.`);
+    });
+
+  if (missing.length) {
+    sentences.push(`Not enough data for ${joinList(missing.map(indicator => INDICATOR_NAMES[indicator]))}.`);
+  }
+  return sentences.join(' ');
+}
+
+/**
+ * Labels a market from its statistics. Null when none of the indicators are
+ * known, e.g. a report without closed sales or list dates.
+ */
+export function classifyMarket(
+  statistics: Statistics,
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
+): MarketConditionResult | null {
+  const signals: MarketIndicatorSignal[] = [];
+  const missingIndicators: MarketIndicator[] = [];
+
+  INDICATORS.forEach(indicator => {
+    const value = indicatorValue(statistics, indicator);
+    if (value === null) {
+      missingIndicators.push(indicator);
+      return;
+    }
+    const score = scoreIndicator(value, indicatorThresholds(indicator, thresholds));
+    signals.push({
+      indicator,
+      value,
+      score: roundScore(score),
+      condition: conditionOf(score),
+      weight: MARKET_INDICATOR_WEIGHTS[indicator]
+    });
+  });
+  if (!signals.length) return null;
+
+  const totalWeight = signals.reduce((total, signal) => total + signal.weight, 0);
+  const score = signals.reduce((total, signal) => total + signal.score * signal.weight, 0) / totalWeight;
+  const condition = conditionOf(score);
+
+  return {
+    condition,
+    score: roundScore(score),
+    indicators: signals,
+    missingIndicators,
+    explanation: explain(condition, score, signals, missingIndicators)
+  };
+}
+
+/**
+ * Labels a segment of a report's listings, e.g. one city or price band, over
+ * the report's reporting window.
+ */
+export function classifyListings(
+  listings: Property[],
+  segment: string,
+  options: { window?: ReportingWindow; thresholds?: ValidationThresholds } = {}
+): MarketConditionResult | null {
+  const result = classifyMarket(calculateStatistics(listings, options.window), options.thresholds);
+  return result && { ...result, segment };
+}
+
+/**
+ * Labels each city with at least MIN_SEGMENT_LISTINGS listings in the report.
+ */
+export function classifyCities(
+  report: MLSReport,
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
+): MarketConditionResult[] {
+  const listings = [...(report.activeListings || []), ...(report.closedListings || [])];
+  const byCity = listings.reduce((cities, listing) => {
+    const city = (listing.city || '').trim();
+    if (city) cities.set(city, (cities.get(city) || []).concat(listing));
+    return cities;
+  }, new Map<string, Property[]>());
+
+  return Array.from(byCity.entries())
+    .filter(([, cityListings]) => cityListings.length >= MIN_SEGMENT_LISTINGS)
+    .map(([city, cityListings]) => classifyListings(cityListings, city, {
+      window: report.statistics?.reportingWindow || undefined,
+      thresholds
+    }))
+    .filter((result): result is MarketConditionResult => result !== null);
+}
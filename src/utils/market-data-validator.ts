@@ -4,8 +4,10 @@ import type {
   SchoolInfo, 
   DemographicMetric,
   MarketTrends,
-  PricePoint
+  PricePoint,
+  SeasonalityData
 } from '@/types/property';
+import type { ValidationIssue, ValidationRule, ValidationSeverity, ValidationThresholds } from '@/types/validation';
 
 export class ValidationError extends Error {
   constructor(message: string, public field: string) {
@@ -14,8 +16,8 @@ export class ValidationError extends Error {
   }
 }
 
-// Constants for validation thresholds
-const THRESHOLDS = {
+// Used wherever no per-city overrides have been loaded (see validation-thresholds.ts)
+export const DEFAULT_VALIDATION_THRESHOLDS: ValidationThresholds = {
   PRICE_VOLATILITY: 0.15,           // 15% max monthly change
   MAX_PRICE_DROP: 0.20,             // 20% max price drop
   MIN_CONFIDENCE: 0.5,              // 50% minimum confidence
@@ -27,27 +29,21 @@ const THRESHOLDS = {
   MAX_PRICE_TO_INCOME_RATIO: 5,     // Maximum price to income ratio
   MAX_PRICE_TO_RENT_RATIO: 30,      // Maximum price to rent ratio
   MAX_SEASONAL_VOLUME_CHANGE: 0.5,  // 50% max seasonal volume change
-  MAX_YOY_GROWTH: 0.30,            // 30% maximum year-over-year growth
+  MAX_YOY_GROWTH: 0.30,             // 30% maximum year-over-year growth
   MAX_PRICE_DEVIATION: 0.5,         // 50% max deviation from median
-  MIN_DAYS_ON_MARKET: 5,           // Minimum reasonable DOM
+  MIN_DAYS_ON_MARKET: 5,            // Minimum reasonable DOM
   MAX_POPULATION_DENSITY: 10000,    // per square mile
-} as const;
-
-// Market condition thresholds
-const MARKET_CONDITIONS = {
-  BUYERS_MARKET: {
-    MIN_MONTHS_SUPPLY: 6,
-    MIN_DAYS_ON_MARKET: 60,
-    MAX_ABSORPTION_RATE: 40,
-    MAX_LIST_TO_SOLD_RATIO: 0.95
-  },
-  SELLERS_MARKET: {
-    MAX_MONTHS_SUPPLY: 3,
-    MAX_DAYS_ON_MARKET: 30,
-    MIN_ABSORPTION_RATE: 60,
-    MIN_LIST_TO_SOLD_RATIO: 0.98
-  }
-} as const;
+
+  // Market condition thresholds
+  BUYERS_MARKET_MIN_MONTHS_SUPPLY: 6,
+  BUYERS_MARKET_MIN_DAYS_ON_MARKET: 60,
+  BUYERS_MARKET_MAX_ABSORPTION_RATE: 40,
+  BUYERS_MARKET_MAX_LIST_TO_SOLD_RATIO: 0.95,
+  SELLERS_MARKET_MAX_MONTHS_SUPPLY: 3,
+  SELLERS_MARKET_MAX_DAYS_ON_MARKET: 30,
+  SELLERS_MARKET_MIN_ABSORPTION_RATE: 60,
+  SELLERS_MARKET_MIN_LIST_TO_SOLD_RATIO: 0.98
+};
 
 // Type guards
 function isDemographicMetric(value: unknown): value is DemographicMetric {
@@ -157,15 +153,14 @@ function isForecastMetric(value: unknown): value is { priceChange: number; confi
 }
 
 function isStatistics(value: unknown): value is MLSReport['statistics'] {
-  const requiredFields = [
+  const countFields = ['totalActiveListings', 'totalClosedSales', 'inventoryLevel'];
+  // Null when the report has no listings to derive the figure from
+  const nullableFields = [
     'averageDaysOnMarket',
     'medianDaysOnMarket',
-    'totalActiveListings',
-    'totalClosedSales',
     'averagePrice',
     'medianPrice',
     'pricePerSquareFoot',
-    'inventoryLevel',
     'daysOfInventory',
     'absorptionRate',
     'newListings',
@@ -180,13 +175,10 @@ function isStatistics(value: unknown): value is MLSReport['statistics'] {
     'monthsOfSupply'
   ];
 
-  return (
-    typeof value === 'object' &&
-    value !== null &&
-    requiredFields.every(field => 
-      field in value && typeof (value as any)[field] === 'number'
-    )
-  );
+  if (typeof value !== 'object' || value === null) return false;
+  const fields = value as Record<string, unknown>;
+  return countFields.every(field => typeof fields[field] === 'number') &&
+    nullableFields.every(field => fields[field] === null || typeof fields[field] === 'number');
 }
 
 function isProperty(value: unknown): value is Property {
@@ -214,305 +206,442 @@ function isProperty(value: unknown): value is Property {
   );
 }
 
-export function validatePricePoint(value: unknown): asserts value is PricePoint {
-  if (!isPricePoint(value)) {
-    throw new ValidationError('Invalid price point structure', 'structure');
+const FORECAST_PERIODS = ['nextMonth', 'nextQuarter', 'nextYear'] as const;
+
+function issue(field: string, severity: ValidationSeverity, ruleId: string, message: string): ValidationIssue {
+  return { field, severity, ruleId, message };
+}
+
+// Joins a field onto the path of the value being checked. Standalone checks
+// start with an empty path so their fields read as before ('date', 'rating').
+function join(path: string, field: string): string {
+  return path ? `${path}.${field}` : field;
+}
+
+// The throwing validators stop at the first error; warnings do not reject a
+// usable report
+function throwFirstIssue(issues: ValidationIssue[]): void {
+  const firstError = issues.find(found => found.severity === 'error');
+  if (firstError) {
+    throw new ValidationError(firstError.message, firstError.field);
   }
+}
 
-  const dateRegex = /^\d{4}-\d{2}$/;
-  if (!dateRegex.test(value.date)) {
-    throw new ValidationError('Invalid date format. Expected YYYY-MM', 'date');
+export function collectPricePointIssues(value: unknown, path = ''): ValidationIssue[] {
+  if (!isPricePoint(value)) {
+    return [issue(path || 'structure', 'error', 'price-point-structure', 'Invalid price point structure')];
   }
 
+  const issues: ValidationIssue[] = [];
+  if (!/^\d{4}-\d{2}$/.test(value.date)) {
+    issues.push(issue(join(path, 'date'), 'error', 'price-point-date', 'Invalid date format. Expected YYYY-MM'));
+  }
   if (value.price <= 0) {
-    throw new ValidationError('Invalid price. Must be a positive number', 'price');
+    issues.push(issue(join(path, 'price'), 'error', 'price-point-price', 'Invalid price. Must be a positive number'));
   }
-
   if (value.volume < 0) {
-    throw new ValidationError('Invalid volume. Must be a positive number', 'volume');
+    issues.push(issue(join(path, 'volume'), 'error', 'price-point-volume', 'Invalid volume. Must be a positive number'));
   }
+  return issues;
 }
 
-export function validateMarketTrends(value: unknown): asserts value is MLSReport['marketTrends'] {
+export function collectMarketTrendsIssues(
+  value: unknown,
+  path = '',
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
+): ValidationIssue[] {
   if (!isMarketTrends(value)) {
-    throw new ValidationError('Invalid market trends structure', 'structure');
+    return [issue(path || 'structure', 'error', 'market-trends-structure', 'Invalid market trends structure')];
   }
 
-  // Validate price history chronology and volatility
+  const issues: ValidationIssue[] = [];
+
+  // Price history chronology and volatility
   value.priceHistory.forEach((point, index) => {
-    validatePricePoint(point);
+    const pointPath = `${join(path, 'priceHistory')}[${index}]`;
+    issues.push(...collectPricePointIssues(point, pointPath));
     if (index > 0) {
       const prevPoint = value.priceHistory[index - 1];
       if (point.date <= prevPoint.date) {
-        throw new ValidationError('Price history must be in chronological order', `priceHistory[${index}].date`);
+        issues.push(issue(`${pointPath}.date`, 'error', 'price-history-chronology',
+          'Price history must be in chronological order'));
       }
       const priceChange = Math.abs((point.price - prevPoint.price) / prevPoint.price);
-      if (priceChange > THRESHOLDS.PRICE_VOLATILITY) {
-        throw new ValidationError('Price volatility exceeds market threshold', `priceHistory[${index}].price`);
+      if (priceChange > thresholds.PRICE_VOLATILITY) {
+        issues.push(issue(`${pointPath}.price`, 'error', 'price-volatility',
+          'Price volatility exceeds market threshold'));
       }
     }
   });
 
-  // Validate seasonality
+  // Months with no sales, or too few to trust, are left out of the volume comparison
+  const hasSeasonalVolume = (month: SeasonalityData) => month.salesVolume > 0 && !month.lowConfidence;
   value.seasonality.forEach((point, index) => {
+    const pointPath = `${join(path, 'seasonality')}[${index}]`;
     if (point.month < 1 || point.month > 12) {
-      throw new ValidationError('Invalid month. Must be between 1 and 12', `seasonality[${index}].month`);
+      issues.push(issue(`${pointPath}.month`, 'error', 'seasonality-month', 'Invalid month. Must be between 1 and 12'));
     }
-    if (index > 0) {
-      const volumeChange = Math.abs((point.salesVolume - value.seasonality[index - 1].salesVolume) 
-        / value.seasonality[index - 1].salesVolume);
-      if (volumeChange > THRESHOLDS.MAX_SEASONAL_VOLUME_CHANGE) {
-        throw new ValidationError('Invalid seasonal volume pattern', `seasonality[${index}].salesVolume`);
+    const previous = value.seasonality[index - 1];
+    if (previous && hasSeasonalVolume(point) && hasSeasonalVolume(previous)) {
+      const volumeChange = Math.abs((point.salesVolume - previous.salesVolume) / previous.salesVolume);
+      if (volumeChange > thresholds.MAX_SEASONAL_VOLUME_CHANGE) {
+        issues.push(issue(`${pointPath}.salesVolume`, 'error', 'seasonal-volume', 'Invalid seasonal volume pattern'));
       }
     }
   });
 
-  // Validate forecasts
-  Object.entries(value.forecast).forEach(([period, forecast]) => {
-    if (forecast.confidence < THRESHOLDS.MIN_CONFIDENCE || forecast.confidence > THRESHOLDS.MAX_CONFIDENCE) {
-      throw new ValidationError('Invalid confidence value', `forecast.${period}.confidence`);
+  FORECAST_PERIODS.forEach(period => {
+    const forecast = value.forecast[period];
+    const forecastPath = join(path, `forecast.${period}`);
+    if (forecast.confidence < 0 || forecast.confidence > thresholds.MAX_CONFIDENCE) {
+      issues.push(issue(`${forecastPath}.confidence`, 'error', 'forecast-confidence-range', 'Invalid confidence value'));
+    } else if (forecast.confidence < thresholds.MIN_CONFIDENCE) {
+      issues.push(issue(`${forecastPath}.confidence`, 'info', 'forecast-low-confidence',
+        `Forecast confidence is below ${thresholds.MIN_CONFIDENCE * 100}%`));
     }
-    if (period === 'nextYear' && Math.abs(forecast.priceChange) > THRESHOLDS.MAX_YOY_GROWTH) {
-      throw new ValidationError('Annual growth rate exceeds historical bounds', `forecast.${period}.priceChange`);
+    if (period === 'nextYear' && Math.abs(forecast.priceChange) > thresholds.MAX_YOY_GROWTH) {
+      issues.push(issue(`${forecastPath}.priceChange`, 'error', 'forecast-annual-growth',
+        'Annual growth rate exceeds historical bounds'));
     }
   });
+
+  return issues;
 }
 
-export function validateSchoolInfo(value: unknown): asserts value is SchoolInfo {
+export function collectSchoolInfoIssues(
+  value: unknown,
+  path = '',
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
+): ValidationIssue[] {
   if (!isSchoolInfo(value)) {
-    throw new ValidationError('Invalid school info structure', 'structure');
+    return [issue(path || 'structure', 'error', 'school-structure', 'Invalid school info structure')];
   }
 
+  const issues: ValidationIssue[] = [];
   if (value.rating < 0 || value.rating > 10) {
-    throw new ValidationError('Invalid school rating. Must be between 0 and 10', 'rating');
+    issues.push(issue(join(path, 'rating'), 'error', 'school-rating', 'Invalid school rating. Must be between 0 and 10'));
   }
-
   if (!['elementary', 'middle', 'high'].includes(value.type)) {
-    throw new ValidationError('Invalid school type. Must be elementary, middle, or high', 'type');
+    issues.push(issue(join(path, 'type'), 'error', 'school-type',
+      'Invalid school type. Must be elementary, middle, or high'));
   }
-
-  if (value.distance < 0 || value.distance > THRESHOLDS.MAX_SCHOOL_DISTANCE) {
-    throw new ValidationError('School district outside reasonable distance', 'distance');
+  if (value.distance < 0 || value.distance > thresholds.MAX_SCHOOL_DISTANCE) {
+    issues.push(issue(join(path, 'distance'), 'warning', 'school-distance', 'School district outside reasonable distance'));
   }
-
-  if (value.studentTeacherRatio < THRESHOLDS.MIN_STUDENT_TEACHER_RATIO || 
-      value.studentTeacherRatio > THRESHOLDS.MAX_STUDENT_TEACHER_RATIO) {
-    throw new ValidationError('Invalid student-teacher ratio', 'studentTeacherRatio');
+  if (value.studentTeacherRatio < thresholds.MIN_STUDENT_TEACHER_RATIO ||
+      value.studentTeacherRatio > thresholds.MAX_STUDENT_TEACHER_RATIO) {
+    issues.push(issue(join(path, 'studentTeacherRatio'), 'warning', 'school-student-teacher-ratio',
+      'Invalid student-teacher ratio'));
   }
+  return issues;
 }
 
-export function validateDemographicMetric(value: unknown): asserts value is DemographicMetric {
+export function collectDemographicMetricIssues(value: unknown, path = ''): ValidationIssue[] {
   if (!isDemographicMetric(value)) {
-    throw new ValidationError('Invalid demographic metric structure', 'structure');
+    return [issue(path || 'structure', 'error', 'demographic-structure', 'Invalid demographic metric structure')];
   }
 
+  const issues: ValidationIssue[] = [];
   if (value.value <= 0) {
-    throw new ValidationError('Invalid demographic value. Must be a positive number', 'value');
+    issues.push(issue(join(path, 'value'), 'warning', 'demographic-value',
+      'Invalid demographic value. Must be a positive number'));
   }
-
   if (!['increasing', 'decreasing', 'stable'].includes(value.trend)) {
-    throw new ValidationError('Invalid trend. Must be increasing, decreasing, or stable', 'trend');
+    issues.push(issue(join(path, 'trend'), 'error', 'demographic-trend',
+      'Invalid trend. Must be increasing, decreasing, or stable'));
   }
-
   if (typeof value.percentChange !== 'number') {
-    throw new ValidationError('Invalid percent change. Must be a number', 'percentChange');
+    issues.push(issue(join(path, 'percentChange'), 'error', 'demographic-percent-change',
+      'Invalid percent change. Must be a number'));
   }
+  return issues;
 }
 
-export function validateProperty(value: unknown): asserts value is Property {
+export function collectPropertyIssues(value: unknown, path = ''): ValidationIssue[] {
   if (!isProperty(value)) {
-    throw new ValidationError('Invalid property structure', 'structure');
+    return [issue(path || 'structure', 'error', 'property-structure', 'Invalid property structure')];
   }
 
+  const issues: ValidationIssue[] = [];
   if (value.listPrice <= 0) {
-    throw new ValidationError('Invalid list price. Must be a positive number', 'listPrice');
+    issues.push(issue(join(path, 'listPrice'), 'error', 'property-list-price',
+      'Invalid list price. Must be a positive number'));
   }
-
   if (value.sqft <= 0) {
-    throw new ValidationError('Invalid square footage. Must be a positive number', 'sqft');
+    issues.push(issue(join(path, 'sqft'), 'error', 'property-sqft', 'Invalid square footage. Must be a positive number'));
   }
-
   if (!value.address.trim()) {
-    throw new ValidationError('Invalid address', 'address');
+    issues.push(issue(join(path, 'address'), 'error', 'property-address', 'Invalid address'));
   }
-
+  // Zero bedrooms usually means the count was not found
   if (value.bedrooms <= 0) {
-    throw new ValidationError('Invalid number of bedrooms. Must be a positive number', 'bedrooms');
+    issues.push(issue(join(path, 'bedrooms'), value.bedrooms < 0 ? 'error' : 'warning', 'property-bedrooms',
+      'Invalid number of bedrooms. Must be a positive number'));
   }
-
   if (!/^\d+\/\d+\/\d+$/.test(value.bathrooms)) {
-    throw new ValidationError('Invalid bathroom format. Must be in format "full/half/quarter"', 'bathrooms');
+    issues.push(issue(join(path, 'bathrooms'), 'error', 'property-bathrooms',
+      'Invalid bathroom format. Must be in format "full/half/quarter"'));
   }
 
-  // Validate price per square foot
-  const calculatedPricePerSqft = value.listPrice / value.sqft;
-  if (Math.abs(calculatedPricePerSqft - value.pricePerSqft) > 1) {
-    throw new ValidationError('Invalid price per square foot', 'pricePerSqft');
+  // Price per square foot can only be checked against a usable price and size
+  if (value.listPrice > 0 && value.sqft > 0 && Math.abs(value.listPrice / value.sqft - value.pricePerSqft) > 1) {
+    issues.push(issue(join(path, 'pricePerSqft'), 'warning', 'property-price-per-sqft', 'Invalid price per square foot'));
   }
+  return issues;
 }
 
-function validateMarketConditions(report: MLSReport): void {
-  const { statistics } = report;
-  
-  // Buyer's Market Validation
-  if (statistics.monthsOfSupply >= MARKET_CONDITIONS.BUYERS_MARKET.MIN_MONTHS_SUPPLY) {
-    if (statistics.absorptionRate > MARKET_CONDITIONS.BUYERS_MARKET.MAX_ABSORPTION_RATE ||
-        statistics.listToSoldRatio > MARKET_CONDITIONS.BUYERS_MARKET.MAX_LIST_TO_SOLD_RATIO ||
-        statistics.averageDaysOnMarket < MARKET_CONDITIONS.BUYERS_MARKET.MIN_DAYS_ON_MARKET) {
-      throw new ValidationError('Inconsistent market condition indicators', 'statistics');
+function collectMarketConditionIssues(
+  statistics: MLSReport['statistics'],
+  thresholds: ValidationThresholds
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const { monthsOfSupply, absorptionRate, listToSoldRatio, averageDaysOnMarket } = statistics;
+
+  // Market condition indicators are only compared when all of them are known
+  if (monthsOfSupply !== null && absorptionRate !== null &&
+      listToSoldRatio !== null && averageDaysOnMarket !== null) {
+    const buyersMarketMismatch = monthsOfSupply >= thresholds.BUYERS_MARKET_MIN_MONTHS_SUPPLY && (
+      absorptionRate > thresholds.BUYERS_MARKET_MAX_ABSORPTION_RATE ||
+      listToSoldRatio > thresholds.BUYERS_MARKET_MAX_LIST_TO_SOLD_RATIO ||
+      averageDaysOnMarket < thresholds.BUYERS_MARKET_MIN_DAYS_ON_MARKET);
+    const sellersMarketMismatch = monthsOfSupply <= thresholds.SELLERS_MARKET_MAX_MONTHS_SUPPLY && (
+      absorptionRate < thresholds.SELLERS_MARKET_MIN_ABSORPTION_RATE ||
+      listToSoldRatio < thresholds.SELLERS_MARKET_MIN_LIST_TO_SOLD_RATIO ||
+      averageDaysOnMarket > thresholds.SELLERS_MARKET_MAX_DAYS_ON_MARKET);
+
+    if (buyersMarketMismatch || sellersMarketMismatch) {
+      issues.push(issue('statistics', 'warning', 'market-condition-consistency',
+        'Inconsistent market condition indicators'));
     }
   }
 
-  // Seller's Market Validation
-  if (statistics.monthsOfSupply <= MARKET_CONDITIONS.SELLERS_MARKET.MAX_MONTHS_SUPPLY) {
-    if (statistics.absorptionRate < MARKET_CONDITIONS.SELLERS_MARKET.MIN_ABSORPTION_RATE ||
-        statistics.listToSoldRatio < MARKET_CONDITIONS.SELLERS_MARKET.MIN_LIST_TO_SOLD_RATIO ||
-        statistics.averageDaysOnMarket > MARKET_CONDITIONS.SELLERS_MARKET.MAX_DAYS_ON_MARKET) {
-      throw new ValidationError('Inconsistent market condition indicators', 'statistics');
-    }
+  if (statistics.averageSoldPrice !== null && statistics.averageListPrice !== null &&
+      listToSoldRatio !== null &&
+      statistics.averageSoldPrice > statistics.averageListPrice &&
+      listToSoldRatio < 1) {
+    issues.push(issue('statistics', 'warning', 'sale-to-list-consistency', 'Inconsistent sale-to-list metrics'));
   }
 
-  // Validate price trends
-  if (statistics.averageSoldPrice > statistics.averageListPrice &&
-      statistics.listToSoldRatio < 1) {
-    throw new ValidationError('Inconsistent sale-to-list metrics', 'statistics');
-  }
-
-  // Validate inventory metrics
-  const calculatedInventory = statistics.totalActiveListings + statistics.pendingListings;
+  const calculatedInventory = statistics.totalActiveListings + (statistics.pendingListings || 0);
   if (Math.abs(calculatedInventory - statistics.inventoryLevel) > 5) { // Allow small difference for timing
-    throw new ValidationError('Inconsistent inventory metrics', 'statistics');
+    issues.push(issue('statistics', 'warning', 'inventory-consistency', 'Inconsistent inventory metrics'));
   }
+
+  return issues;
 }
 
-function validateDemographicTrends(report: MLSReport): void {
+function collectDemographicTrendIssues(report: MLSReport, thresholds: ValidationThresholds): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
   const { demographicAnalysis, statistics } = report;
 
-  // Validate education levels
   if (!isEducationLevels(demographicAnalysis.educationLevels)) {
-    throw new ValidationError('Invalid education levels structure', 'demographicAnalysis.educationLevels');
+    issues.push(issue('demographicAnalysis.educationLevels', 'error', 'education-levels-structure',
+      'Invalid education levels structure'));
+  } else {
+    const totalEducation = Object.values(demographicAnalysis.educationLevels)
+      .reduce((sum, metric) => sum + metric.value, 0);
+    if (totalEducation > 1.1) { // Allow 10% overlap for rounding
+      issues.push(issue('demographicAnalysis.educationLevels', 'warning', 'education-level-total',
+        'Invalid education level total'));
+    }
   }
 
-  // Validate education levels total
-  const totalEducation = Object.values(demographicAnalysis.educationLevels)
-    .reduce((sum, metric) => sum + metric.value, 0);
-  if (totalEducation > 1.1) { // Allow 10% overlap for rounding
-    throw new ValidationError('Invalid education level total', 'demographicAnalysis.educationLevels');
+  // Malformed metrics are already reported field by field; only missing
+  // ones are reported here
+  const { population, medianIncome, employmentRate } = demographicAnalysis;
+  if (population === undefined) {
+    issues.push(issue('demographicAnalysis.population', 'error', 'population-structure',
+      'Invalid population metric structure'));
+  } else if (isDemographicMetric(population) && population.value > thresholds.MAX_POPULATION_DENSITY) {
+    issues.push(issue('demographicAnalysis.population', 'warning', 'population-density',
+      'Population exceeds geographic bounds'));
+  }
+
+  if (medianIncome === undefined) {
+    issues.push(issue('demographicAnalysis.medianIncome', 'error', 'median-income-structure',
+      'Invalid median income metric structure'));
+  } else if (isDemographicMetric(medianIncome) && statistics.medianPrice !== null &&
+      statistics.medianPrice / medianIncome.value > thresholds.MAX_PRICE_TO_INCOME_RATIO) {
+    issues.push(issue('statistics.medianPrice', 'info', 'price-to-income',
+      'Price-to-income ratio exceeds reasonable threshold'));
+  }
+
+  if (employmentRate === undefined) {
+    issues.push(issue('demographicAnalysis.employmentRate', 'error', 'employment-rate-structure',
+      'Invalid employment rate metric structure'));
+  } else if (isDemographicMetric(medianIncome) && isDemographicMetric(employmentRate) &&
+      medianIncome.trend === 'decreasing' &&
+      employmentRate.trend === 'decreasing' &&
+      statistics.medianPrice !== null && statistics.medianListPrice !== null &&
+      statistics.medianPrice > statistics.medianListPrice) {
+    issues.push(issue('demographicAnalysis', 'info', 'demographic-trend-consistency', 'Inconsistent trend indicators'));
   }
 
-  // Validate population density
-  if (!isDemographicMetric(demographicAnalysis.population)) {
-    throw new ValidationError('Invalid population metric structure', 'demographicAnalysis.population');
-  }
-  if (demographicAnalysis.population.value > THRESHOLDS.MAX_POPULATION_DENSITY) {
-    throw new ValidationError('Population exceeds geographic bounds', 'demographicAnalysis.population');
-  }
+  return issues;
+}
 
-  // Validate price-to-income ratio
-  if (!isDemographicMetric(demographicAnalysis.medianIncome)) {
-    throw new ValidationError('Invalid median income metric structure', 'demographicAnalysis.medianIncome');
-  }
-  const priceToIncomeRatio = statistics.medianPrice / demographicAnalysis.medianIncome.value;
-  if (priceToIncomeRatio > THRESHOLDS.MAX_PRICE_TO_INCOME_RATIO) {
-    throw new ValidationError('Price-to-income ratio exceeds reasonable threshold', 'statistics.medianPrice');
+function collectStatisticsIssues(statistics: MLSReport['statistics'], thresholds: ValidationThresholds): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const { absorptionRate, averagePrice, medianPrice, averageDaysOnMarket } = statistics;
+
+  if (absorptionRate !== null && absorptionRate > thresholds.MAX_ABSORPTION_RATE) {
+    issues.push(issue('statistics.absorptionRate', 'error', 'absorption-rate-range',
+      'Invalid absorption rate. Must be between 0 and 100'));
   }
 
-  // Validate trend consistency
-  if (!isDemographicMetric(demographicAnalysis.employmentRate)) {
-    throw new ValidationError('Invalid employment rate metric structure', 'demographicAnalysis.employmentRate');
+  const priceDeviation = averagePrice !== null && medianPrice
+    ? Math.abs(averagePrice - medianPrice) / medianPrice
+    : 0;
+  if (priceDeviation > thresholds.MAX_PRICE_DEVIATION) {
+    issues.push(issue('statistics', 'warning', 'price-distribution', 'Price distribution exceeds normal bounds'));
   }
-  if (demographicAnalysis.medianIncome.trend === 'decreasing' && 
-      demographicAnalysis.employmentRate.trend === 'decreasing' &&
-      statistics.medianPrice > statistics.medianListPrice) {
-    throw new ValidationError('Inconsistent trend indicators', 'demographicAnalysis');
+
+  if (averageDaysOnMarket !== null && averageDaysOnMarket < thresholds.MIN_DAYS_ON_MARKET) {
+    issues.push(issue('statistics.averageDaysOnMarket', 'warning', 'days-on-market', 'Invalid average days on market'));
   }
+
+  return issues;
 }
 
-export function validateMLSReport(report: MLSReport): void {
-  // Validate market trends
-  validateMarketTrends(report.marketTrends);
+function prefixMessages(issues: ValidationIssue[], prefix: string): ValidationIssue[] {
+  return issues.map(found => ({ ...found, message: `${prefix}: ${found.message}` }));
+}
 
-  // Validate school districts
-  report.schoolDistricts.forEach((school, index) => {
-    try {
-      validateSchoolInfo(school);
-    } catch (error) {
-      if (error instanceof ValidationError) {
-        throw new ValidationError(
-          `Invalid school district at index ${index}: ${error.message}`,
-          `schoolDistricts[${index}].${error.field}`
-        );
-      }
-      throw error;
-    }
-  });
+function collectSchoolDistrictIssues(report: MLSReport, thresholds: ValidationThresholds): ValidationIssue[] {
+  return (report.schoolDistricts || []).reduce<ValidationIssue[]>((issues, school, index) => issues.concat(
+    prefixMessages(
+      collectSchoolInfoIssues(school, `schoolDistricts[${index}]`, thresholds),
+      `Invalid school district at index ${index}`
+    )
+  ), []);
+}
 
-  // Validate demographic analysis
-  Object.entries(report.demographicAnalysis).forEach(([key, metric]) => {
+function collectDemographicAnalysisIssues(report: MLSReport): ValidationIssue[] {
+  const { demographicAnalysis } = report;
+  if (!demographicAnalysis) {
+    return [issue('demographicAnalysis', 'error', 'demographics-structure', 'Missing demographic analysis')];
+  }
+
+  const metricIssues = (name: string, value: unknown) => prefixMessages(
+    collectDemographicMetricIssues(value, `demographicAnalysis.${name}`),
+    `Invalid demographic metric for ${name}`
+  );
+  return Object.entries(demographicAnalysis).reduce<ValidationIssue[]>((issues, [key, metric]) => {
     if (key === 'educationLevels') {
-      const educationLevels = metric as Record<string, DemographicMetric>;
-      Object.entries(educationLevels).forEach(([level, eduMetric]) => {
-        try {
-          validateDemographicMetric(eduMetric);
-        } catch (error) {
-          if (error instanceof ValidationError) {
-            throw new ValidationError(
-              `Invalid demographic metric for educationLevels.${level}`,
-              `demographicAnalysis.educationLevels.${level}.${error.field}`
-            );
-          }
-          throw error;
-        }
-      });
-    } else if (typeof metric === 'object') {
-      try {
-        validateDemographicMetric(metric as DemographicMetric);
-      } catch (error) {
-        if (error instanceof ValidationError) {
-          throw new ValidationError(
-            `Invalid demographic metric for ${key}`,
-            `demographicAnalysis.${key}.${error.field}`
-          );
-        }
-        throw error;
-      }
+      return Object.entries((metric || {}) as Record<string, unknown>).reduce(
+        (levelIssues, [level, value]) => levelIssues.concat(metricIssues(`educationLevels.${level}`, value)),
+        issues
+      );
     }
-  });
+    return typeof metric === 'object' ? issues.concat(metricIssues(key, metric)) : issues;
+  }, []);
+}
+
+function collectListingIssues(report: MLSReport): ValidationIssue[] {
+  return (['activeListings', 'closedListings'] as const).reduce<ValidationIssue[]>((issues, list) =>
+    (report[list] || []).reduce((listIssues, property, index) => listIssues.concat(
+      prefixMessages(collectPropertyIssues(property, `${list}[${index}]`), `Invalid property in ${list} at index ${index}`)
+    ), issues), []);
+}
 
-  // Validate properties
-  [...report.activeListings, ...report.closedListings].forEach((property, index) => {
-    try {
-      validateProperty(property);
-    } catch (error) {
-      if (error instanceof ValidationError) {
-        throw new ValidationError(
-          `Invalid property in ${index < report.activeListings.length ? 'activeListings' : 'closedListings'} at index ${index}: ${error.message}`,
-          `${index < report.activeListings.length ? 'activeListings' : 'closedListings'}[${index}].${error.field}`
-        );
+/**
+ * The market data checks, one rule per report section, in the order they
+ * run. Issues carry the ID of the specific check that fired, e.g. a
+ * 'school-rating' issue from the 'school-districts' rule. Sections whose
+ * structure is invalid are reported once and their remaining checks skipped.
+ */
+export const MARKET_DATA_RULES: ValidationRule[] = [
+  {
+    id: 'market-trends',
+    description: 'Price history, seasonality and forecast are well formed and plausible',
+    check: (report, thresholds) => collectMarketTrendsIssues(report.marketTrends, 'marketTrends', thresholds)
+  },
+  {
+    id: 'school-districts',
+    description: 'School ratings, types, distances and student-teacher ratios are in range',
+    check: collectSchoolDistrictIssues
+  },
+  {
+    id: 'demographic-metrics',
+    description: 'Every demographic metric has a positive value, a trend and a percent change',
+    check: collectDemographicAnalysisIssues
+  },
+  {
+    id: 'listing-values',
+    description: 'Listings have a price, size, address, bathroom breakdown and matching price per square foot',
+    check: collectListingIssues
+  },
+  {
+    id: 'market-conditions',
+    description: 'Supply, absorption, sale-to-list and inventory statistics agree with each other',
+    check: (report, thresholds) => (report.statistics ? collectMarketConditionIssues(report.statistics, thresholds) : [])
+  },
+  {
+    id: 'demographic-trends',
+    description: 'Education totals, population and price-to-income ratio are plausible',
+    check: (report, thresholds) => (report.statistics && report.demographicAnalysis
+      ? collectDemographicTrendIssues(report, thresholds)
+      : [])
+  },
+  {
+    id: 'statistics',
+    description: 'Absorption rate, price distribution and days on market are in range',
+    check: (report, thresholds) => {
+      if (!report.statistics) {
+        return [issue('statistics', 'error', 'statistics-structure', 'Missing report statistics')];
       }
-      throw error;
+      return isStatistics(report.statistics)
+        ? collectStatisticsIssues(report.statistics, thresholds)
+        : [issue('statistics', 'error', 'statistics-structure', 'Invalid statistics structure')];
     }
-  });
+  }
+];
+
+/**
+ * Runs every market data rule over the report and returns all issues found.
+ * This is the "display" validation profile.
+ */
+export function collectMLSReportIssues(
+  report: MLSReport,
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
+): ValidationIssue[] {
+  return MARKET_DATA_RULES.reduce<ValidationIssue[]>((issues, rule) => issues.concat(rule.check(report, thresholds)), []);
+}
+
+export function validatePricePoint(value: unknown): asserts value is PricePoint {
+  throwFirstIssue(collectPricePointIssues(value));
+}
 
-  // Validate market conditions
-  validateMarketConditions(report);
+export function validateMarketTrends(
+  value: unknown,
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
+): asserts value is MLSReport['marketTrends'] {
+  throwFirstIssue(collectMarketTrendsIssues(value, '', thresholds));
+}
 
-  // Validate demographic trends
-  validateDemographicTrends(report);
+export function validateSchoolInfo(
+  value: unknown,
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
+): asserts value is SchoolInfo {
+  throwFirstIssue(collectSchoolInfoIssues(value, '', thresholds));
+}
 
-  // Validate statistics
-  if (report.statistics.absorptionRate > THRESHOLDS.MAX_ABSORPTION_RATE) {
-    throw new ValidationError('Invalid absorption rate. Must be between 0 and 100', 'statistics.absorptionRate');
-  }
+export function validateDemographicMetric(value: unknown): asserts value is DemographicMetric {
+  throwFirstIssue(collectDemographicMetricIssues(value));
+}
 
-  // Validate price distribution
-  const priceDeviation = Math.abs(report.statistics.averagePrice - report.statistics.medianPrice) / report.statistics.medianPrice;
-  if (priceDeviation > THRESHOLDS.MAX_PRICE_DEVIATION) {
-    throw new ValidationError('Price distribution exceeds normal bounds', 'statistics');
-  }
+export function validateProperty(value: unknown): asserts value is Property {
+  throwFirstIssue(collectPropertyIssues(value));
+}
 
-  // Validate days on market
-  if (report.statistics.averageDaysOnMarket < THRESHOLDS.MIN_DAYS_ON_MARKET) {
-    throw new ValidationError('Invalid average days on market', 'statistics.averageDaysOnMarket');
-  }
-} 
\ No newline at end of file
+/**
+ * Throws a ValidationError for the first error collectMLSReportIssues finds.
+ * Use validateReport from validation-profiles to see every issue, warnings
+ * included.
+ */
+export function validateMLSReport(
+  report: MLSReport,
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
+): void {
+  throwFirstIssue(collectMLSReportIssues(report, thresholds));
+}
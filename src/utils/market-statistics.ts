@@ -0,0 +1,148 @@
+import type { ListingStatus, Property, ReportingWindow, Statistics } from '@/types/property';
+import { detectListingOutliers } from './listing-outliers';
+
+// Market statistics derived from listing statuses, list dates and close dates.
+// Agents quote these numbers to clients, so a value that the listings cannot
+// support is returned as null instead of being estimated.
+
+const DAYS_PER_MONTH = 365.25 / 12;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const OFF_MARKET_STATUSES: ListingStatus[] = ['Canceled', 'Withdrawn'];
+
+function average(values: number[]): number | null {
+  return values.length ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : null;
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function daysBetween(start: string, end: string): number {
+  return (Date.parse(end) - Date.parse(start)) / MS_PER_DAY;
+}
+
+function isWithin(date: string | undefined, window: ReportingWindow): boolean {
+  return Boolean(date) && (date as string) >= window.start && (date as string) <= window.end;
+}
+
+function isClosed(listing: Property): boolean {
+  return Boolean(listing.soldPrice) || listing.status === 'Closed';
+}
+
+/**
+ * Builds a reporting window from start and end dates (YYYY-MM-DD).
+ */
+export function createReportingWindow(start: string, end: string): ReportingWindow {
+  if (end < start) {
+    throw new Error(`Reporting window ends (${end}) before it starts (${start})`);
+  }
+  return { start, end, months: round(daysBetween(start, end) / DAYS_PER_MONTH, 2) };
+}
+
+/**
+ * Returns the window to measure over: the one given, or the span from the
+ * earliest to the latest list or close date in the listings. Null when the
+ * listings carry no dates.
+ */
+export function resolveReportingWindow(listings: Property[], window?: ReportingWindow): ReportingWindow | null {
+  if (window) return window;
+
+  const dates = listings
+    .flatMap(listing => [listing.listDate, listing.soldDate])
+    .filter((date): date is string => Boolean(date))
+    .sort();
+  return dates.length ? createReportingWindow(dates[0], dates[dates.length - 1]) : null;
+}
+
+/**
+ * Derives every Statistics field from the listings.
+ *
+ * - Counts by status (pending, canceled) are only known when the source
+ *   reported statuses; listings without a status count as active.
+ * - New listings and closings are counted inside the reporting window, and
+ *   supply, absorption and days of inventory use the closings per month over
+ *   that window.
+ * - Price and days-on-market figures use only the listings that have them.
+ *   Price figures leave out price-per-square-foot outliers unless
+ *   `includeOutliers` is set; counts always include every listing.
+ */
+export function calculateStatistics(
+  listings: Property[],
+  window?: ReportingWindow,
+  options: { includeOutliers?: boolean } = {}
+): Statistics {
+  const reportingWindow = resolveReportingWindow(listings, window);
+  const closed = listings.filter(isClosed);
+  const outlierIndexes = options.includeOutliers ? [] : detectListingOutliers(listings).map(outlier => outlier.index);
+  const priced = listings.filter((_, index) => outlierIndexes.indexOf(index) === -1);
+  const pricedClosed = priced.filter(isClosed);
+  const open = listings.filter(listing => !isClosed(listing));
+  const hasStatuses = listings.some(listing => listing.status);
+
+  const active = open.filter(listing => !listing.status || listing.status === 'Active');
+  const pendingListings = hasStatuses ? open.filter(listing => listing.status === 'Pending').length : null;
+  const canceledListings = hasStatuses
+    ? open.filter(listing => listing.status && OFF_MARKET_STATUSES.includes(listing.status)).length
+    : null;
+
+  const listPrices = priced.map(listing => listing.listPrice).filter(price => price > 0);
+  const soldPrices = pricedClosed.map(listing => listing.soldPrice || 0).filter(price => price > 0);
+  const prices = priced
+    .map(listing => (isClosed(listing) ? listing.soldPrice || 0 : listing.listPrice))
+    .filter(price => price > 0);
+  const daysOnMarket = closed
+    .map(listing => listing.daysOnMarket)
+    .filter((days): days is number => days !== undefined);
+  const saleToListRatios = pricedClosed
+    .filter(listing => listing.listPrice > 0 && (listing.soldPrice || 0) > 0)
+    .map(listing => (listing.soldPrice as number) / listing.listPrice);
+
+  const newListings = reportingWindow && listings.some(listing => listing.listDate)
+    ? listings.filter(listing => isWithin(listing.listDate, reportingWindow)).length
+    : null;
+  const closedInWindow = reportingWindow && closed.some(listing => listing.soldDate)
+    ? closed.filter(listing => isWithin(listing.soldDate, reportingWindow)).length
+    : null;
+
+  // Closings per month is the basis of supply and absorption
+  const salesPerMonth = reportingWindow && reportingWindow.months > 0 && closedInWindow
+    ? closedInWindow / reportingWindow.months
+    : null;
+  const monthsOfSupply = salesPerMonth ? round(active.length / salesPerMonth, 1) : null;
+
+  return {
+    averageDaysOnMarket: average(daysOnMarket),
+    medianDaysOnMarket: median(daysOnMarket),
+    totalActiveListings: active.length,
+    totalClosedSales: closed.length,
+    averagePrice: average(prices),
+    medianPrice: median(prices),
+    pricePerSquareFoot: average(priced.map(listing => listing.pricePerSqft).filter(value => value > 0)),
+    inventoryLevel: active.length + (pendingListings || 0),
+    daysOfInventory: monthsOfSupply !== null ? Math.round(monthsOfSupply * DAYS_PER_MONTH) : null,
+    absorptionRate: salesPerMonth && active.length ? round((salesPerMonth / active.length) * 100, 1) : null,
+    newListings,
+    closedListings: closedInWindow,
+    pendingListings,
+    canceledListings,
+    averageListPrice: average(listPrices),
+    medianListPrice: median(listPrices),
+    averageSoldPrice: average(soldPrices),
+    medianSoldPrice: median(soldPrices),
+    listToSoldRatio: saleToListRatios.length
+      ? round(saleToListRatios.reduce((a, b) => a + b, 0) / saleToListRatios.length, 3)
+      : null,
+    monthsOfSupply,
+    reportingWindow,
+    outliersExcluded: outlierIndexes.length
+  };
+}
@@ -0,0 +1,121 @@
+import type { PricePoint, Property, SeasonalityData } from '@/types/property';
+
+// Builds MarketTrends price history and seasonality from closed sales. Months
+// with too few sales to trust are smoothed with their neighbours and flagged
+// as low confidence instead of plotting a one-sale median.
+
+// Months with fewer closed sales than this are smoothed
+export const MIN_MONTHLY_SAMPLE = 5;
+
+interface MonthlyBucket {
+  price: number | null;
+  volume: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function closedSales(listings: Property[]): Array<{ month: string; price: number }> {
+  return listings
+    .filter(listing => listing.soldDate && (listing.soldPrice || 0) > 0)
+    .map(listing => ({ month: (listing.soldDate as string).slice(0, 7), price: listing.soldPrice as number }));
+}
+
+// Volume-weighted price of a bucket and its immediate neighbours. Circular
+// series (months of the year) wrap December around to January.
+function smoothedPrice(buckets: MonthlyBucket[], index: number, circular: boolean, fallback: number): number {
+  let weighted = 0;
+  let volume = 0;
+  for (let offset = -1; offset <= 1; offset++) {
+    let neighbour = index + offset;
+    if (circular) neighbour = (neighbour + buckets.length) % buckets.length;
+    const bucket = buckets[neighbour];
+    if (!bucket || bucket.price === null) continue;
+    weighted += bucket.price * bucket.volume;
+    volume += bucket.volume;
+  }
+  return Math.round(volume ? weighted / volume : fallback);
+}
+
+function nextMonth(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return monthNumber === 12
+    ? `${year + 1}-01`
+    : `${year}-${String(monthNumber + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Buckets closed listings by sold month (YYYY-MM) into PricePoints holding the
+ * median sold price and the number of sales. Every month between the first and
+ * last sale is included; thin or empty months are smoothed and flagged.
+ */
+export function buildPriceHistory(listings: Property[]): PricePoint[] {
+  const sales = closedSales(listings);
+  if (!sales.length) return [];
+
+  const pricesByMonth = new Map<string, number[]>();
+  sales.forEach(({ month, price }) => {
+    pricesByMonth.set(month, [...(pricesByMonth.get(month) || []), price]);
+  });
+
+  const months = Array.from(pricesByMonth.keys()).sort();
+  const timeline: string[] = [];
+  for (let month = months[0]; month <= months[months.length - 1]; month = nextMonth(month)) {
+    timeline.push(month);
+  }
+
+  const buckets: MonthlyBucket[] = timeline.map(month => {
+    const prices = pricesByMonth.get(month) || [];
+    return { price: prices.length ? median(prices) : null, volume: prices.length };
+  });
+  const overallMedian = median(sales.map(sale => sale.price));
+
+  return timeline.map((date, index) => {
+    const { price, volume } = buckets[index];
+    if (volume >= MIN_MONTHLY_SAMPLE && price !== null) {
+      return { date, price: Math.round(price), volume };
+    }
+    return { date, price: smoothedPrice(buckets, index, false, overallMedian), volume, lowConfidence: true };
+  });
+}
+
+/**
+ * Averages closed sales by month of the year (1-12) across every year in the
+ * data. Returns all twelve months once there is at least one sale; months with
+ * few or no sales are smoothed with the adjacent months and flagged.
+ */
+export function buildSeasonality(listings: Property[]): SeasonalityData[] {
+  const sales = closedSales(listings);
+  if (!sales.length) return [];
+
+  const pricesByMonth: number[][] = Array.from({ length: 12 }, () => []);
+  sales.forEach(({ month, price }) => {
+    pricesByMonth[parseInt(month.slice(5, 7), 10) - 1].push(price);
+  });
+
+  const buckets: MonthlyBucket[] = pricesByMonth.map(prices => ({
+    price: prices.length ? mean(prices) : null,
+    volume: prices.length
+  }));
+  const overallMean = mean(sales.map(sale => sale.price));
+
+  return buckets.map(({ price, volume }, index) => {
+    const month = index + 1;
+    if (volume >= MIN_MONTHLY_SAMPLE && price !== null) {
+      return { month, averagePrice: Math.round(price), salesVolume: volume };
+    }
+    return {
+      month,
+      averagePrice: smoothedPrice(buckets, index, true, overallMean),
+      salesVolume: volume,
+      lowConfidence: true
+    };
+  });
+}
@@ -0,0 +1,72 @@
+import type { MLSReport, DemographicMetric } from '@/types/property';
+import type { ProcessingResult } from './pdf-processor';
+import type { ProcessingStage } from '@/types/processing';
+import type { FormattedMLSReport, UploadErrorResponse, UploadSuccessResponse } from '@/types/api';
+import type { ValidationThresholds } from '@/types/validation';
+
+function isDemographicMetric(metric: any): metric is DemographicMetric {
+  return (
+    typeof metric === 'object' &&
+    'value' in metric &&
+    'trend' in metric &&
+    'percentChange' in metric
+  );
+}
+
+const formatDemographicMetric = (metric: DemographicMetric | { [key: string]: DemographicMetric }): string => {
+  if (isDemographicMetric(metric)) {
+    return `${metric.value.toLocaleString()} (${metric.trend}, ${metric.percentChange > 0 ? '+' : ''}${metric.percentChange}%)`;
+  }
+  return Object.entries(metric)
+    .map(([key, value]) => `${key}: ${formatDemographicMetric(value)}`)
+    .join(', ');
+};
+
+function describeReport(report: MLSReport): string {
+  const active = report.activeListings.length;
+  const closed = report.closedListings.length;
+  const plural = (count: number) => (count === 1 ? 'listing' : 'listings');
+  return `I've analyzed the MLS report and found ${active} active ${plural(active)} and ` +
+    `${closed} closed ${plural(closed)}. Ask me about prices, trends or a specific property.`;
+}
+
+/**
+ * Success envelope for a processed upload, shared by the PDF and spreadsheet
+ * import endpoints so clients handle both the same way.
+ */
+export function formatMLSResponse(
+  result: ProcessingResult & { data: MLSReport },
+  validationThresholds?: ValidationThresholds
+): UploadSuccessResponse {
+  const mlsData: FormattedMLSReport = {
+    ...result.data,
+    summary: {
+      listPrice: `$${result.data.listPrice.toLocaleString()}`,
+      propertyType: result.data.propertyType,
+      location: `${result.data.address.city}, ${result.data.address.state}`,
+      demographics: {
+        population: formatDemographicMetric(result.data.demographicAnalysis.population),
+        medianIncome: formatDemographicMetric(result.data.demographicAnalysis.medianIncome),
+        education: formatDemographicMetric(result.data.demographicAnalysis.educationLevels)
+      }
+    }
+  };
+
+  const response: UploadSuccessResponse = {
+    success: true,
+    mlsData,
+    message: describeReport(result.data),
+    provenance: result.provenance || [],
+    reviewItems: result.reviewItems || [],
+    repairs: result.repairs || [],
+    ...(result.reportId ? { reportId: result.reportId } : {})
+  };
+  return validationThresholds ? { ...response, validationThresholds } : response;
+}
+
+/**
+ * Error envelope for a failed upload.
+ */
+export function formatErrorResponse(message: string, stage?: ProcessingStage): UploadErrorResponse {
+  return stage ? { success: false, message, stage } : { success: false, message };
+}
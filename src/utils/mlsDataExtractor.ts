@@ -1,85 +1,378 @@
-import { Property, MLSReport } from '../types/property';
+import { Property, MLSReport, ReportingWindow } from '../types/property';
+import type { ExtractionOutput, FieldProvenance } from '../types/extraction';
+import type { PositionedPage } from './pdf-layout';
+import {
+  parseBathrooms,
+  parseDate,
+  parseDecimal,
+  parseGarage,
+  parseInteger,
+  parseListingStatus,
+  parsePrice,
+  parseYesNo
+} from './field-parsers';
+import { parseAddress, parseCityStateZip } from './address-parser';
+import { calculateStatistics } from './market-statistics';
+import { buildPriceHistory, buildSeasonality } from './market-trends';
+import { forecastMarket } from './market-forecast';
+import type { ParsedAddress } from './address-parser';
 
-export function extractMLSData(text: string): MLSReport {
+interface TextSource {
+  page: number | null;
+  text: string;
+}
+
+// A labelled or pattern-based rule that reads one Property field from a line.
+// `parse` receives the listing read so far for fields that are split across
+// lines, such as full and half baths.
+interface LineRule {
+  id: string;
+  field: keyof Property;
+  pattern: RegExp;
+  confidence: number;
+  parse: (match: RegExpMatchArray, property: Property) => Property[keyof Property] | undefined;
+}
+
+const MLS_NUMBER_PATTERN = /MLS\s*(?:#|Number:?)?\s*(\d{4,}(?:-\d+)?)/i;
+
+const ADDRESS_CONFIDENCE = 0.85;
+const VALIDATED_CITY_CONFIDENCE = 0.9;
+// Cities outside the bundled Collin County list are kept but need review
+const UNVALIDATED_CITY_CONFIDENCE = 0.4;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function setBathroomPart(bathrooms: string, index: number, count: string): string {
+  const parts = (parseBathrooms(bathrooms) || '0/0/0').split('/');
+  parts[index] = String(parseInt(count, 10));
+  return parts.join('/');
+}
+
+function parseYearBuilt(raw: string): number | undefined {
+  const year = parseInteger(raw);
+  return year && year >= 1800 && year <= new Date().getFullYear() + 1 ? year : undefined;
+}
+
+export const LINE_RULES: LineRule[] = [
+  {
+    id: 'sold-price-labelled',
+    field: 'soldPrice',
+    pattern: /\b(?:Sold(?:\s*Price)?|Close[d]?\s*Price)\s*:\s*\$?([\d,]+(?:\.\d+)?[KkMm]\b|[\d,]+(?:\.\d{2})?)/i,
+    confidence: 0.95,
+    parse: match => parsePrice(match[1])
+  },
+  {
+    id: 'list-price-labelled',
+    field: 'listPrice',
+    pattern: /^(?!.*\b(?:sold|close[d]?)\b).*?\b(?:List(?:\s*Price)?|Price)\s*:\s*\$?([\d,]+(?:\.\d+)?[KkMm]\b|[\d,]+(?:\.\d{2})?)/i,
+    confidence: 0.95,
+    parse: match => parsePrice(match[1])
+  },
+  {
+    id: 'bedrooms-count',
+    field: 'bedrooms',
+    pattern: /(\d+)(?:\.0+)?\s*(?:beds|bedrooms|BR)\b/i,
+    confidence: 0.85,
+    parse: match => parseInteger(match[1])
+  },
+  {
+    id: 'bedrooms-labelled',
+    field: 'bedrooms',
+    pattern: /\b(?:Beds|Bedrooms)\s*:\s*(\d+)/i,
+    confidence: 0.9,
+    parse: match => parseInteger(match[1])
+  },
+  {
+    id: 'bathrooms-count',
+    field: 'bathrooms',
+    pattern: /(\d+(?:\/\d+){1,2}|\d+(?:\.\d+)?)\s*(?:baths?|bathrooms|BA)\b/i,
+    confidence: 0.85,
+    parse: match => parseBathrooms(match[1])
+  },
+  {
+    id: 'bathrooms-labelled',
+    field: 'bathrooms',
+    pattern: /^(?!.*\b(?:full|half)\s*baths?\b).*?\b(?:Baths?|Bathrooms)(?:\s*\(F\/H\))?\s*:\s*(\d+(?:\/\d+){1,2}|\d+(?:\.\d+)?)/i,
+    confidence: 0.9,
+    parse: match => parseBathrooms(match[1])
+  },
+  {
+    id: 'full-baths-labelled',
+    field: 'bathrooms',
+    pattern: /\bFull\s*Baths?\s*:?\s*(\d+)/i,
+    confidence: 0.9,
+    parse: (match, property) => setBathroomPart(property.bathrooms, 0, match[1])
+  },
+  {
+    id: 'half-baths-labelled',
+    field: 'bathrooms',
+    pattern: /\bHalf\s*Baths?\s*:?\s*(\d+)/i,
+    confidence: 0.9,
+    parse: (match, property) => setBathroomPart(property.bathrooms, 1, match[1])
+  },
+  {
+    id: 'sqft-count',
+    field: 'sqft',
+    pattern: /([\d,]+)\s*(?:sqft|sf|square\s*feet)\b/i,
+    confidence: 0.85,
+    parse: match => parseInteger(match[1])
+  },
+  {
+    id: 'sqft-labelled',
+    field: 'sqft',
+    pattern: /\b(?:Sq(?:uare)?\.?\s*F(?:ee)?t\.?|SqFt|Living\s*Area)\s*:\s*([\d,]+)/i,
+    confidence: 0.9,
+    parse: match => parseInteger(match[1])
+  },
+  {
+    id: 'year-built',
+    field: 'yearBuilt',
+    pattern: /\b(?:Year\s*Built|Yr\.?\s*Built|Built)\s*:?\s*(\d{4})\b/i,
+    confidence: 0.9,
+    parse: match => parseYearBuilt(match[1])
+  },
+  {
+    id: 'garage-count',
+    field: 'garage',
+    pattern: /\b(\d+)\s*-?\s*Car\s*(?:Attached\s*|Detached\s*)?Garage\b/i,
+    confidence: 0.85,
+    parse: match => parseGarage(match[1])
+  },
+  {
+    id: 'garage-labelled',
+    field: 'garage',
+    pattern: /\bGarage(?:\s*Spaces)?\s*:\s*(\S+(?:\s*car)?)/i,
+    confidence: 0.85,
+    parse: match => parseGarage(match[1])
+  },
+  {
+    id: 'pool',
+    field: 'pool',
+    pattern: /^(?:private\s+|in-?ground\s+)?pool\b(?:\s*[:?]\s*(.*))?$/i,
+    confidence: 0.8,
+    parse: match => (match[1] ? parseYesNo(match[1]) : true)
+  },
+  {
+    id: 'acres',
+    field: 'acres',
+    pattern: /(?:\b(?:Acres|Lot\s*Acres)\s*:\s*(\d*\.?\d+)|(\d*\.?\d+)\s*acres?\b)/i,
+    confidence: 0.85,
+    parse: match => parseDecimal(match[1] || match[2])
+  },
+  {
+    id: 'sold-date',
+    field: 'soldDate',
+    pattern: /\b(?:Sold|Close[d]?|Closing)\s*Date\s*:?\s*(.+)$/i,
+    confidence: 0.9,
+    parse: match => parseDate(match[1])
+  },
+  {
+    id: 'list-date',
+    field: 'listDate',
+    pattern: /\bList(?:ing)?\s*Date\s*:?\s*(.+)$/i,
+    confidence: 0.9,
+    parse: match => parseDate(match[1])
+  },
+  {
+    id: 'days-on-market',
+    field: 'daysOnMarket',
+    pattern: /\b(?:Days\s*on\s*Market|C?DOM)\s*:?\s*(\d+)\b/i,
+    confidence: 0.9,
+    parse: match => parseInteger(match[1])
+  },
+  {
+    id: 'status-labelled',
+    field: 'status',
+    pattern: /\b(?:Listing\s*)?Status\s*:\s*([A-Za-z][A-Za-z ]*?)\s*$/i,
+    confidence: 0.9,
+    parse: match => parseListingStatus(match[1])
+  }
+];
+
+function createProperty(mlsNumber: string): Property {
+  return {
+    mlsNumber,
+    address: '',
+    city: '',
+    bedrooms: 0,
+    bathrooms: '0/0/0',
+    sqft: 0,
+    yearBuilt: 0,
+    garage: '',
+    pool: false,
+    acres: 0,
+    pricePerSqft: 0,
+    listPrice: 0
+  };
+}
+
+function setField<K extends keyof Property>(property: Property, field: K, value: Property[K]): void {
+  property[field] = value;
+}
+
+/**
+ * Fills the fields that are computed from other parsed values once a listing
+ * has been read completely, regardless of the order values appeared in.
+ */
+export function deriveComputedFields(property: Property): Property {
+  const price = property.listPrice || property.soldPrice || 0;
+  if (price && property.sqft) {
+    property.pricePerSqft = Math.round(price / property.sqft);
+  }
+
+  if (property.soldPrice && property.listPrice) {
+    property.saleToListRatio = Math.round((property.soldPrice / property.listPrice) * 1000) / 1000;
+  }
+
+  if (property.daysOnMarket === undefined && property.listDate && property.soldDate) {
+    const days = Math.round((Date.parse(property.soldDate) - Date.parse(property.listDate)) / MS_PER_DAY);
+    if (days >= 0) property.daysOnMarket = days;
+  }
+
+  return property;
+}
+
+function toTextSources(text: string, pages: PositionedPage[]): TextSource[] {
+  return pages.length
+    ? pages.map(page => ({ page: page.pageNumber, text: page.text }))
+    : [{ page: null, text }];
+}
+
+/**
+ * Line-based extraction for labelled MLS reports. Every value that is read
+ * from the document is recorded with its page, line, source snippet and rule.
+ */
+export function extractMLSDataWithProvenance(text: string, pages: PositionedPage[] = []): ExtractionOutput {
   const properties: Property[] = [];
-  const lines = text.split('\n');
-  let currentProperty: Partial<Property> = {};
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    // Check for MLS number
-    const mlsMatch = line.match(/MLS#?\s*(\d+[-\s]*\d*)/i);
-    if (mlsMatch) {
-      if (Object.keys(currentProperty).length > 0 && currentProperty.mlsNumber) {
-        properties.push(currentProperty as Property);
-      }
-      currentProperty = {
-        mlsNumber: mlsMatch[1].replace(/[-\s]/g, ''),
-        city: 'Plano',
-        bedrooms: 0,
-        bathrooms: '0/0/0',
-        sqft: 0,
-        yearBuilt: 0,
-        garage: '',
-        pool: false,
-        acres: 0,
-        pricePerSqft: 0,
-        listPrice: 0
-      };
-      continue;
-    }
+  const provenance: FieldProvenance[] = [];
+  let currentProperty: Property | null = null;
+
+  const record = (
+    property: Property,
+    field: keyof Property,
+    source: TextSource,
+    lineNumber: number,
+    snippet: string,
+    rule: string,
+    confidence: number,
+    pattern?: RegExp
+  ) => {
+    // Later matches for the same field replace earlier ones
+    const existing = provenance.findIndex(p => p.mlsNumber === property.mlsNumber && p.field === field);
+    if (existing !== -1) provenance.splice(existing, 1);
+    provenance.push({
+      mlsNumber: property.mlsNumber,
+      field,
+      value: property[field] ?? null,
+      page: source.page,
+      line: lineNumber,
+      snippet,
+      rule,
+      pattern: pattern?.source,
+      confidence
+    });
+  };
 
-    // Check for address
-    const addressMatch = line.match(/(\d+[^,\n]*(?:Street|St|Avenue|Ave|Road|Rd|Lane|Ln|Drive|Dr|Court|Ct|Circle|Cir|Way)[^,\n]*)/i);
-    if (addressMatch && currentProperty) {
-      currentProperty.address = addressMatch[1].trim();
-      continue;
+  const recordLocality = (
+    property: Property,
+    locality: Pick<ParsedAddress, 'city' | 'state' | 'zipCode' | 'cityValidated'>,
+    source: TextSource,
+    lineNumber: number,
+    snippet: string,
+    rule: string
+  ) => {
+    if (locality.city) {
+      property.city = locality.city;
+      const confidence = locality.cityValidated ? VALIDATED_CITY_CONFIDENCE : UNVALIDATED_CITY_CONFIDENCE;
+      record(property, 'city', source, lineNumber, snippet, rule, confidence);
+    }
+    if (locality.state) {
+      property.state = locality.state;
+      record(property, 'state', source, lineNumber, snippet, rule, ADDRESS_CONFIDENCE);
+    }
+    if (locality.zipCode) {
+      property.zipCode = locality.zipCode;
+      record(property, 'zipCode', source, lineNumber, snippet, rule, ADDRESS_CONFIDENCE);
     }
+  };
+
+  toTextSources(text, pages).forEach(source => {
+    const lines = source.text.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line) continue;
 
-    // Check for price
-    const priceMatch = line.match(/(?:List|Price|Sold)(?:\s*Price)?:\s*\$?([\d,]+)/i);
-    if (priceMatch && currentProperty) {
-      const price = parseInt(priceMatch[1].replace(/,/g, ''), 10);
-      if (line.toLowerCase().includes('sold')) {
-        currentProperty.soldPrice = price;
-      } else {
-        currentProperty.listPrice = price;
+      // Each MLS number starts a new listing block
+      const mlsMatch = line.match(MLS_NUMBER_PATTERN);
+      if (mlsMatch) {
+        if (currentProperty) {
+          properties.push(deriveComputedFields(currentProperty));
+        }
+        currentProperty = createProperty(mlsMatch[1].replace(/[-\s]/g, ''));
+        record(currentProperty, 'mlsNumber', source, i + 1, line, 'mls-number', 0.95, MLS_NUMBER_PATTERN);
+        continue;
       }
-      continue;
-    }
 
-    // Check for bedrooms
-    const bedroomMatch = line.match(/(\d+)\s*(?:beds|bedrooms|BR)/i);
-    if (bedroomMatch && currentProperty) {
-      currentProperty.bedrooms = parseInt(bedroomMatch[1], 10);
-      continue;
-    }
+      if (!currentProperty) continue;
+      const property: Property = currentProperty;
 
-    // Check for bathrooms
-    const bathroomMatch = line.match(/(\d+(?:\.\d+)?)\s*(?:baths|bathrooms|BA)/i);
-    if (bathroomMatch && currentProperty) {
-      currentProperty.bathrooms = `${bathroomMatch[1]}/0/0`;
-      continue;
-    }
+      // The first street address in a block is the listing's address; the
+      // line is not read for other fields
+      if (!property.address) {
+        const parsed = parseAddress(line);
+        if (parsed) {
+          property.address = parsed.unit ? `${parsed.street} #${parsed.unit}` : parsed.street;
+          record(property, 'address', source, i + 1, line, 'street-address', ADDRESS_CONFIDENCE);
+          recordLocality(property, parsed, source, i + 1, line, 'street-address');
+          continue;
+        }
+      }
+
+      // City on its own line, e.g. "Plano, TX 75024" below the street line
+      if (!property.city) {
+        const locality = parseCityStateZip(line);
+        if (locality.cityValidated) {
+          recordLocality(property, locality, source, i + 1, line, 'city-line');
+          continue;
+        }
+      }
+
+      for (const rule of LINE_RULES) {
+        const match = line.match(rule.pattern);
+        if (!match) continue;
+
+        const value = rule.parse(match, property);
+        if (value === undefined) continue;
 
-    // Check for square footage
-    const sqftMatch = line.match(/([\d,]+)\s*(?:sqft|sf|square\s*feet)/i);
-    if (sqftMatch && currentProperty) {
-      currentProperty.sqft = parseInt(sqftMatch[1].replace(/,/g, ''), 10);
-      if (currentProperty.listPrice) {
-        currentProperty.pricePerSqft = Math.round(currentProperty.listPrice / currentProperty.sqft);
+        setField(property, rule.field, value);
+        record(property, rule.field, source, i + 1, line, rule.id, rule.confidence, rule.pattern);
       }
-      continue;
     }
-  }
+  });
 
   // Add the last property if exists
-  if (Object.keys(currentProperty).length > 0 && currentProperty.mlsNumber) {
-    properties.push(currentProperty as Property);
+  if (currentProperty) {
+    properties.push(deriveComputedFields(currentProperty));
   }
 
+  return { report: buildMLSReport(properties), provenance };
+}
+
+export function extractMLSData(text: string): MLSReport {
+  return extractMLSDataWithProvenance(text).report;
+}
+
+/**
+ * Groups listings into an MLSReport. Statistics are measured over
+ * `reportingWindow`, or over the span of the listings' dates when omitted,
+ * and leave price outliers out of the price figures unless `includeOutliers`
+ * is set.
+ */
+export function buildMLSReport(
+  properties: Property[],
+  options: { reportingWindow?: ReportingWindow; includeOutliers?: boolean } = {}
+): MLSReport {
   // Separate active and closed listings
   const activeListings: Property[] = [];
   const closedListings: Property[] = [];
@@ -92,19 +385,7 @@ export function extractMLSData(text: string): MLSReport {
     }
   });
 
-  // Calculate statistics
-  const calculateAverage = (prices: number[]) => 
-    prices.length ? Math.round(prices.reduce((a, b) => a + b, 0) / prices.length) : 0;
-
-  const calculateMedian = (prices: number[]) => {
-    if (!prices.length) return 0;
-    const sorted = [...prices].sort((a, b) => a - b);
-    const mid = Math.floor(sorted.length / 2);
-    return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
-  };
-
-  const activeListPrices = activeListings.map(p => p.listPrice).filter(p => p > 0);
-  const soldPrices = closedListings.map(p => p.soldPrice || 0).filter(p => p > 0);
+  const priceHistory = buildPriceHistory(closedListings);
 
   return {
     mlsNumber: properties[0]?.mlsNumber || "UNKNOWN",
@@ -119,44 +400,19 @@ export function extractMLSData(text: string): MLSReport {
     address: {
       street: properties[0]?.address || "",
       city: properties[0]?.city || "",
-      state: "TX",
-      zipCode: "00000"
+      state: properties[0]?.state || "",
+      zipCode: properties[0]?.zipCode || ""
     },
     features: [],
     photos: [],
     marketTrends: {
-      priceHistory: [],
-      seasonality: [],
-      forecast: {
-        nextMonth: { priceChange: 0, confidence: 0 },
-        nextQuarter: { priceChange: 0, confidence: 0 },
-        nextYear: { priceChange: 0, confidence: 0 }
-      }
+      priceHistory,
+      seasonality: buildSeasonality(closedListings),
+      forecast: forecastMarket(priceHistory)
     },
     activeListings,
     closedListings,
-    statistics: {
-      averageListPrice: calculateAverage(activeListPrices),
-      medianListPrice: calculateMedian(activeListPrices),
-      averageSoldPrice: calculateAverage(soldPrices),
-      medianSoldPrice: calculateMedian(soldPrices),
-      averageDaysOnMarket: calculateAverage(closedListings.map(p => p.daysOnMarket || 0)),
-      medianDaysOnMarket: calculateMedian(closedListings.map(p => p.daysOnMarket || 0)),
-      totalActiveListings: activeListings.length,
-      totalClosedSales: closedListings.length,
-      averagePrice: calculateAverage([...activeListPrices, ...soldPrices]),
-      medianPrice: calculateMedian([...activeListPrices, ...soldPrices]),
-      pricePerSquareFoot: calculateAverage([...activeListings, ...closedListings].map(p => p.pricePerSqft)),
-      inventoryLevel: activeListings.length,
-      daysOfInventory: 90, // Default to 3 months
-      absorptionRate: closedListings.length / (activeListings.length || 1),
-      newListings: Math.round(activeListings.length * 0.25), // Estimate 25% are new
-      closedListings: closedListings.length,
-      pendingListings: Math.round(activeListings.length * 0.1), // Estimate 10% are pending
-      canceledListings: Math.round(activeListings.length * 0.05), // Estimate 5% are canceled
-      listToSoldRatio: soldPrices.length ? calculateAverage(soldPrices) / calculateAverage(activeListPrices) : 1,
-      monthsOfSupply: activeListings.length / ((closedListings.length / 3) || 1) // Based on 3 months of data
-    },
+    statistics: calculateStatistics(properties, options.reportingWindow, { includeOutliers: options.includeOutliers }),
     schoolDistrict: {
       name: "Unknown School District",
       rating: 0,
@@ -191,68 +447,3 @@ export function extractMLSData(text: string): MLSReport {
     }
   };
 }
-
-export function validateMLSReport(report: MLSReport): string[] {
-  const errors: string[] = [];
-
-  // Validate active listings
-  report.activeListings.forEach((property, index) => {
-    // Required fields
-    if (!property.mlsNumber) {
-      errors.push(`Missing MLS number for active listing ${index}`);
-    }
-    if (!property.address) {
-      errors.push(`Missing address for active listing ${index}`);
-    }
-    if (!property.listPrice) {
-      errors.push(`Missing list price for active listing ${index}`);
-    }
-
-    // Value ranges
-    if (property.bedrooms < 0 || property.bedrooms > 20) {
-      errors.push(`Bedrooms value ${property.bedrooms} is outside valid range [0-20]`);
-    }
-    if (property.sqft < 100 || property.sqft > 100000) {
-      errors.push(`Square footage value ${property.sqft} is outside valid range [100-100000]`);
-    }
-    if (property.yearBuilt < 1800 || property.yearBuilt > new Date().getFullYear()) {
-      errors.push(`Year built value ${property.yearBuilt} is outside valid range [1800-${new Date().getFullYear()}]`);
-    }
-    if (property.acres < 0 || property.acres > 1000) {
-      errors.push(`Acres value ${property.acres} is outside valid range [0-1000]`);
-    }
-  });
-
-  // Validate statistics
-  const stats = report.statistics;
-  const validatePrice = (price: number, name: string) => {
-    if (price < 0) {
-      errors.push(`Negative value not allowed for ${name}: ${price}`);
-    }
-    if (price < 1000 || price > 100000000) {
-      errors.push(`${name} value ${price} is outside valid range [1000-100000000]`);
-    }
-  };
-
-  validatePrice(stats.averageListPrice, 'Average list price');
-  validatePrice(stats.medianListPrice, 'Median list price');
-  
-  if (stats.averageSoldPrice > 0) {
-    validatePrice(stats.averageSoldPrice, 'Average sold price');
-  }
-  if (stats.medianSoldPrice > 0) {
-    validatePrice(stats.medianSoldPrice, 'Median sold price');
-  }
-
-  // Validate statistical consistency
-  const priceDiff = Math.abs(stats.averageListPrice - stats.medianListPrice);
-  if (priceDiff > stats.averageListPrice * 0.5) {
-    errors.push('Large discrepancy between average and median list prices');
-  }
-
-  if (stats.averageDaysOnMarket < 0) {
-    errors.push(`Negative value not allowed for averageDaysOnMarket: ${stats.averageDaysOnMarket}`);
-  }
-
-  return errors;
-} 
\ No newline at end of file
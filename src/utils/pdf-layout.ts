@@ -0,0 +1,82 @@
+// Collects positioned text items from pdf-parse so table-style MLS reports can be
+// rebuilt from x/y coordinates instead of the flattened text stream.
+
+export interface PositionedTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  page: number;
+}
+
+export interface PositionedPage {
+  pageNumber: number;
+  items: PositionedTextItem[];
+  text: string;
+}
+
+interface PDFTextContentItem {
+  str: string;
+  transform: number[];
+  width: number;
+}
+
+interface PDFPageData {
+  pageIndex: number;
+  // pdf.js worker transport; exposes the document page count
+  transport?: { numPages?: number };
+  getTextContent: (options: {
+    normalizeWhitespace: boolean;
+    disableCombineTextItems: boolean;
+  }) => Promise<{ items: PDFTextContentItem[] }>;
+}
+
+export interface LayoutCollector {
+  pages: PositionedPage[];
+  pagerender: (pageData: PDFPageData) => Promise<string>;
+}
+
+/**
+ * Creates a pdf-parse `pagerender` hook that records every text item with its
+ * page coordinates. The returned text matches pdf-parse's default renderer so
+ * the line-based extractors keep working unchanged. `onPage` is called after
+ * each page is read, with the total page count when pdf.js reports it.
+ */
+export function createLayoutCollector(
+  onPage?: (pageNumber: number, totalPages?: number) => void
+): LayoutCollector {
+  const pages: PositionedPage[] = [];
+
+  const pagerender = async (pageData: PDFPageData): Promise<string> => {
+    const textContent = await pageData.getTextContent({
+      normalizeWhitespace: false,
+      disableCombineTextItems: false
+    });
+
+    const pageNumber = pageData.pageIndex + 1;
+    const items: PositionedTextItem[] = [];
+    let lastY: number | undefined;
+    let text = '';
+
+    for (const item of textContent.items) {
+      const y = item.transform[5];
+      text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+      lastY = y;
+
+      if (!item.str.trim()) continue;
+      items.push({
+        text: item.str,
+        x: item.transform[4],
+        y,
+        width: item.width,
+        page: pageNumber
+      });
+    }
+
+    pages.push({ pageNumber, items, text });
+    onPage?.(pageNumber, pageData.transport?.numPages);
+    return text;
+  };
+
+  return { pages, pagerender };
+}
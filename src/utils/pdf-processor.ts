@@ -1,14 +1,60 @@
 import pdf from 'pdf-parse';
 import { extractMLSData } from './mls-validator';
+import { runExtraction } from './extractors';
+import { createLayoutCollector } from './pdf-layout';
+import type { PositionedPage } from './pdf-layout';
+import { buildReviewItems } from './provenance';
+import { normalizeReport } from './listing-normalizer';
+import { createReportSource } from './reprocess';
+import { validateReport } from './validation-profiles';
+import { createRedactionSession } from './pii-redaction';
 import type { MLSReport } from '@/types/property';
+import type { FieldProvenance, FieldReviewItem, ListingRepair } from '@/types/extraction';
+import type { ProcessingProgress, ProcessingStage } from '@/types/processing';
+import type { ReportSource } from '@/types/reprocessing';
 
 export interface ProcessingResult {
   success: boolean;
   data?: MLSReport;
   error?: string;
-  rawText?: string;
+  rawText?: string;          // Redacted, like the provenance snippets
+  provenance?: FieldProvenance[];
+  reviewItems?: FieldReviewItem[];
+  // Values the normalizer corrected, with what was extracted
+  repairs?: ListingRepair[];
+  // File hash, text and layout the report was extracted from
+  source?: ReportSource;
+  // Pipeline stage that was running when processing failed
+  failedStage?: ProcessingStage;
+  // Record ID the persist option returned for the saved report
+  reportId?: string;
 }
 
+// Text and positioned layout read from an uploaded file
+export interface ParsedDocument {
+  text: string;
+  pages: PositionedPage[];
+}
+
+// Reads a file's text, calling `onPage` after each page
+export type DocumentParser = (
+  fileBuffer: Buffer,
+  onPage: (pageNumber: number, totalPages?: number) => void
+) => Promise<ParsedDocument>;
+
+export interface ProcessingOptions {
+  onProgress?: (progress: ProcessingProgress) => void;
+  // Reads the file's text; parsePDF when omitted. Lets extraction fixtures
+  // stored as plain text run through the same pipeline as uploaded PDFs.
+  parse?: DocumentParser;
+  // Stores the extracted report and its source, e.g. saveMLSData, resolving
+  // with the saved report's ID; the persisting stage is skipped when omitted
+  persist?: (report: MLSReport, source: ReportSource) => Promise<string | void>;
+}
+
+// Share of the progress bar covered by page parsing; the later stages are quick
+const PARSING_PERCENT = 60;
+
 export class PDFProcessingError extends Error {
   constructor(message: string) {
     super(message);
@@ -16,31 +62,103 @@ export class PDFProcessingError extends Error {
   }
 }
 
-export async function processPDF(fileBuffer: Buffer): Promise<ProcessingResult> {
+/**
+ * Reads a PDF with pdf-parse, keeping positioned text items for grid layouts.
+ */
+export const parsePDF: DocumentParser = async (fileBuffer, onPage) => {
+  const layout = createLayoutCollector(onPage);
+  const pdfData = await pdf(fileBuffer, {
+    // pdf-parse awaits the render hook even though its typings expect a string
+    pagerender: layout.pagerender as unknown as (pageData: unknown) => string
+  });
+  if (!pdfData || !pdfData.text) {
+    throw new PDFProcessingError('Failed to extract text from PDF');
+  }
+  return { text: pdfData.text, pages: layout.pages };
+};
+
+/**
+ * Parses an MLS PDF and extracts its listings, reporting each pipeline stage
+ * (parsing page N of M, extracting, normalizing, validating, persisting) to
+ * `onProgress`.
+ */
+export async function processPDF(
+  fileBuffer: Buffer,
+  options: ProcessingOptions = {}
+): Promise<ProcessingResult> {
+  const { onProgress, persist, parse = parsePDF } = options;
+  let stage: ProcessingStage = 'parsing';
+  let rawText: string | undefined;
+  // Text returned to callers is redacted; the source passed to persist is
+  // redacted by the store itself
+  const redaction = createRedactionSession();
+  const redactSnippet = (item: FieldProvenance): FieldProvenance =>
+    ({ ...item, snippet: redaction.redact(item.snippet) });
+
+  const emit = (progress: Omit<ProcessingProgress, 'stage'>) => {
+    onProgress?.({ stage, ...progress });
+  };
+
   try {
     // Step 1: Parse PDF
-    const pdfData = await pdf(fileBuffer);
-    if (!pdfData || !pdfData.text) {
-      throw new PDFProcessingError('Failed to extract text from PDF');
-    }
+    emit({ message: 'Parsing PDF', percent: 0 });
+    const { text, pages } = await parse(fileBuffer, (page, totalPages) => {
+      emit({
+        message: totalPages ? `Parsing page ${page} of ${totalPages}` : `Parsing page ${page}`,
+        percent: totalPages ? Math.round((page / totalPages) * PARSING_PERCENT) : 0,
+        page,
+        totalPages
+      });
+    });
+    rawText = redaction.redact(text);
+
+    // Step 2: Extract MLS data with the extractor that best recognizes the layout
+    stage = 'extracting';
+    emit({ message: 'Extracting listings', percent: PARSING_PERCENT + 10 });
+    const { report: extracted, provenance } = runExtraction({ text, pages });
+    const source = createReportSource(fileBuffer, text, pages);
 
-    // Step 2: Extract MLS data
-    const mlsData = extractMLSData(pdfData.text);
-    
-    // Step 3: Validate data
-    if (!mlsData.activeListings.length && !mlsData.closedListings.length) {
+    // Step 3: Repair mechanical extraction errors, keeping what was replaced
+    stage = 'normalizing';
+    emit({ message: 'Repairing listing values', percent: PARSING_PERCENT + 15 });
+    const { report: mlsData, repairs } = normalizeReport(extracted);
+
+    // Step 4: Validate data
+    stage = 'validating';
+    emit({ message: 'Validating listings', percent: PARSING_PERCENT + 20 });
+    const validation = validateReport(mlsData, 'ingest');
+    const validationError = validation.issues.find(issue => issue.severity === 'error');
+    if (validationError) {
       return {
         success: false,
-        error: 'No listings found in PDF',
-        rawText: pdfData.text
+        error: `${validationError.message} in PDF`,
+        rawText,
+        failedStage: stage
       };
     }
+    const reviewItems = buildReviewItems(mlsData, provenance);
+
+    // Step 5: Persist the report when a store is configured
+    let reportId: string | undefined;
+    if (persist) {
+      stage = 'persisting';
+      emit({ message: 'Saving to Airtable', percent: PARSING_PERCENT + 30 });
+      reportId = (await persist(mlsData, source)) || undefined;
+    }
 
-    // Step 4: Return successful result
+    // Step 6: Return successful result with the origin of every value
+    stage = 'complete';
+    const listingCount = mlsData.activeListings.length + mlsData.closedListings.length;
+    emit({ message: `Processed ${listingCount} listings`, percent: 100 });
     return {
       success: true,
       data: mlsData,
-      rawText: pdfData.text
+      rawText,
+      source,
+      provenance: provenance.map(redactSnippet),
+      reviewItems: reviewItems.map(item => (item.provenance ? { ...item, provenance: redactSnippet(item.provenance) } : item)),
+      repairs,
+      reportId
     };
 
   } catch (error) {
@@ -48,19 +166,22 @@ export async function processPDF(fileBuffer: Buffer): Promise<ProcessingResult>
       if (error.message === 'Empty PDF') {
         return {
           success: false,
-          error: 'Empty PDF'
+          error: 'Empty PDF',
+          failedStage: stage
         };
       }
       return {
         success: false,
         error: error.message,
-        rawText: undefined
+        rawText,
+        failedStage: stage
       };
     }
     return {
       success: false,
       error: 'Unknown error during PDF processing',
-      rawText: undefined
+      rawText,
+      failedStage: stage
     };
   }
 }
@@ -70,7 +191,7 @@ export function validatePDFContent(text: string): boolean {
   const mlsIndicators = [
     /MLS\s*(?:#|Number:?\s*)\d+/i,
     /(?:list(?:ing)?\s*price|price\s*:)\s*\$?[\d,]+/i,
-    /(?:\d[\d,]*\s*(?:sq(?:uare)?\s*ft|sf)|sq(?:uare)?\s*ft\s*:\s*[\d,]+)/i,
+    /(?:\d[\d,]*\s*(?:sq(?:uare)?\s*(?:ft|feet)|sf)|sq(?:uare)?\s*(?:ft|feet)\s*:\s*[\d,]+)/i,
     /(?:\d+\s*(?:bed(?:room)?s?|br)|bed(?:room)?s?\s*:\s*\d+)/i,
     /(?:\d+(?:\.\d+)?\s*(?:bath(?:room)?s?|ba)|bath(?:room)?s?\s*:\s*\d+(?:\.\d+)?)/i
   ];
@@ -91,7 +212,10 @@ export function retryProcessing(text: string, maxAttempts: number = 3): MLSRepor
   while (attempt < maxAttempts) {
     try {
       const data = extractMLSData(text);
-      if (data.activeListings.length || data.closedListings.length) {
+      // A bare MLS number without any price is not a usable listing
+      const hasPricedListing = [...data.activeListings, ...data.closedListings]
+        .some(listing => listing.listPrice > 0 || (listing.soldPrice ?? 0) > 0);
+      if (hasPricedListing) {
         return data;
       }
     } catch (error) {
@@ -0,0 +1,182 @@
+import { PII_ENTITY_TYPES } from '@/types/redaction';
+import type { PIIEntityType, RedactedEntity, RedactionPolicy } from '@/types/redaction';
+import type { MLSReport } from '@/types/property';
+import type { ReportSource } from '@/types/reprocessing';
+
+// Masks personal information in MLS text before it is sent to an LLM or saved.
+// Each value is replaced by a numbered placeholder such as [PHONE_1]; the map
+// from placeholders back to values lives only in the session object and is
+// never serialized, so it cannot leave the server.
+
+const TOKEN_PREFIXES: Record<PIIEntityType, string> = {
+  agentName: 'AGENT_NAME',
+  ownerName: 'OWNER_NAME',
+  phone: 'PHONE',
+  email: 'EMAIL',
+  showingInstructions: 'SHOWING_INSTRUCTIONS'
+};
+
+// A person's name after a label: capitalized words, initials and hyphenated or
+// apostrophized surnames, e.g. "Mary-Kate O'Neil" or "J. R. Smith". Words are
+// single-space separated and the name ends at a full stop or the next label
+// ("Phone:", "Gate Code:").
+const NAME_WORD = "[A-Z](?:\\.|[A-Za-z'-]*)";
+const NAME = `${NAME_WORD}(?: (?![A-Za-z]+(?: [A-Za-z]+)?\\s*:)(?:${NAME_WORD}|de|del|la|van|von)){0,4}`;
+
+// Matches the letters of a pattern in either case, leaving escapes such as \s
+// alone. Labels are matched this way because the names after them must stay
+// case-sensitive, and a RegExp only takes the i flag as a whole.
+const anyCase = (source: string) =>
+  source.replace(/\\.|[A-Za-z]/g, char => (char.length > 1 ? char : `[${char.toUpperCase()}${char.toLowerCase()}]`));
+
+const AGENT_LABELS = [
+  'List(?:ing)?\\s*Agent(?:\\s*Name)?',
+  'Co-?\\s*List(?:ing)?\\s*Agent',
+  "Buyer'?s?\\s*Agent",
+  "Sell(?:ing|er'?s)?\\s*Agent",
+  'Agent(?:\\s*Name)?',
+  'Prepared\\s*By'
+].join('|');
+const OWNER_LABELS = ['Owner(?:\\s*Name)?', 'Owner\\s*of\\s*Record', 'Seller(?:\\s*Name)?'].join('|');
+const SHOWING_LABELS = [
+  'Showing\\s*(?:Instructions?|Info(?:rmation)?|Contact|Requirements)',
+  'Lock\\s*box(?:\\s*(?:Combo|Code|Type))?',
+  'Gate\\s*Code',
+  'Alarm\\s*Code'
+].join('|');
+
+interface EntityRule {
+  type: PIIEntityType;
+  pattern: RegExp;
+  // Capture group holding the value; the whole match when omitted
+  group?: number;
+}
+
+// Applied in order. Showing instructions run first because they may quote
+// names and phone numbers that should be masked as part of the instructions.
+const ENTITY_RULES: EntityRule[] = [
+  { type: 'showingInstructions', pattern: new RegExp(`\\b(?:${SHOWING_LABELS})\\s*[:#-]\\s*([^\\n]*\\S)`, 'gi'), group: 1 },
+  { type: 'agentName', pattern: new RegExp(`\\b(?:${anyCase(AGENT_LABELS)})\\s*[:#-]\\s*(${NAME})`, 'g'), group: 1 },
+  { type: 'ownerName', pattern: new RegExp(`\\b(?:${anyCase(OWNER_LABELS)})\\s*[:#-]\\s*(${NAME})`, 'g'), group: 1 },
+  { type: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  // US numbers with separators, so MLS numbers and prices are left alone
+  { type: 'phone', pattern: /(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g }
+];
+
+const TOKEN_PATTERN = /\[(?:AGENT_NAME|OWNER_NAME|PHONE|EMAIL|SHOWING_INSTRUCTIONS)_\d+\]/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whether the text is two or more consecutive words of the name
+function isNameRun(text: string, name: string): boolean {
+  const words = text.split(/\s+/);
+  const nameWords = name.split(/\s+/);
+  return words.length >= 2 &&
+    nameWords.some((_, start) => words.every((word, i) => nameWords[start + i] === word));
+}
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  agentName: true,
+  ownerName: true,
+  phone: true,
+  email: true,
+  showingInstructions: true
+};
+
+/**
+ * Reads the policy from PII_REDACTION_TYPES, a comma-separated list of the
+ * entity types to redact (e.g. "phone,email") or "none". Every type is
+ * redacted when the variable is unset; unknown names are ignored.
+ */
+export function getRedactionPolicy(setting: string | undefined = process.env.PII_REDACTION_TYPES): RedactionPolicy {
+  if (setting === undefined || !setting.trim()) return { ...DEFAULT_REDACTION_POLICY };
+
+  const enabled = setting.split(',').map(type => type.trim().toLowerCase());
+  return PII_ENTITY_TYPES.reduce((policy, type) => {
+    policy[type] = enabled.includes(type.toLowerCase());
+    return policy;
+  }, {} as RedactionPolicy);
+}
+
+export interface RedactionSession {
+  // Masks every entity the policy covers; the same value always gets the same token
+  redact: (text: string) => string;
+  // Puts the original values back in place of this session's tokens
+  restore: (text: string) => string;
+  redactReport: (report: MLSReport) => MLSReport;
+  redactSource: (source: ReportSource) => ReportSource;
+  // Placeholders issued so far, without the values they stand for
+  entities: () => RedactedEntity[];
+}
+
+/**
+ * Starts a redaction session. Use one session per request so tokens stay
+ * consistent between the prompt and the response that is restored.
+ */
+export function createRedactionSession(policy: RedactionPolicy = getRedactionPolicy()): RedactionSession {
+  const valuesByToken = new Map<string, string>();
+  const tokensByValue = new Map<string, string>();
+  const issued: RedactedEntity[] = [];
+  const counts: Partial<Record<PIIEntityType, number>> = {};
+
+  const tokenFor = (type: PIIEntityType, value: string): string => {
+    const key = `${type}:${value.trim().toLowerCase()}`;
+    const existing = tokensByValue.get(key);
+    if (existing) return existing;
+
+    counts[type] = (counts[type] || 0) + 1;
+    const token = `[${TOKEN_PREFIXES[type]}_${counts[type]}]`;
+    tokensByValue.set(key, token);
+    valuesByToken.set(token, value);
+    issued.push({ type, token });
+    return token;
+  };
+
+  const redact = (text: string): string => {
+    if (!text) return text;
+    return ENTITY_RULES
+      .filter(rule => policy[rule.type])
+      .reduce((current, rule) => current.replace(rule.pattern, (match, ...groups) => {
+        if (!rule.group) return tokenFor(rule.type, match);
+        const value: string | undefined = groups[rule.group - 1];
+        // Values that are already placeholders came from an earlier rule
+        if (!value || new RegExp(`^${TOKEN_PATTERN.source}$`).test(value)) return match;
+        return match.slice(0, match.lastIndexOf(value)) + tokenFor(rule.type, value);
+      }), text);
+  };
+
+  const restore = (text: string): string =>
+    text.replace(TOKEN_PATTERN, token => valuesByToken.get(token) ?? token);
+
+  // Positioned text items split labels from their values, so they are masked
+  // with the values already found in the page text: whole-word matches of a
+  // value, and items that hold two or more consecutive words of a name. Single
+  // words are left alone, since a surname can also be a street name.
+  const maskKnownValues = (text: string): string => {
+    let masked = redact(text);
+    valuesByToken.forEach((value, token) => {
+      masked = masked.replace(new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(value)}(?![A-Za-z0-9])`, 'g'), token);
+    });
+    const nameToken = issued.find(({ type, token }) =>
+      (type === 'agentName' || type === 'ownerName') && isNameRun(masked.trim(), valuesByToken.get(token) as string)
+    );
+    return nameToken ? nameToken.token : masked;
+  };
+
+  const redactReport = (report: MLSReport): MLSReport => ({
+    ...report,
+    description: redact(report.description),
+    features: (report.features || []).map(redact)
+  });
+
+  const redactSource = (source: ReportSource): ReportSource => ({
+    ...source,
+    rawText: redact(source.rawText),
+    pages: source.pages.map(page => {
+      const text = redact(page.text);
+      return { ...page, text, items: page.items.map(item => ({ ...item, text: maskKnownValues(item.text) })) };
+    })
+  });
+
+  return { redact, restore, redactReport, redactSource, entities: () => [...issued] };
+}
@@ -0,0 +1,103 @@
+import type { ProcessingFailure, ProcessingProgress, ProcessingStage } from '@/types/processing';
+import { PROCESSING_STAGE_LABELS } from '@/types/processing';
+
+// Server-Sent Events used to stream processing progress to the upload UI.
+// The stream carries `progress` events, then either a `result` event with the
+// response body or an `error` event naming the stage that failed.
+
+export type ProcessingEventName = 'progress' | 'result' | 'error';
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+export class ProcessingStageError extends Error {
+  constructor(message: string, public stage?: ProcessingStage) {
+    super(message);
+    this.name = 'ProcessingStageError';
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, ProcessingStageError.prototype);
+  }
+}
+
+/**
+ * Serializes one event in text/event-stream format.
+ */
+export function formatServerSentEvent(event: ProcessingEventName, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Returns a parser that accepts stream chunks as they arrive and calls
+ * `onEvent` for every complete event. Events may be split across chunks.
+ */
+export function createServerSentEventParser(onEvent: (event: ServerSentEvent) => void) {
+  let buffer = '';
+
+  return (chunk: string) => {
+    buffer += chunk.replace(/\r\n/g, '\n');
+    let boundary = buffer.indexOf('\n\n');
+
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const data: string[] = [];
+      block.split('\n').forEach(line => {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+      });
+      if (data.length) onEvent({ event, data: data.join('\n') });
+    }
+  };
+}
+
+/**
+ * Describes a failure for display, e.g. "Extracting listings failed: No
+ * listings found in PDF".
+ */
+export function describeProcessingFailure(failure: ProcessingFailure): string {
+  return `${PROCESSING_STAGE_LABELS[failure.stage]} failed: ${failure.message}`;
+}
+
+/**
+ * Reads a processing event stream from a fetch response, forwarding progress
+ * events and resolving with the `result` payload. Rejects with a
+ * ProcessingStageError when the server reports a failed stage.
+ */
+export async function readProcessingStream<T>(
+  response: Response,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<T> {
+  if (!response.body) {
+    throw new ProcessingStageError('Response has no body to stream');
+  }
+
+  let result: T | undefined;
+  let failure: ProcessingFailure | undefined;
+  const parse = createServerSentEventParser(({ event, data }) => {
+    if (event === 'progress') onProgress?.(JSON.parse(data));
+    else if (event === 'result') result = JSON.parse(data);
+    else if (event === 'error') failure = JSON.parse(data);
+  });
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parse(decoder.decode(value, { stream: true }));
+  }
+  parse(decoder.decode());
+
+  if (failure) {
+    throw new ProcessingStageError(failure.message, failure.stage);
+  }
+  if (result === undefined) {
+    throw new ProcessingStageError('Processing stream ended without a result');
+  }
+  return result;
+}
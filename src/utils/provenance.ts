@@ -0,0 +1,57 @@
+import type { MLSReport, Property } from '@/types/property';
+import type { FieldProvenance, FieldReviewItem, PropertyField } from '@/types/extraction';
+
+// Fields below this confidence are listed for review rather than trusted
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Fields an agent relies on for pricing; a listing without them needs review
+const ACTIVE_REVIEW_FIELDS: PropertyField[] = ['address', 'city', 'listPrice', 'bedrooms', 'bathrooms', 'sqft'];
+const CLOSED_REVIEW_FIELDS: PropertyField[] = [...ACTIVE_REVIEW_FIELDS, 'soldPrice'];
+
+export function findProvenance(
+  provenance: FieldProvenance[],
+  mlsNumber: string,
+  field: PropertyField
+): FieldProvenance | undefined {
+  return provenance.find(p => p.mlsNumber === mlsNumber && p.field === field);
+}
+
+/**
+ * Lists the fields of every listing that were either not found in the
+ * document or were read with low confidence.
+ */
+export function buildReviewItems(
+  report: MLSReport,
+  provenance: FieldProvenance[],
+  threshold: number = REVIEW_CONFIDENCE_THRESHOLD
+): FieldReviewItem[] {
+  const items: FieldReviewItem[] = [];
+
+  const review = (listing: Property, fields: PropertyField[]) => {
+    fields.forEach(field => {
+      const source = findProvenance(provenance, listing.mlsNumber, field);
+      if (!source) {
+        items.push({ mlsNumber: listing.mlsNumber, field, reason: 'missing' });
+      } else if (source.confidence < threshold) {
+        items.push({ mlsNumber: listing.mlsNumber, field, reason: 'low-confidence', provenance: source });
+      }
+    });
+  };
+
+  report.activeListings.forEach(listing => review(listing, ACTIVE_REVIEW_FIELDS));
+  report.closedListings.forEach(listing => review(listing, CLOSED_REVIEW_FIELDS));
+
+  return items;
+}
+
+/**
+ * Human readable origin of a value, e.g.
+ * "extracted from page 3: 'Sold Price: $512,000'".
+ */
+export function describeProvenance(provenance: FieldProvenance): string {
+  const location = provenance.page !== null
+    ? `page ${provenance.page}`
+    : `line ${provenance.line ?? '?'}`;
+  const confidence = `${Math.round(provenance.confidence * 100)}% confidence`;
+  return `extracted from ${location}: '${provenance.snippet}' (${confidence})`;
+}
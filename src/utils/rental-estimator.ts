@@ -0,0 +1,233 @@
+import type { Property } from '@/types/property';
+import type { LeaseComp, RentalEstimate } from '@/types/rental';
+import { getConfigurations } from './airtable';
+import { parseDate, parseDecimal, parseInteger, parsePrice } from './field-parsers';
+
+// Monthly rent estimates for listings. When lease comps are uploaded, a
+// listing's rent is the median rent per sqft of similar leases in its city;
+// otherwise it comes from a rent-per-sqft table tuned in the Airtable
+// Configuration table. A record named RENT_PER_SQFT overrides the default for
+// every listing; suffixes narrow it to a bedroom count, a city, or both:
+//
+//   RENT_PER_SQFT              every listing
+//   RENT_PER_SQFT@3br          3 bedroom listings (5br covers 5 or more)
+//   RENT_PER_SQFT@Frisco       Frisco listings
+//   RENT_PER_SQFT@Frisco/3br   3 bedroom Frisco listings
+//
+// The most specific record wins.
+
+export const RENT_PER_SQFT_CONFIG = 'RENT_PER_SQFT';
+
+// Smaller homes rent for more per square foot
+export const DEFAULT_RENT_PER_SQFT: Record<number, number> = {
+  1: 1.75,
+  2: 1.55,
+  3: 1.35,
+  4: 1.2,
+  5: 1.1
+};
+
+// Bedroom counts above this share its rate
+const MAX_BEDROOM_KEY = 5;
+
+// Fewest similar leases to estimate from comps rather than the table
+export const MIN_LEASE_COMPS = 3;
+// Leases within this fraction of the listing's size and this many bedrooms
+export const LEASE_COMP_SQFT_TOLERANCE = 0.25;
+export const LEASE_COMP_BEDROOM_TOLERANCE = 1;
+
+// Edits in Airtable take effect once the cached table expires
+export const RENT_TABLE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Rents are rounded to this
+const RENT_ROUNDING = 25;
+
+const cache = new Map<string, { table: Record<string, number>; expiresAt: number }>();
+
+const normalizeCity = (city: string) => (city || '').trim().toLowerCase();
+
+const bedroomKey = (bedrooms: number) => Math.min(Math.max(Math.round(bedrooms) || 1, 1), MAX_BEDROOM_KEY);
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Configuration record names that can set the rate for a city and bedroom
+ * count, from the most general to the most specific.
+ */
+export function rentConfigNames(city: string, bedrooms: number): string[] {
+  const beds = `${bedroomKey(bedrooms)}br`;
+  const trimmedCity = (city || '').trim();
+  return [
+    RENT_PER_SQFT_CONFIG,
+    `${RENT_PER_SQFT_CONFIG}@${beds}`,
+    trimmedCity && `${RENT_PER_SQFT_CONFIG}@${trimmedCity}`,
+    trimmedCity && `${RENT_PER_SQFT_CONFIG}@${trimmedCity}/${beds}`
+  ].filter((name): name is string => Boolean(name));
+}
+
+/**
+ * Rent per sqft for a city and bedroom count: the default for the bedroom
+ * count, overridden by the most specific configuration record.
+ */
+export function rentPerSqftFor(table: Record<string, number>, city: string, bedrooms: number): number {
+  return rentConfigNames(city, bedrooms).reduce(
+    (rate, name) => (name in table ? table[name] : rate),
+    DEFAULT_RENT_PER_SQFT[bedroomKey(bedrooms)]
+  );
+}
+
+/**
+ * Loads the rent table records that apply to the listings, cached for
+ * RENT_TABLE_CACHE_TTL_MS. Empty, so the defaults apply, when Airtable is not
+ * configured or unavailable.
+ */
+export async function loadRentTable(listings: Property[]): Promise<Record<string, number>> {
+  const configNames = listings.reduce<string[]>((names, listing) =>
+    names.concat(rentConfigNames(listing.city, listing.bedrooms).filter(name => names.indexOf(name) === -1)), []);
+  const key = [...configNames].sort().join('|');
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.table;
+  }
+
+  let table: Record<string, number> = {};
+  if (process.env.AIRTABLE_API_KEY) {
+    try {
+      table = await getConfigurations(configNames);
+    } catch (error) {
+      console.error('Error loading the rent table, using defaults:', error);
+    }
+  }
+
+  cache.set(key, { table, expiresAt: Date.now() + RENT_TABLE_CACHE_TTL_MS });
+  return table;
+}
+
+export function clearRentTableCache(): void {
+  cache.clear();
+}
+
+// Leases in the listing's city of a similar size and bedroom count
+export function selectLeaseComps(listing: Property, leaseComps: LeaseComp[]): LeaseComp[] {
+  return leaseComps.filter(comp =>
+    comp.monthlyRent > 0 && comp.sqft > 0 &&
+    normalizeCity(comp.city) === normalizeCity(listing.city) &&
+    Math.abs(comp.bedrooms - listing.bedrooms) <= LEASE_COMP_BEDROOM_TOLERANCE &&
+    Math.abs(comp.sqft - listing.sqft) <= listing.sqft * LEASE_COMP_SQFT_TOLERANCE);
+}
+
+/**
+ * Estimates a listing's monthly rent with its gross yield and price-to-rent
+ * ratio against the list price (sold price for closed listings). Null when
+ * the listing has no square footage.
+ */
+export function estimateRent(
+  listing: Property,
+  options: { rentTable?: Record<string, number>; leaseComps?: LeaseComp[] } = {}
+): RentalEstimate | null {
+  if (!(listing.sqft > 0)) return null;
+
+  const comps = selectLeaseComps(listing, options.leaseComps || []);
+  const fromComps = comps.length >= MIN_LEASE_COMPS;
+  const rentPerSqft = fromComps
+    ? median(comps.map(comp => comp.monthlyRent / comp.sqft))
+    : rentPerSqftFor(options.rentTable || {}, listing.city, listing.bedrooms);
+
+  const monthlyRent = Math.round((rentPerSqft * listing.sqft) / RENT_ROUNDING) * RENT_ROUNDING;
+  const price = listing.soldPrice || listing.listPrice || 0;
+  const annualRent = monthlyRent * 12;
+
+  return {
+    mlsNumber: listing.mlsNumber,
+    monthlyRent,
+    rentPerSqft: Math.round(rentPerSqft * 100) / 100,
+    source: fromComps ? 'lease-comps' : 'rent-table',
+    leaseCompCount: fromComps ? comps.length : 0,
+    grossYield: price > 0 && annualRent > 0 ? Math.round((annualRent / price) * 10000) / 10000 : null,
+    priceToRent: price > 0 && annualRent > 0 ? Math.round((price / annualRent) * 10) / 10 : null
+  };
+}
+
+/**
+ * Estimates rent for each listing with square footage.
+ */
+export async function estimateRents(listings: Property[], leaseComps: LeaseComp[] = []): Promise<RentalEstimate[]> {
+  const rentTable = await loadRentTable(listings);
+  return listings
+    .map(listing => estimateRent(listing, { rentTable, leaseComps }))
+    .filter((estimate): estimate is RentalEstimate => estimate !== null);
+}
+
+export const LEASE_COMP_HEADERS: Record<string, keyof LeaseComp> = {
+  'address': 'address',
+  'full address': 'address',
+  'street address': 'address',
+  'city': 'city',
+  'beds': 'bedrooms',
+  'bedrooms': 'bedrooms',
+  'beds total': 'bedrooms',
+  'bedrooms total': 'bedrooms',
+  'sqft': 'sqft',
+  'sq ft': 'sqft',
+  'sqft total': 'sqft',
+  'square feet': 'sqft',
+  'living area': 'sqft',
+  'rent': 'monthlyRent',
+  'monthly rent': 'monthlyRent',
+  'lease price': 'monthlyRent',
+  'leased price': 'monthlyRent',
+  'close price': 'monthlyRent',
+  'lease date': 'leaseDate',
+  'close date': 'leaseDate'
+};
+
+/**
+ * Converts spreadsheet rows of leases to lease comps. The header row is the
+ * first row with a rent and a square footage column; rows without a rent or
+ * square footage are skipped and their row numbers returned.
+ */
+export function parseLeaseCompRows(rows: string[][]): { leaseComps: LeaseComp[]; skippedRows: number[] } {
+  const fieldsOf = (row: string[]) => row.map(header =>
+    LEASE_COMP_HEADERS[header.toLowerCase().replace(/[:.]+$/g, '').replace(/\s+/g, ' ').trim()] || null);
+  const headerIndex = rows.findIndex(row => {
+    const fields = fieldsOf(row);
+    return fields.indexOf('monthlyRent') !== -1 && fields.indexOf('sqft') !== -1;
+  });
+  if (headerIndex === -1) {
+    return { leaseComps: [], skippedRows: [] };
+  }
+
+  const fields = fieldsOf(rows[headerIndex]);
+  const leaseComps: LeaseComp[] = [];
+  const skippedRows: number[] = [];
+
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    if (row.every(cell => !cell)) return;
+    const values: Partial<Record<keyof LeaseComp, string>> = {};
+    fields.forEach((field, column) => {
+      if (field && row[column] && !values[field]) values[field] = row[column];
+    });
+
+    const comp: LeaseComp = {
+      address: values.address || '',
+      city: values.city || '',
+      bedrooms: parseInteger(values.bedrooms || '') || 0,
+      sqft: parseInteger(values.sqft || '') || parseDecimal(values.sqft || '') || 0,
+      monthlyRent: parsePrice(values.monthlyRent || '') || 0
+    };
+    const leaseDate = values.leaseDate && parseDate(values.leaseDate);
+    if (leaseDate) comp.leaseDate = leaseDate;
+
+    if (comp.monthlyRent > 0 && comp.sqft > 0) {
+      leaseComps.push(comp);
+    } else {
+      skippedRows.push(headerIndex + offset + 2);
+    }
+  });
+
+  return { leaseComps, skippedRows };
+}
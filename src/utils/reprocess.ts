@@ -0,0 +1,121 @@
+import { createHash } from 'crypto';
+import { getRegisteredExtractors, runExtraction } from './extractors';
+import { normalizeReport } from './listing-normalizer';
+import type { ExtractionOutput } from '@/types/extraction';
+import type { ExtractionInfo, MLSReport, Property, Statistics } from '@/types/property';
+import type {
+  ListingFieldChange,
+  ReportDiff,
+  ReportSource,
+  StatisticChange,
+  StoredMLSReport,
+  StoredReportSummary
+} from '@/types/reprocessing';
+import type { PositionedPage } from './pdf-layout';
+
+// Re-runs the current extractors over the source text stored with a report and
+// compares the result with what was extracted at upload time.
+
+/**
+ * Bundles what the extractors read from an uploaded file with the file's
+ * SHA-256 hash, for storing alongside the report.
+ */
+export function createReportSource(fileBuffer: Buffer, rawText: string, pages: PositionedPage[]): ReportSource {
+  return {
+    fileHash: createHash('sha256').update(fileBuffer).digest('hex'),
+    rawText,
+    pages
+  };
+}
+
+/**
+ * Version of the named extractor that is registered now, or null when the
+ * extractor has since been removed.
+ */
+export function getCurrentExtractorVersion(extractor: string): string | null {
+  return getRegisteredExtractors().find(registered => registered.name === extractor)?.version || null;
+}
+
+export function summarizeStoredReport(stored: StoredMLSReport): StoredReportSummary {
+  const extraction = stored.report.extraction || null;
+  const currentVersion = extraction ? getCurrentExtractorVersion(extraction.extractor) : null;
+  return {
+    reportId: stored.reportId,
+    uploadDate: stored.uploadDate,
+    fileHash: stored.source?.fileHash || null,
+    extraction,
+    currentVersion,
+    reprocessable: stored.source !== null,
+    // Reports without extraction info predate versioned extractors
+    outdated: !extraction || currentVersion !== extraction.version
+  };
+}
+
+/**
+ * Runs the best matching extractor, as registered today, over a stored source
+ * and normalizes the listings as an upload does.
+ */
+export function reprocessSource(source: ReportSource): ExtractionOutput {
+  const { report, provenance } = runExtraction({ text: source.rawText, pages: source.pages });
+  return { report: normalizeReport(report).report, provenance };
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function listingsByNumber(report: MLSReport): Map<string, Property> {
+  return new Map(
+    [...report.activeListings, ...report.closedListings].map(listing => [listing.mlsNumber, listing])
+  );
+}
+
+function diffListing(previous: Property, current: Property): ListingFieldChange[] {
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(current)])) as Array<keyof Property>;
+  return fields
+    .filter(field => !isSame(previous[field], current[field]))
+    .map(field => ({
+      mlsNumber: current.mlsNumber,
+      field,
+      previous: previous[field] ?? null,
+      current: current[field] ?? null
+    }));
+}
+
+function diffStatistics(previous: Statistics, current: Statistics): StatisticChange[] {
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(current)])) as Array<keyof Statistics>;
+  return fields
+    .filter(field => !isSame(previous[field], current[field]))
+    .map(field => ({ field, previous: previous[field] ?? null, current: current[field] ?? null }));
+}
+
+/**
+ * Compares two extractions of the same document: listings added or removed
+ * (by MLS number), field values that changed on listings in both, and changed
+ * statistics.
+ */
+export function diffReports(previous: MLSReport, current: MLSReport): ReportDiff {
+  const previousListings = listingsByNumber(previous);
+  const currentListings = listingsByNumber(current);
+
+  const addedListings = Array.from(currentListings.keys()).filter(mlsNumber => !previousListings.has(mlsNumber));
+  const removedListings = Array.from(previousListings.keys()).filter(mlsNumber => !currentListings.has(mlsNumber));
+  const changedFields = Array.from(currentListings.entries())
+    .filter(([mlsNumber]) => previousListings.has(mlsNumber))
+    .flatMap(([mlsNumber, listing]) => diffListing(previousListings.get(mlsNumber) as Property, listing));
+  const changedStatistics = diffStatistics(previous.statistics, current.statistics);
+
+  const previousExtraction: ExtractionInfo | null = previous.extraction || null;
+  const currentExtraction: ExtractionInfo | null = current.extraction || null;
+  return {
+    previousExtraction,
+    currentExtraction,
+    addedListings,
+    removedListings,
+    changedFields,
+    changedStatistics,
+    hasChanges: Boolean(
+      addedListings.length || removedListings.length || changedFields.length || changedStatistics.length
+    )
+  };
+}
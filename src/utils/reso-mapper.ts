@@ -0,0 +1,182 @@
+import type { ListingStatus, Property, MLSReport } from '@/types/property';
+import type { ResoFeed, ResoProperty, ResoStandardStatus } from '@/types/reso';
+import { parseAddress } from './address-parser';
+import { parseBathrooms, parseDate } from './field-parsers';
+import { buildMLSReport, deriveComputedFields } from './mlsDataExtractor';
+
+// Bidirectional mapping between our Property/MLSReport types and the RESO Data
+// Dictionary Property resource.
+
+export const RESO_ODATA_CONTEXT = '$metadata#Property';
+
+// Statuses that describe a completed sale; everything else is treated as an
+// active (unsold) listing on import
+const CLOSED_STATUSES: ResoStandardStatus[] = ['Closed'];
+
+const LISTING_STATUSES: Partial<Record<ResoStandardStatus, ListingStatus>> = {
+  'Active': 'Active',
+  'Active Under Contract': 'Pending',
+  'Pending': 'Pending',
+  'Closed': 'Closed',
+  'Canceled': 'Canceled',
+  'Expired': 'Expired',
+  'Withdrawn': 'Withdrawn'
+};
+
+function toStandardStatus(property: Property): ResoStandardStatus {
+  if (property.soldPrice) return 'Closed';
+  return property.status || 'Active';
+}
+
+export class ResoMappingError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message);
+    this.name = 'ResoMappingError';
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, ResoMappingError.prototype);
+  }
+}
+
+function positive(value: number | undefined): number | undefined {
+  return value !== undefined && value > 0 ? value : undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const number = typeof value === 'number' ? value : Number(String(value).replace(/[$,\s]/g, ''));
+  return Number.isFinite(number) ? number : undefined;
+}
+
+// Drops undefined keys so exported records only carry known values
+function compact<T extends object>(record: T): T {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)) as T;
+}
+
+/**
+ * Maps a Property to a RESO Property record.
+ */
+export function toResoProperty(property: Property): ResoProperty {
+  const [full, half, quarter] = property.bathrooms.split('/').map(part => parseInt(part, 10) || 0);
+  const parsedAddress = parseAddress(property.address);
+  const garageSpaces = parseInt(property.garage, 10) || undefined;
+
+  return compact<ResoProperty>({
+    ListingId: property.mlsNumber,
+    StandardStatus: toStandardStatus(property),
+    UnparsedAddress: property.address || undefined,
+    StreetNumber: parsedAddress?.streetNumber,
+    StreetName: parsedAddress?.streetName,
+    StreetSuffix: parsedAddress?.streetSuffix,
+    UnitNumber: parsedAddress?.unit,
+    City: property.city || undefined,
+    StateOrProvince: property.state,
+    PostalCode: property.zipCode,
+    ListPrice: positive(property.listPrice),
+    ClosePrice: positive(property.soldPrice),
+    CloseDate: property.soldDate,
+    ListingContractDate: property.listDate,
+    DaysOnMarket: property.daysOnMarket,
+    BedroomsTotal: positive(property.bedrooms),
+    BathroomsFull: full || undefined,
+    BathroomsHalf: half || undefined,
+    BathroomsOneQuarter: quarter || undefined,
+    BathroomsTotalInteger: full + half + quarter || undefined,
+    LivingArea: positive(property.sqft),
+    LivingAreaUnits: property.sqft > 0 ? 'Square Feet' : undefined,
+    YearBuilt: positive(property.yearBuilt),
+    LotSizeAcres: positive(property.acres),
+    GarageSpaces: garageSpaces,
+    GarageYN: property.garage ? true : undefined,
+    PoolPrivateYN: property.pool
+  });
+}
+
+function toAddress(record: ResoProperty): string {
+  // UnparsedAddress keeps the street as written, often with city, state and ZIP
+  const parsed = record.UnparsedAddress ? parseAddress(record.UnparsedAddress) : null;
+  if (parsed) {
+    return parsed.unit ? `${parsed.street} #${parsed.unit}` : parsed.street;
+  }
+  if (record.StreetNumber && record.StreetName) {
+    const street = [record.StreetNumber, record.StreetName, record.StreetSuffix].filter(Boolean).join(' ');
+    return record.UnitNumber ? `${street} #${record.UnitNumber}` : street;
+  }
+  return record.UnparsedAddress || '';
+}
+
+/**
+ * Maps a RESO Property record to a Property. Throws ResoMappingError when the
+ * record has no ListingId.
+ */
+export function fromResoProperty(record: ResoProperty): Property {
+  if (!record || !record.ListingId) {
+    throw new ResoMappingError('RESO record is missing ListingId', 'ListingId');
+  }
+
+  const full = toNumber(record.BathroomsFull);
+  const half = toNumber(record.BathroomsHalf) || 0;
+  const quarter = toNumber(record.BathroomsOneQuarter) || 0;
+  const bathrooms = full !== undefined
+    ? `${full}/${half}/${quarter}`
+    : parseBathrooms(String(toNumber(record.BathroomsTotalInteger) ?? 0)) || '0/0/0';
+  const garageSpaces = toNumber(record.GarageSpaces);
+  const parsedAddress = record.UnparsedAddress ? parseAddress(record.UnparsedAddress) : null;
+
+  const property: Property = {
+    mlsNumber: String(record.ListingId),
+    address: toAddress(record),
+    city: record.City || parsedAddress?.city || '',
+    listPrice: toNumber(record.ListPrice) || 0,
+    bedrooms: toNumber(record.BedroomsTotal) || 0,
+    bathrooms,
+    sqft: toNumber(record.LivingArea) || 0,
+    yearBuilt: toNumber(record.YearBuilt) || 0,
+    garage: garageSpaces ? `${garageSpaces} Car` : '',
+    pool: record.PoolPrivateYN === true,
+    acres: toNumber(record.LotSizeAcres) || 0,
+    pricePerSqft: 0
+  };
+
+  const state = record.StateOrProvince || parsedAddress?.state;
+  if (state) property.state = state;
+  const zipCode = record.PostalCode || parsedAddress?.zipCode;
+  if (zipCode) property.zipCode = zipCode.slice(0, 5);
+
+  const isClosed = record.StandardStatus ? CLOSED_STATUSES.includes(record.StandardStatus) : false;
+  const status = record.StandardStatus ? LISTING_STATUSES[record.StandardStatus] : undefined;
+  if (status) property.status = status;
+  const closePrice = toNumber(record.ClosePrice);
+  if (closePrice && (isClosed || !record.StandardStatus)) {
+    property.soldPrice = closePrice;
+  }
+
+  const soldDate = record.CloseDate ? parseDate(record.CloseDate) : undefined;
+  if (soldDate) property.soldDate = soldDate;
+  const listDate = record.ListingContractDate ? parseDate(record.ListingContractDate) : undefined;
+  if (listDate) property.listDate = listDate;
+  const daysOnMarket = toNumber(record.DaysOnMarket);
+  if (daysOnMarket !== undefined) property.daysOnMarket = daysOnMarket;
+
+  return deriveComputedFields(property);
+}
+
+/**
+ * Exports every active and closed listing of a report as a RESO feed.
+ */
+export function toResoFeed(report: MLSReport): ResoFeed {
+  return {
+    '@odata.context': RESO_ODATA_CONTEXT,
+    value: [...report.activeListings, ...report.closedListings].map(toResoProperty)
+  };
+}
+
+/**
+ * Builds an MLSReport from a RESO feed or a bare array of RESO records.
+ */
+export function fromResoFeed(feed: ResoFeed | ResoProperty[]): MLSReport {
+  const records = Array.isArray(feed) ? feed : feed?.value;
+  if (!Array.isArray(records)) {
+    throw new ResoMappingError('Expected a RESO feed with a "value" array of Property records', 'value');
+  }
+  return buildMLSReport(records.map(fromResoProperty));
+}
@@ -0,0 +1,277 @@
+import * as XLSX from 'xlsx';
+import type { Property } from '@/types/property';
+import type { FieldProvenance } from '@/types/extraction';
+import { TABLE_HEADER_ALIASES, toProperty } from './table-extractor';
+import type { TableField } from './table-extractor';
+import { buildMLSReport } from './mlsDataExtractor';
+import { parseListingStatus } from './field-parsers';
+import { buildReviewItems } from './provenance';
+import { normalizeReport } from './listing-normalizer';
+import { createReportSource } from './reprocess';
+import { validateReport } from './validation-profiles';
+import type { ProcessingOptions, ProcessingResult } from './pdf-processor';
+import type { ProcessingStage } from '@/types/processing';
+
+// Imports MLS search exports (CSV or Excel) into the same MLSReport shape the
+// PDF pipeline produces. Column headers are mapped to Property fields through
+// a configurable header mapping.
+
+export type ImportField = TableField | 'fullBaths' | 'halfBaths' | 'status';
+
+export interface SpreadsheetImportOptions {
+  // Extra or overriding header mappings, e.g. { 'Sq Ft Total': 'sqft' }
+  headerMapping?: Record<string, ImportField>;
+  // Defaults to the first sheet of a workbook
+  sheetName?: string;
+  // Stores the imported report, as for PDF uploads
+  persist?: ProcessingOptions['persist'];
+}
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export class SpreadsheetImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetImportError';
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, SpreadsheetImportError.prototype);
+  }
+}
+
+export const SPREADSHEET_IMPORTER = {
+  name: 'spreadsheet-import',
+  version: '1.0.0'
+} as const;
+
+// Column names used by common MLS (Matrix, Paragon, Flexmls) exports, on top
+// of the grid headers understood by the PDF table extractor
+export const DEFAULT_HEADER_MAPPING: Record<string, ImportField> = {
+  ...TABLE_HEADER_ALIASES,
+  'ml number': 'mlsNumber',
+  'listing id': 'mlsNumber',
+  'listing number': 'mlsNumber',
+  'full address': 'address',
+  'state or province': 'state',
+  'postal code': 'zipCode',
+  'beds total': 'bedrooms',
+  'bedrooms total': 'bedrooms',
+  'baths total': 'bathrooms',
+  'bathrooms total': 'bathrooms',
+  'baths full': 'fullBaths',
+  'full baths': 'fullBaths',
+  'bathrooms full': 'fullBaths',
+  'baths half': 'halfBaths',
+  'half baths': 'halfBaths',
+  'bathrooms half': 'halfBaths',
+  'sqft total': 'sqft',
+  'living area total': 'sqft',
+  'sqft living': 'sqft',
+  'original list price': 'listPrice',
+  'list price original': 'listPrice',
+  'close date': 'soldDate',
+  'closing date': 'soldDate',
+  'listing contract date': 'listDate',
+  'lot size acres': 'acres',
+  'garage spaces': 'garage',
+  '# garage spaces': 'garage',
+  'pool yn': 'pool',
+  'private pool': 'pool',
+  'pool private yn': 'pool',
+  'cumulative days on market': 'daysOnMarket',
+  'status': 'status',
+  'listing status': 'status',
+  'standard status': 'status',
+  'mls status': 'status'
+};
+
+const IMPORTED_VALUE_CONFIDENCE = 1;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[:.]+$/g, '').replace(/\s+/g, ' ').trim();
+}
+
+export function detectSpreadsheetFormat(fileName: string, mimeType?: string): SpreadsheetFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv' || mimeType === 'text/csv') return 'csv';
+  if (extension === 'xlsx' || extension === 'xls' ||
+    mimeType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
+    mimeType === 'application/vnd.ms-excel') {
+    return 'xlsx';
+  }
+  return null;
+}
+
+/**
+ * Reads the rows of a CSV file or workbook sheet as display text.
+ */
+export function readSpreadsheetRows(buffer: Buffer, format: SpreadsheetFormat, sheetName?: string): string[][] {
+  // CSV cells are kept as written so ZIP codes and dates are not reformatted
+  const workbook = format === 'csv'
+    ? XLSX.read(buffer.toString('utf8'), { type: 'string', raw: true })
+    : XLSX.read(buffer, { type: 'buffer' });
+
+  const sheet = workbook.Sheets[sheetName || workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new SpreadsheetImportError(`Sheet not found: ${sheetName}`);
+  }
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' });
+  return rows.map(row => row.map(cell => String(cell ?? '').trim()));
+}
+
+function mapHeaders(row: string[], mapping: Record<string, ImportField>): Array<ImportField | null> {
+  return row.map(header => mapping[normalizeHeader(header)] || null);
+}
+
+function isHeaderRow(fields: Array<ImportField | null>): boolean {
+  const mapped = new Set(fields.filter(Boolean));
+  const hasIdentity = mapped.has('mlsNumber') || mapped.has('address');
+  const hasPrice = mapped.has('listPrice') || mapped.has('soldPrice');
+  return hasIdentity && hasPrice;
+}
+
+function combineBaths(values: Partial<Record<ImportField, string>>): string | undefined {
+  if (values.bathrooms && !values.fullBaths) return values.bathrooms;
+  if (!values.fullBaths) return undefined;
+  return `${values.fullBaths || 0}/${values.halfBaths || 0}`;
+}
+
+/**
+ * Converts spreadsheet rows to listings. The header row is the first row that
+ * maps to an identity column (MLS number or address) and a price column, so
+ * title rows above it are skipped.
+ */
+export function importSpreadsheetRows(
+  rows: string[][],
+  options: SpreadsheetImportOptions = {}
+): { listings: Property[]; provenance: FieldProvenance[]; skippedRows: number[] } {
+  const mapping: Record<string, ImportField> = { ...DEFAULT_HEADER_MAPPING };
+  Object.entries(options.headerMapping || {}).forEach(([header, field]) => {
+    mapping[normalizeHeader(header)] = field;
+  });
+
+  const headerIndex = rows.findIndex(row => isHeaderRow(mapHeaders(row, mapping)));
+  if (headerIndex === -1) {
+    throw new SpreadsheetImportError('No header row with an MLS number or address and a price column was found');
+  }
+
+  const headers = rows[headerIndex];
+  const fields = mapHeaders(headers, mapping);
+  const listings: Property[] = [];
+  const provenance: FieldProvenance[] = [];
+  const skippedRows: number[] = [];
+
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    const rowNumber = headerIndex + offset + 2;
+    if (row.every(cell => !cell)) return;
+
+    const values: Partial<Record<ImportField, string>> = {};
+    const sources: Partial<Record<ImportField, string>> = {};
+    fields.forEach((field, column) => {
+      if (!field || !row[column] || values[field]) return;
+      values[field] = row[column];
+      sources[field] = `${headers[column]}: ${row[column]}`;
+    });
+
+    if (!values.mlsNumber && !values.address) {
+      skippedRows.push(rowNumber);
+      return;
+    }
+
+    const cells: Partial<Record<TableField, string>> = {};
+    (Object.keys(values) as ImportField[]).forEach(field => {
+      if (field !== 'fullBaths' && field !== 'halfBaths' && field !== 'status') {
+        cells[field] = values[field];
+      }
+    });
+    cells.bathrooms = combineBaths(values);
+
+    const status = values.status ? parseListingStatus(values.status) : undefined;
+    const property = toProperty(cells, status === 'Closed' || Boolean(values.soldPrice));
+    if (status) property.status = status;
+    listings.push(property);
+
+    (Object.keys(sources) as ImportField[]).forEach(field => {
+      const propertyField = field === 'fullBaths' || field === 'halfBaths' ? 'bathrooms' : field;
+      const value = property[propertyField];
+      if (value === undefined || value === 0 || value === '' || value === '0/0/0') return;
+      provenance.push({
+        mlsNumber: property.mlsNumber,
+        field: propertyField,
+        value,
+        page: null,
+        line: rowNumber,
+        snippet: sources[field] as string,
+        rule: `column:${field}`,
+        confidence: IMPORTED_VALUE_CONFIDENCE
+      });
+    });
+  });
+
+  return { listings, provenance, skippedRows };
+}
+
+/**
+ * Imports a CSV or XLSX MLS export and returns the same ProcessingResult as
+ * processPDF. The report is validated with the ingest profile and persisted
+ * like a PDF upload, and failures name the same pipeline stages.
+ */
+export async function importSpreadsheet(
+  buffer: Buffer,
+  fileName: string,
+  options: SpreadsheetImportOptions = {},
+  mimeType?: string
+): Promise<ProcessingResult> {
+  let stage: ProcessingStage = 'parsing';
+
+  try {
+    const format = detectSpreadsheetFormat(fileName, mimeType);
+    if (!format) {
+      throw new SpreadsheetImportError('Unsupported file type; expected CSV or XLSX');
+    }
+    const rows = readSpreadsheetRows(buffer, format, options.sheetName);
+
+    stage = 'extracting';
+    const { listings, provenance, skippedRows } = importSpreadsheetRows(rows, options);
+    if (skippedRows.length) {
+      console.warn(`Skipped ${skippedRows.length} spreadsheet rows without an MLS number or address:`, skippedRows);
+    }
+    // Spreadsheets are not read from text, so only the file hash is kept
+    const source = createReportSource(buffer, '', []);
+
+    stage = 'normalizing';
+    const { report, repairs } = normalizeReport({
+      ...buildMLSReport(listings),
+      extraction: { extractor: SPREADSHEET_IMPORTER.name, version: SPREADSHEET_IMPORTER.version, confidence: 1 }
+    });
+
+    stage = 'validating';
+    const validationError = validateReport(report, 'ingest').issues.find(issue => issue.severity === 'error');
+    if (validationError) {
+      return { success: false, error: `${validationError.message} in spreadsheet`, failedStage: stage };
+    }
+
+    let reportId: string | undefined;
+    if (options.persist) {
+      stage = 'persisting';
+      reportId = (await options.persist(report, source)) || undefined;
+    }
+
+    stage = 'complete';
+    return {
+      success: true,
+      data: report,
+      source,
+      provenance,
+      reviewItems: buildReviewItems(report, provenance),
+      repairs,
+      reportId
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error during spreadsheet import',
+      failedStage: stage
+    };
+  }
+}
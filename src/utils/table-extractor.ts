@@ -0,0 +1,387 @@
+import type { Property } from '@/types/property';
+import type { FieldProvenance } from '@/types/extraction';
+import type { PositionedPage, PositionedTextItem } from './pdf-layout';
+import {
+  parseBathrooms,
+  parseDate,
+  parseDecimal,
+  parseGarage,
+  parseInteger,
+  parsePrice,
+  parseYesNo
+} from './field-parsers';
+import { normalizeCity, parseAddress } from './address-parser';
+import { deriveComputedFields } from './mlsDataExtractor';
+
+// Rebuilds grid-style MLS reports (CMA "Closed Listings", "Active Listings", ...)
+// from positioned text items: items are grouped into rows by y, split into
+// cells by horizontal gaps, and cells are assigned to the columns declared by
+// the nearest header row above them.
+
+export type TableField =
+  | 'mlsNumber'
+  | 'address'
+  | 'city'
+  | 'state'
+  | 'zipCode'
+  | 'bedrooms'
+  | 'bathrooms'
+  | 'sqft'
+  | 'listPrice'
+  | 'soldPrice'
+  | 'yearBuilt'
+  | 'acres'
+  | 'daysOnMarket'
+  | 'listDate'
+  | 'soldDate'
+  | 'garage'
+  | 'pool';
+
+export interface TableCell {
+  text: string;
+  x: number;
+  endX: number;
+}
+
+export interface TableRow {
+  page: number;
+  y: number;
+  cells: TableCell[];
+}
+
+export interface TableColumn {
+  field: TableField;
+  header: string;
+  start: number;
+  end: number;
+}
+
+export const TABLE_HEADER_ALIASES: Record<string, TableField> = {
+  'mls': 'mlsNumber',
+  'mls#': 'mlsNumber',
+  'mls #': 'mlsNumber',
+  'ml#': 'mlsNumber',
+  'ml #': 'mlsNumber',
+  'mls number': 'mlsNumber',
+  'listing #': 'mlsNumber',
+  'address': 'address',
+  'street address': 'address',
+  'property address': 'address',
+  'addr': 'address',
+  'city': 'city',
+  'st': 'state',
+  'state': 'state',
+  'zip': 'zipCode',
+  'zip code': 'zipCode',
+  'zipcode': 'zipCode',
+  'postal code': 'zipCode',
+  'beds': 'bedrooms',
+  'bed': 'bedrooms',
+  'bd': 'bedrooms',
+  'br': 'bedrooms',
+  'bdrms': 'bedrooms',
+  'bedrooms': 'bedrooms',
+  'baths': 'bathrooms',
+  'bath': 'bathrooms',
+  'ba': 'bathrooms',
+  'bths': 'bathrooms',
+  'fb/hb': 'bathrooms',
+  'bathrooms': 'bathrooms',
+  'sqft': 'sqft',
+  'sq ft': 'sqft',
+  'sf': 'sqft',
+  'sqft liv': 'sqft',
+  'living area': 'sqft',
+  'square feet': 'sqft',
+  'list price': 'listPrice',
+  'lp': 'listPrice',
+  'price': 'listPrice',
+  'current price': 'listPrice',
+  'sold price': 'soldPrice',
+  'sale price': 'soldPrice',
+  'close price': 'soldPrice',
+  'closed price': 'soldPrice',
+  'sp': 'soldPrice',
+  'year built': 'yearBuilt',
+  'yr blt': 'yearBuilt',
+  'yr built': 'yearBuilt',
+  'yb': 'yearBuilt',
+  'built': 'yearBuilt',
+  'acres': 'acres',
+  'lot acres': 'acres',
+  'ac': 'acres',
+  'dom': 'daysOnMarket',
+  'cdom': 'daysOnMarket',
+  'days on market': 'daysOnMarket',
+  'list date': 'listDate',
+  'listing date': 'listDate',
+  'ld': 'listDate',
+  'sold date': 'soldDate',
+  'close date': 'soldDate',
+  'closed date': 'soldDate',
+  'closing date': 'soldDate',
+  'cd': 'soldDate',
+  'garage': 'garage',
+  'gar': 'garage',
+  'garage spaces': 'garage',
+  'pool': 'pool'
+};
+
+export interface TableExtractionOutput {
+  listings: Property[];
+  provenance: FieldProvenance[];
+}
+
+const ROW_Y_TOLERANCE = 2;
+const TABLE_CELL_CONFIDENCE = 0.9;
+const UNVALIDATED_CITY_CONFIDENCE = 0.4;
+const CELL_GAP = 4;
+const MIN_HEADER_COLUMNS = 3;
+
+const SECTION_PATTERNS: Array<{ pattern: RegExp; closed: boolean }> = [
+  { pattern: /^(?:closed|sold)\b/i, closed: true },
+  { pattern: /^(?:active|pending|coming soon|new)\b/i, closed: false }
+];
+
+const SUMMARY_ROW_PATTERN = /^(?:average|avg|median|total|min|max|high|low)\b/i;
+
+function normalizeHeader(text: string): string {
+  return text.toLowerCase().replace(/[:.]+$/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Groups the text items of a page into visual rows ordered top to bottom and
+ * merges horizontally adjacent items into cells.
+ */
+export function groupIntoRows(items: PositionedTextItem[]): TableRow[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: Array<{ page: number; y: number; items: PositionedTextItem[] }> = [];
+
+  sorted.forEach(item => {
+    const row = rows.find(r => r.page === item.page && Math.abs(r.y - item.y) <= ROW_Y_TOLERANCE);
+    if (row) {
+      row.items.push(item);
+    } else {
+      rows.push({ page: item.page, y: item.y, items: [item] });
+    }
+  });
+
+  return rows.map(row => {
+    const cells: TableCell[] = [];
+    [...row.items].sort((a, b) => a.x - b.x).forEach(item => {
+      const last = cells[cells.length - 1];
+      if (last && item.x - last.endX <= CELL_GAP) {
+        last.text = `${last.text} ${item.text.trim()}`.trim();
+        last.endX = Math.max(last.endX, item.x + item.width);
+      } else {
+        cells.push({ text: item.text.trim(), x: item.x, endX: item.x + item.width });
+      }
+    });
+    return { page: row.page, y: row.y, cells };
+  });
+}
+
+/**
+ * Returns the column layout declared by a header row, or null when the row does
+ * not look like an MLS grid header.
+ */
+export function detectHeaderColumns(row: TableRow): TableColumn[] | null {
+  const matched = row.cells
+    .map(cell => ({ cell, field: TABLE_HEADER_ALIASES[normalizeHeader(cell.text)] }))
+    .filter((entry): entry is { cell: TableCell; field: TableField } => Boolean(entry.field));
+
+  const fields = new Set(matched.map(entry => entry.field));
+  const hasIdentity = fields.has('mlsNumber') || fields.has('address');
+  const hasPrice = fields.has('listPrice') || fields.has('soldPrice');
+  if (fields.size < MIN_HEADER_COLUMNS || !hasIdentity || !hasPrice) {
+    return null;
+  }
+
+  // Column bands extend halfway into the gap between neighbouring headers so
+  // right-aligned numbers still land under their header.
+  return matched.map((entry, index) => {
+    const previous = matched[index - 1];
+    const next = matched[index + 1];
+    return {
+      field: entry.field,
+      header: entry.cell.text,
+      start: previous ? (previous.cell.endX + entry.cell.x) / 2 : -Infinity,
+      end: next ? (entry.cell.endX + next.cell.x) / 2 : Infinity
+    };
+  });
+}
+
+function assignCells(row: TableRow, columns: TableColumn[]): Partial<Record<TableField, string>> {
+  const values: Partial<Record<TableField, string>> = {};
+
+  row.cells.forEach(cell => {
+    const center = (cell.x + cell.endX) / 2;
+    const column = columns.find(c => center >= c.start && center < c.end);
+    if (!column) return;
+    values[column.field] = values[column.field]
+      ? `${values[column.field]} ${cell.text}`
+      : cell.text;
+  });
+
+  return values;
+}
+
+function isListingRow(values: Partial<Record<TableField, string>>, columns: TableColumn[]): boolean {
+  const firstValue = Object.values(values)[0] || '';
+  if (SUMMARY_ROW_PATTERN.test(firstValue)) return false;
+
+  if (columns.some(c => c.field === 'mlsNumber')) {
+    return /^[A-Z]{0,2}\d{5,}$/i.test((values.mlsNumber || '').replace(/[-\s]/g, ''));
+  }
+  return /^\d+\s+\S/.test(values.address || '');
+}
+
+/**
+ * Builds a Property from raw cell text keyed by field. Shared with the CSV/XLSX
+ * importer so both tabular sources parse values the same way.
+ */
+export function toProperty(values: Partial<Record<TableField, string>>, isClosedSection: boolean): Property {
+  const listPrice = values.listPrice ? parsePrice(values.listPrice) : undefined;
+  const soldPrice = values.soldPrice ? parsePrice(values.soldPrice) : undefined;
+  const sqft = values.sqft ? parseInteger(values.sqft) : undefined;
+  // Some grids print the full "street, city, state ZIP" in the address column
+  const parsedAddress = values.address ? parseAddress(values.address) : null;
+  const city = values.city || parsedAddress?.city || '';
+
+  const property: Property = {
+    mlsNumber: (values.mlsNumber || '').replace(/[-\s]/g, ''),
+    address: parsedAddress
+      ? (parsedAddress.unit ? `${parsedAddress.street} #${parsedAddress.unit}` : parsedAddress.street)
+      : values.address || '',
+    city: normalizeCity(city) || city,
+    listPrice: listPrice || 0,
+    bedrooms: (values.bedrooms && parseInteger(values.bedrooms)) || 0,
+    bathrooms: (values.bathrooms && parseBathrooms(values.bathrooms)) || '0/0/0',
+    sqft: sqft || 0,
+    yearBuilt: (values.yearBuilt && parseInteger(values.yearBuilt)) || 0,
+    garage: (values.garage && parseGarage(values.garage)) || '',
+    pool: (values.pool && parseYesNo(values.pool)) || false,
+    acres: (values.acres && parseDecimal(values.acres)) || 0,
+    pricePerSqft: 0
+  };
+
+  const state = values.state || parsedAddress?.state;
+  if (state) property.state = state.toUpperCase() === 'TEXAS' ? 'TX' : state.toUpperCase();
+  const zipCode = (values.zipCode || '').match(/\d{5}/)?.[0] || parsedAddress?.zipCode;
+  if (zipCode) property.zipCode = zipCode;
+
+  if (soldPrice) {
+    property.soldPrice = soldPrice;
+  } else if (isClosedSection && listPrice) {
+    // Closed grids sometimes only carry a single price column.
+    property.soldPrice = listPrice;
+  }
+
+  if (values.daysOnMarket) {
+    const daysOnMarket = parseInteger(values.daysOnMarket);
+    if (daysOnMarket !== undefined) property.daysOnMarket = daysOnMarket;
+  }
+
+  const listDate = values.listDate && parseDate(values.listDate);
+  if (listDate) property.listDate = listDate;
+  const soldDate = values.soldDate && parseDate(values.soldDate);
+  if (soldDate) property.soldDate = soldDate;
+
+  if (!property.mlsNumber) {
+    property.mlsNumber = property.address;
+  }
+
+  return deriveComputedFields(property);
+}
+
+/**
+ * Extracts one Property per grid row from positioned PDF pages, recording the
+ * page, row and cell each value was read from. Columns carry over to following
+ * pages until a new header row is found.
+ */
+export function extractTableListingsWithProvenance(pages: PositionedPage[]): TableExtractionOutput {
+  const listings: Property[] = [];
+  const provenance: FieldProvenance[] = [];
+  let columns: TableColumn[] | null = null;
+  // A section title marks the tables below it closed until the next title; a
+  // sold price column marks only the table under that header
+  let isClosedTitle = false;
+  let isClosedSection = false;
+
+  pages.forEach(page => {
+    groupIntoRows(page.items).forEach((row, rowIndex) => {
+      const headerColumns = detectHeaderColumns(row);
+      if (headerColumns) {
+        columns = headerColumns;
+        isClosedSection = isClosedTitle || headerColumns.some(c => c.field === 'soldPrice');
+        return;
+      }
+
+      if (row.cells.length <= 2) {
+        const title = row.cells.map(c => c.text).join(' ');
+        const section = SECTION_PATTERNS.find(s => s.pattern.test(title));
+        if (section) {
+          isClosedTitle = section.closed;
+          isClosedSection = section.closed;
+          columns = null;
+        }
+        return;
+      }
+
+      if (!columns) return;
+      const values = assignCells(row, columns);
+      if (!isListingRow(values, columns)) return;
+
+      const property = toProperty(values, isClosedSection);
+      listings.push(property);
+
+      columns.forEach(column => {
+        const raw = values[column.field];
+        const value = property[column.field];
+        // Cells that could not be parsed stay out of provenance so they are
+        // reported as missing rather than trusted
+        if (!raw || value === undefined || value === 0 || value === '' || value === '0/0/0') return;
+        provenance.push({
+          mlsNumber: property.mlsNumber,
+          field: column.field,
+          value,
+          page: row.page,
+          line: rowIndex + 1,
+          snippet: `${column.header}: ${raw}`,
+          rule: `table-column:${column.field}`,
+          confidence: column.field === 'city' && !normalizeCity(property.city)
+            ? UNVALIDATED_CITY_CONFIDENCE
+            : TABLE_CELL_CONFIDENCE
+        });
+      });
+
+      // City, state and ZIP read from a full address cell
+      const addressColumn = columns.find(c => c.field === 'address');
+      (['city', 'state', 'zipCode'] as const).forEach(field => {
+        if (!addressColumn || values[field] || !property[field]) return;
+        provenance.push({
+          mlsNumber: property.mlsNumber,
+          field,
+          value: property[field] ?? null,
+          page: row.page,
+          line: rowIndex + 1,
+          snippet: `${addressColumn.header}: ${values.address}`,
+          rule: 'table-column:address',
+          confidence: field === 'city' && !normalizeCity(property.city)
+            ? UNVALIDATED_CITY_CONFIDENCE
+            : TABLE_CELL_CONFIDENCE
+        });
+      });
+    });
+  });
+
+  return { listings, provenance };
+}
+
+/**
+ * Extracts one Property per grid row from positioned PDF pages. Returns an
+ * empty array when the document contains no recognizable grid.
+ */
+export function extractTableListings(pages: PositionedPage[]): Property[] {
+  return extractTableListingsWithProvenance(pages).listings;
+}
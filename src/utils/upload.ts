@@ -0,0 +1,76 @@
+import type { NextApiRequest } from 'next';
+import formidable from 'formidable';
+import type { Fields } from 'formidable';
+import fs from 'fs';
+import { MAX_UPLOAD_BYTES } from '@/types/api';
+
+// Multipart upload handling shared by the upload API routes. Routes using it
+// must disable Next's body parser so formidable can stream the file to disk.
+
+export class UploadError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'UploadError';
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, UploadError.prototype);
+  }
+}
+
+export interface ReceivedUpload {
+  fields: Fields;
+  buffer: Buffer;
+  fileName: string;
+  mimeType?: string;
+}
+
+const PDF_SIGNATURE = '%PDF-';
+// The PDF spec lets readers accept a header anywhere in the first 1024 bytes
+const PDF_SIGNATURE_WINDOW = 1024;
+
+/**
+ * Checks the PDF magic bytes rather than trusting the file name or MIME type.
+ */
+export function hasPDFSignature(buffer: Buffer): boolean {
+  return buffer.subarray(0, PDF_SIGNATURE_WINDOW).indexOf(PDF_SIGNATURE) !== -1;
+}
+
+/**
+ * Streams the multipart `file` field to a temp file, enforcing the upload size
+ * limit, then reads it into memory and removes the temp file. Throws
+ * UploadError with the HTTP status to respond with.
+ */
+export async function receiveUpload(req: NextApiRequest): Promise<ReceivedUpload> {
+  const form = formidable({ maxFiles: 1, maxFileSize: MAX_UPLOAD_BYTES });
+
+  let fields: Fields;
+  let files: formidable.Files;
+  try {
+    [fields, files] = await form.parse(req);
+  } catch (error) {
+    const httpCode = (error as { httpCode?: number }).httpCode;
+    if (httpCode === 413) {
+      throw new UploadError('File size exceeds 10MB limit', 413);
+    }
+    throw new UploadError('Invalid multipart upload');
+  }
+
+  const file = files.file?.[0];
+  if (!file) {
+    throw new UploadError('No file uploaded');
+  }
+
+  try {
+    if (file.size > MAX_UPLOAD_BYTES) {
+      throw new UploadError('File size exceeds 10MB limit', 413);
+    }
+
+    return {
+      fields,
+      buffer: await fs.promises.readFile(file.filepath),
+      fileName: file.originalFilename || file.newFilename,
+      mimeType: file.mimetype || undefined
+    };
+  } finally {
+    await fs.promises.unlink(file.filepath).catch(() => undefined);
+  }
+}
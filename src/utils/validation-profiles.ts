@@ -0,0 +1,176 @@
+import type { MLSReport, Property } from '@/types/property';
+import type {
+  ValidationIssue,
+  ValidationProfile,
+  ValidationResult,
+  ValidationRule,
+  ValidationSeverity,
+  ValidationThresholds
+} from '@/types/validation';
+import { DEFAULT_VALIDATION_THRESHOLDS, MARKET_DATA_RULES, ValidationError } from './market-data-validator';
+import { describeOutlier, detectListingOutliers } from './listing-outliers';
+
+// One validation API for every stage a report passes through. Each profile is
+// a declared list of rule IDs, so the checks a stage applies can be listed,
+// and each rule can be run and tested on its own.
+
+const LISTS = ['activeListings', 'closedListings'] as const;
+
+// Extracted values outside these ranges are almost always misreads
+const RANGES = {
+  bedrooms: { min: 0, max: 20 },
+  sqft: { min: 100, max: 100000 },
+  yearBuilt: { min: 1800, max: new Date().getFullYear() + 1 },  // New construction is listed before completion
+  acres: { min: 0, max: 1000 },
+  price: { min: 1000, max: 100000000 }
+} as const;
+
+// Statistics averages more than this far from the median suggest a misread price
+const MAX_LIST_PRICE_DISCREPANCY = 0.5;
+
+function issue(field: string, severity: ValidationSeverity, ruleId: string, message: string): ValidationIssue {
+  return { field, severity, ruleId, message };
+}
+
+function forEachListing(report: MLSReport, visit: (listing: Property, path: string) => ValidationIssue[]): ValidationIssue[] {
+  return LISTS.reduce<ValidationIssue[]>((issues, list) =>
+    (report[list] || []).reduce((listIssues, listing, index) =>
+      listIssues.concat(visit(listing, `${list}[${index}]`)), issues), []);
+}
+
+// Airtable listing records are keyed by MLS number and need an address and a
+// price; incomplete listings are still saved, with a note on the report
+function requiredListingFields(report: MLSReport): ValidationIssue[] {
+  return forEachListing(report, (listing, path) => {
+    const issues: ValidationIssue[] = [];
+    if (!listing.mlsNumber) {
+      issues.push(issue(`${path}.mlsNumber`, 'warning', 'listing-identity', 'Missing MLS number'));
+    }
+    if (!listing.address || !listing.address.trim()) {
+      issues.push(issue(`${path}.address`, 'warning', 'listing-identity', 'Missing address'));
+    }
+    if (!(listing.listPrice > 0) && !((listing.soldPrice ?? 0) > 0)) {
+      issues.push(issue(`${path}.listPrice`, 'warning', 'listing-identity', 'Missing list price'));
+    }
+    return issues;
+  });
+}
+
+export const VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: 'listings-present',
+    description: 'The report contains at least one active or closed listing',
+    check: report => ((report.activeListings || []).length || (report.closedListings || []).length
+      ? []
+      : [issue('activeListings', 'error', 'listings-present', 'No listings found')])
+  },
+  {
+    id: 'listing-identity',
+    description: 'Listings have an MLS number, an address and a price (warning; flagged on saved reports)',
+    check: requiredListingFields
+  },
+  {
+    id: 'listing-ranges',
+    description: 'Bedrooms, square footage, year built and acreage are within plausible ranges when present',
+    // Zero means the value was not found, which is reported as a review item
+    check: report => forEachListing(report, (listing, path) =>
+      (['bedrooms', 'sqft', 'yearBuilt', 'acres'] as const)
+        .filter(field => listing[field] && (listing[field] < RANGES[field].min || listing[field] > RANGES[field].max))
+        .map(field => issue(`${path}.${field}`, 'warning', 'listing-ranges',
+          `${field} value ${listing[field]} is outside valid range [${RANGES[field].min}-${RANGES[field].max}]`)))
+  },
+  {
+    id: 'statistics-prices',
+    description: 'Average and median prices are within plausible ranges and agree with each other',
+    check: report => {
+      const stats = report.statistics;
+      if (!stats) return [];
+
+      const issues: ValidationIssue[] = [];
+      (['averageListPrice', 'medianListPrice', 'averageSoldPrice', 'medianSoldPrice'] as const).forEach(field => {
+        const price = stats[field];
+        if (price !== null && (price < RANGES.price.min || price > RANGES.price.max)) {
+          issues.push(issue(`statistics.${field}`, 'warning', 'statistics-prices',
+            `${field} value ${price} is outside valid range [${RANGES.price.min}-${RANGES.price.max}]`));
+        }
+      });
+      if (stats.averageListPrice !== null && stats.medianListPrice !== null &&
+          Math.abs(stats.averageListPrice - stats.medianListPrice) > stats.averageListPrice * MAX_LIST_PRICE_DISCREPANCY) {
+        issues.push(issue('statistics.averageListPrice', 'warning', 'statistics-prices',
+          'Large discrepancy between average and median list prices'));
+      }
+      if (stats.averageDaysOnMarket !== null && stats.averageDaysOnMarket < 0) {
+        issues.push(issue('statistics.averageDaysOnMarket', 'warning', 'statistics-prices',
+          `Negative value not allowed for averageDaysOnMarket: ${stats.averageDaysOnMarket}`));
+      }
+      return issues;
+    }
+  },
+  {
+    id: 'listing-outliers',
+    description: 'Price per square foot is not an outlier among comparable listings (city, bedrooms, size, age)',
+    // Active and closed listings form one cohort, as they do in the statistics
+    check: report => {
+      const paths = LISTS.reduce<string[]>((all, list) =>
+        all.concat((report[list] || []).map((_, index) => `${list}[${index}]`)), []);
+      return detectListingOutliers(LISTS.reduce<Property[]>((all, list) => all.concat(report[list] || []), []))
+        .map(outlier => issue(`${paths[outlier.index]}.pricePerSqft`, 'warning', 'listing-outliers', describeOutlier(outlier)));
+    }
+  },
+  {
+    id: 'report-sections',
+    description: 'Market trends and statistics are present so the saved report can be displayed again',
+    check: report => (['marketTrends', 'statistics'] as const)
+      .filter(section => !report[section])
+      .map(section => issue(section, 'error', 'report-sections', `Missing ${section}`))
+  },
+  ...MARKET_DATA_RULES
+];
+
+export const PROFILE_RULES: Record<ValidationProfile, string[]> = {
+  ingest: ['listings-present', 'listing-identity', 'listing-ranges', 'statistics-prices'],
+  persist: ['listings-present', 'listing-identity', 'listing-ranges', 'statistics-prices', 'report-sections'],
+  display: [...MARKET_DATA_RULES.map(rule => rule.id), 'listing-outliers']
+};
+
+export function getValidationRule(id: string): ValidationRule | undefined {
+  return VALIDATION_RULES.find(rule => rule.id === id);
+}
+
+/**
+ * Lists the rules a profile applies, in the order they run.
+ */
+export function listValidationRules(profile: ValidationProfile): ValidationRule[] {
+  return PROFILE_RULES[profile].map(id => {
+    const rule = getValidationRule(id);
+    if (!rule) {
+      throw new Error(`Unknown validation rule "${id}" in the ${profile} profile`);
+    }
+    return rule;
+  });
+}
+
+/**
+ * Runs every rule of the profile and returns all issues found. The report is
+ * valid for the profile when none of them is an error. Pass the thresholds
+ * loaded for the report's city and price band to apply their overrides.
+ */
+export function validateReport(
+  report: MLSReport,
+  profile: ValidationProfile,
+  thresholds: ValidationThresholds = DEFAULT_VALIDATION_THRESHOLDS
+): ValidationResult {
+  const issues = listValidationRules(profile)
+    .reduce<ValidationIssue[]>((found, rule) => found.concat(rule.check(report, thresholds)), []);
+  return { profile, valid: !issues.some(found => found.severity === 'error'), issues };
+}
+
+/**
+ * Throws a ValidationError for the first error the profile finds.
+ */
+export function assertValidReport(report: MLSReport, profile: ValidationProfile): void {
+  const firstError = validateReport(report, profile).issues.find(found => found.severity === 'error');
+  if (firstError) {
+    throw new ValidationError(`Report is not valid for ${profile}: ${firstError.message}`, firstError.field);
+  }
+}
@@ -0,0 +1,117 @@
+import type { MLSReport } from '@/types/property';
+import type { ThresholdScope, ValidationThresholdName, ValidationThresholds } from '@/types/validation';
+import { getConfigurations } from './airtable';
+import { DEFAULT_VALIDATION_THRESHOLDS } from './market-data-validator';
+
+// Validation thresholds are tuned in the Airtable Configuration table without
+// a deploy. A record named after a threshold overrides the default for every
+// report; suffixes narrow it to a price band, a city, or both:
+//
+//   MAX_PRICE_TO_INCOME_RATIO                  every report
+//   MAX_PRICE_TO_INCOME_RATIO@750k-1.5m        reports in that price band
+//   MAX_PRICE_TO_INCOME_RATIO@Frisco           Frisco reports
+//   MAX_PRICE_TO_INCOME_RATIO@Frisco/750k-1.5m Frisco reports in that band
+//
+// The most specific record wins.
+
+// Bands of the report's median list price
+export const PRICE_BANDS = [
+  { id: 'under-400k', max: 400000 },
+  { id: '400k-750k', max: 750000 },
+  { id: '750k-1.5m', max: 1500000 },
+  { id: 'over-1.5m', max: Infinity }
+] as const;
+
+// Edits in Airtable take effect once the cached values expire
+export const THRESHOLD_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const THRESHOLD_NAMES = Object.keys(DEFAULT_VALIDATION_THRESHOLDS) as ValidationThresholdName[];
+
+const cache = new Map<string, { thresholds: ValidationThresholds; expiresAt: number }>();
+
+export function getPriceBand(price: number | null | undefined): string | undefined {
+  if (price === null || price === undefined || !(price > 0)) return undefined;
+  return PRICE_BANDS.find(band => price < band.max)?.id;
+}
+
+/**
+ * The city most of the report's listings are in and the price band of its
+ * median list price (median sold price when nothing is listed).
+ */
+export function getThresholdScope(report: MLSReport): ThresholdScope {
+  const counts = [...(report.activeListings || []), ...(report.closedListings || [])]
+    .filter(listing => listing.city)
+    .reduce((byCity, listing) => byCity.set(listing.city, (byCity.get(listing.city) || 0) + 1), new Map<string, number>());
+  const city = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  const stats = report.statistics;
+  const priceBand = stats ? getPriceBand(stats.medianListPrice ?? stats.medianSoldPrice) : undefined;
+
+  return { city, priceBand };
+}
+
+/**
+ * Configuration record names that can set a threshold for the scope, from
+ * the most general to the most specific.
+ */
+export function thresholdConfigNames(name: ValidationThresholdName, scope: ThresholdScope = {}): string[] {
+  const { city, priceBand } = scope;
+  return [
+    name,
+    priceBand && `${name}@${priceBand}`,
+    city && `${name}@${city}`,
+    city && priceBand && `${name}@${city}/${priceBand}`
+  ].filter((configName): configName is string => Boolean(configName));
+}
+
+/**
+ * Applies configuration values to the defaults, most specific record last.
+ */
+export function resolveThresholds(values: Record<string, number>, scope: ThresholdScope = {}): ValidationThresholds {
+  return THRESHOLD_NAMES.reduce((thresholds, name) => {
+    thresholdConfigNames(name, scope).forEach(configName => {
+      if (configName in values) {
+        thresholds[name] = values[configName];
+      }
+    });
+    return thresholds;
+  }, { ...DEFAULT_VALIDATION_THRESHOLDS });
+}
+
+/**
+ * Loads the thresholds for a city and price band from the Configuration
+ * table, cached for THRESHOLD_CACHE_TTL_MS. The defaults are used, and
+ * cached for the same time, when Airtable is not configured or unavailable.
+ */
+export async function loadValidationThresholds(scope: ThresholdScope = {}): Promise<ValidationThresholds> {
+  const key = `${scope.city || ''}/${scope.priceBand || ''}`;
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.thresholds;
+  }
+
+  let thresholds: ValidationThresholds = { ...DEFAULT_VALIDATION_THRESHOLDS };
+  if (process.env.AIRTABLE_API_KEY) {
+    try {
+      const configNames = THRESHOLD_NAMES.reduce<string[]>(
+        (names, name) => names.concat(thresholdConfigNames(name, scope)),
+        []
+      );
+      thresholds = resolveThresholds(await getConfigurations(configNames), scope);
+    } catch (error) {
+      console.error('Error loading validation thresholds, using defaults:', error);
+    }
+  }
+
+  cache.set(key, { thresholds, expiresAt: Date.now() + THRESHOLD_CACHE_TTL_MS });
+  return thresholds;
+}
+
+export function loadReportThresholds(report: MLSReport): Promise<ValidationThresholds> {
+  return loadValidationThresholds(getThresholdScope(report));
+}
+
+// Lets an admin see an Airtable edit immediately
+export function clearValidationThresholdCache(): void {
+  cache.clear();
+}